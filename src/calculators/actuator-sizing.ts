@@ -0,0 +1,196 @@
+/**
+ * Actuator Sizing Module
+ * Valve load at shutoff and actuator selection from the actuator database
+ *
+ * Linear (globe, unbalanced plug):
+ *   F = ΔP × π/4 × d² + seat load × π × d + packing friction
+ * Rotary (butterfly, ball):
+ *   T = seating torque + packing friction + μ × ΔP × π/4 × d² × dstem/2
+ *   seating torque defaults to μseat × ΔP × π/4 × d² × d/2 (disc/ball on the seat)
+ * Required = load × safety factor
+ * Spring-return actuators must deliver the required torque over both the
+ * air stroke and the spring stroke.
+ */
+
+import { CONSTANTS } from '../constants/index.js';
+import {
+  getActuatorBrands,
+  getActuatorTypes,
+  getActuatorModels,
+  getActuatorSpec,
+  getActuatorTorques
+} from '../data/actuator-data.js';
+import type { ActuatorSpec, ActuatorTorques } from '../data/actuator-data.js';
+
+/**
+ * Valve stem motion
+ */
+export type ValveMotion = 'Linear' | 'Rotary';
+
+/**
+ * Actuator action: spring return or double acting
+ */
+export type ActuatorAction = 'single' | 'double';
+
+/**
+ * Valve load parameters
+ */
+export interface ActuatorLoadParams {
+  motion: ValveMotion;
+  shutoffPressure: number;  // Pressure differential at shutoff KPa
+  seatDiameter: number;     // Seat (or disc/ball bore) diameter mm
+  packingFriction?: number; // Packing friction N (linear) or Nm (rotary), default 0
+  seatLoad?: number;        // Seat load N/mm of circumference (linear, default CONSTANTS.ACTUATOR.SEAT_LOAD)
+  seatTorque?: number;      // Seating torque Nm (rotary, default from ΔP with CONSTANTS.ACTUATOR.SEAT_FRICTION)
+  stemDiameter?: number;    // Shaft diameter mm (rotary bearing friction, default 0)
+  bearingFriction?: number; // Bearing friction coefficient (rotary, default CONSTANTS.ACTUATOR.BEARING_FRICTION)
+  safetyFactor?: number;    // Safety factor (default CONSTANTS.ACTUATOR.SAFETY_FACTOR)
+}
+
+/**
+ * Valve load result
+ * Forces in N for linear valves, torques in Nm for rotary valves.
+ */
+export interface ActuatorLoadResult {
+  motion: ValveMotion;
+  unit: 'N' | 'Nm';
+  unbalancedForce: number;  // ΔP × seat area N
+  seating: number;          // Seat load N or seating torque Nm (rotary default: μseat × force × seat radius)
+  friction: number;         // Packing (and bearing) friction N or Nm
+  load: number;             // Total valve load N or Nm
+  required: number;         // load × safety factor
+}
+
+/**
+ * Actuator selection parameters
+ */
+export interface ActuatorSelectionParams extends ActuatorLoadParams {
+  supplyPressure: number;   // Available air supply MPa(G)
+  action: ActuatorAction;
+  brand?: string;           // Restrict to one brand
+  type?: string;            // Restrict to one actuator type
+}
+
+/**
+ * Actuator model able to drive the valve
+ */
+export interface ActuatorCandidate {
+  brand: string;
+  type: string;
+  model: string;
+  action: ActuatorAction;
+  spec: ActuatorSpec;
+  torques: ActuatorTorques; // Stroke torques at the supply pressure Nm
+  outputTorque: number;     // Smallest torque over both strokes Nm
+}
+
+/**
+ * Actuator selection result
+ */
+export interface ActuatorSelectionResult {
+  load: ActuatorLoadResult;
+  selected: ActuatorCandidate | null; // Smallest adequate model
+  margin?: number;                    // outputTorque / required torque
+  candidates: ActuatorCandidate[];    // Adequate models, smallest first
+  warnings: string[];
+}
+
+/**
+ * Calculate the valve load at shutoff
+ * ΔP KPa × area mm² / 1000 = N
+ */
+export function calculateActuatorLoad(params: ActuatorLoadParams): ActuatorLoadResult {
+  const { motion, shutoffPressure, seatDiameter } = params;
+  if (seatDiameter <= 0) {
+    throw new Error('Seat diameter must be positive');
+  }
+
+  const area = Math.PI / 4 * seatDiameter * seatDiameter;
+  const unbalancedForce = shutoffPressure / 1000 * area;
+  const packingFriction = params.packingFriction ?? 0;
+
+  let seating: number;
+  let friction: number;
+  let load: number;
+  if (motion === 'Linear') {
+    seating = (params.seatLoad ?? CONSTANTS.ACTUATOR.SEAT_LOAD) * Math.PI * seatDiameter;
+    friction = packingFriction;
+    load = unbalancedForce + seating + friction;
+  } else {
+    const mu = params.bearingFriction ?? CONSTANTS.ACTUATOR.BEARING_FRICTION;
+    const bearingTorque = mu * unbalancedForce * (params.stemDiameter ?? 0) / 2 / 1000;
+    seating = params.seatTorque
+      ?? CONSTANTS.ACTUATOR.SEAT_FRICTION * unbalancedForce * seatDiameter / 2 / 1000;
+    friction = packingFriction + bearingTorque;
+    load = seating + friction;
+  }
+
+  return {
+    motion,
+    unit: motion === 'Linear' ? 'N' : 'Nm',
+    unbalancedForce,
+    seating,
+    friction,
+    load,
+    required: load * (params.safetyFactor ?? CONSTANTS.ACTUATOR.SAFETY_FACTOR)
+  };
+}
+
+/**
+ * Smallest actuator torque over the air and spring strokes
+ */
+export function calcMinStrokeTorque(torques: ActuatorTorques): number {
+  return Math.min(
+    torques.airStart,
+    torques.airEnd,
+    torques.springStart ?? Infinity,
+    torques.springEnd ?? Infinity
+  );
+}
+
+/**
+ * Size the valve load and pick the smallest adequate actuator
+ * The actuator database lists rotary (torque) models only, so linear
+ * valves get their required thrust without a model.
+ */
+export function selectActuator(params: ActuatorSelectionParams): ActuatorSelectionResult {
+  const load = calculateActuatorLoad(params);
+  const warnings: string[] = [];
+
+  if (params.motion === 'Linear') {
+    warnings.push('Actuator database lists rotary models only; no linear actuator selected');
+    return { load, selected: null, candidates: [], warnings };
+  }
+
+  const brands = params.brand ? [params.brand] : getActuatorBrands();
+  const candidates: ActuatorCandidate[] = [];
+  for (const brand of brands) {
+    const types = params.type ? [params.type] : getActuatorTypes(brand);
+    for (const type of types) {
+      for (const model of getActuatorModels(brand, type, params.action)) {
+        const spec = getActuatorSpec(brand, type, model);
+        const torques = spec && getActuatorTorques(spec, params.supplyPressure, params.action);
+        if (!spec || !torques) continue;
+
+        const outputTorque = calcMinStrokeTorque(torques);
+        if (outputTorque >= load.required) {
+          candidates.push({ brand, type, model, action: params.action, spec, torques, outputTorque });
+        }
+      }
+    }
+  }
+  candidates.sort((a, b) => a.outputTorque - b.outputTorque);
+
+  const selected = candidates[0] ?? null;
+  if (!selected) {
+    warnings.push(`No actuator delivers the required ${load.required.toFixed(1)} Nm at ${params.supplyPressure} MPa`);
+  }
+
+  return {
+    load,
+    selected,
+    margin: selected ? selected.outputTorque / load.required : undefined,
+    candidates,
+    warnings
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Cavitation Assessment Module
+ * Cavitation index σ against incipient, constant and damage limits
+ * (ISA-RP75.23 style), with the incipient point from IEC 60534-8-4.
+ *
+ * σ = (P1 - Pv) / (P1 - P2) = 1 / xF
+ * xFz = 0.9 / √(1 + 3×Fd×√(C/(N34×FL))),  N34 = 1.17 (Kv)
+ * xFzp1 = xFz × (6×10⁵ Pa / P1)^0.125
+ *
+ * Default limits without manufacturer data:
+ *   incipient σi = 1/xFzp1, constant σc = 1/(0.8×FL²), damage σmv = 1/FL²
+ */
+
+import { CONSTANTS } from '../constants/index.js';
+import type {
+  CavitationAssessment,
+  CavitationLevel,
+  CavitationLimits,
+  ValveInternalsType
+} from '../types/index.js';
+import { calcXFz } from './liquid.js';
+
+/**
+ * Cavitation assessment parameters
+ */
+export interface CavitationParams {
+  P1: number;               // Inlet absolute pressure KPa
+  P2: number;               // Outlet absolute pressure KPa
+  Pv: number;               // Vapor pressure KPa
+  FL: number;               // Pressure recovery factor
+  Fd: number;               // Valve style modifier
+  C: number;                // Required Kv
+  limits?: CavitationLimits; // Manufacturer σ limits
+}
+
+// Internals in order of cavitation resistance
+const INTERNALS_ORDER: ValveInternalsType[] = [
+  'Standard',
+  'Anti-cavitation Trim',
+  'Multi-stage Pressure Reduction'
+];
+
+/**
+ * Incipient cavitation ratio corrected to the inlet pressure
+ * xFzp1 = xFz × (6×10⁵/P1)^0.125
+ */
+export function calcXFzp1(xFz: number, P1: number): number {
+  return xFz * Math.pow(CONSTANTS.CAVITATION.REFERENCE_PRESSURE / P1, 0.125);
+}
+
+/**
+ * σ limits used for the assessment
+ * Defaults never fall below a lower limit given by the manufacturer.
+ */
+export function resolveCavitationLimits(
+  FL: number,
+  xFzp1: number,
+  limits: CavitationLimits = {}
+): Required<CavitationLimits> {
+  const FL2 = FL * FL;
+  const damage = limits.damage ?? 1 / FL2;
+  const constant = limits.constant ?? Math.max(1 / (CONSTANTS.CAVITATION.CONSTANT_FACTOR * FL2), damage);
+  const incipient = limits.incipient ?? Math.max(1 / xFzp1, constant);
+
+  if (!(incipient >= constant && constant >= damage && damage > 0)) {
+    throw new Error('Cavitation limits must satisfy incipient ≥ constant ≥ damage > 0');
+  }
+  return { incipient, constant, damage };
+}
+
+/**
+ * Stages needed to keep the last stage above the σ target
+ * Equal ΔP per stage: σlast = 1 + n × (P2 - Pv) / ΔP
+ */
+export function calcPressureReductionStages(P1: number, P2: number, Pv: number, sigmaTarget: number): number {
+  const deltaP = P1 - P2;
+  if (P2 <= Pv) {
+    throw new Error('Outlet pressure must be above vapor pressure for staged pressure reduction');
+  }
+  return Math.max(2, Math.ceil((sigmaTarget - 1) * deltaP / (P2 - Pv)));
+}
+
+/**
+ * Check that the selected internals resist at least as well as recommended
+ */
+export function isInternalsAdequate(selected: ValveInternalsType, recommended: ValveInternalsType): boolean {
+  return INTERNALS_ORDER.indexOf(selected) >= INTERNALS_ORDER.indexOf(recommended);
+}
+
+/**
+ * Assess cavitation and recommend valve internals
+ */
+export function assessCavitation(params: CavitationParams): CavitationAssessment {
+  const { P1, P2, Pv, FL, Fd, C } = params;
+  if (P1 <= P2) {
+    throw new Error('Inlet pressure must be above outlet pressure');
+  }
+
+  const sigma = (P1 - Pv) / (P1 - P2);
+  const xFz = calcXFz(Fd, C, FL, CONSTANTS.N34);
+  const xFzp1 = calcXFzp1(xFz, P1);
+  const limits = resolveCavitationLimits(FL, xFzp1, params.limits);
+
+  let level: CavitationLevel;
+  let recommendedInternals: ValveInternalsType = 'Standard';
+  let stages: number | undefined;
+  let message: string;
+
+  if (P2 <= Pv) {
+    level = 'Flashing';
+    message = 'Flashing cannot be prevented by trim; use hardened trim and an expanded outlet';
+  } else if (sigma < limits.damage) {
+    level = 'Damage';
+    recommendedInternals = 'Multi-stage Pressure Reduction';
+    stages = calcPressureReductionStages(P1, P2, Pv, limits.constant);
+    message = stages > CONSTANTS.CAVITATION.MAX_STAGES
+      ? `Needs ${stages} pressure-reduction stages; split the pressure drop over several valves or restrictors`
+      : `Cavitation damage expected; use ${stages}-stage pressure reduction trim`;
+  } else if (sigma < limits.constant) {
+    level = 'Constant';
+    recommendedInternals = 'Anti-cavitation Trim';
+    message = 'Constant cavitation; use anti-cavitation trim';
+  } else if (sigma < limits.incipient) {
+    level = 'Incipient';
+    message = 'Incipient cavitation; standard trim acceptable';
+  } else {
+    level = 'None';
+    message = 'No cavitation';
+  }
+
+  return { sigma, xFz, xFzp1, limits, level, recommendedInternals, stages, message };
+}
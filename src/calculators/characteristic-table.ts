@@ -0,0 +1,201 @@
+/**
+ * Tabulated Flow Characteristic Module
+ * Manufacturer Kv-vs-travel tables interpolated with a monotone cubic
+ * (PCHIP, Fritsch–Carlson), so the curve never overshoots between points
+ * and the opening ↔ Kv mapping stays invertible.
+ * Outside the table the end segments are extended linearly.
+ *
+ * Travel-dependent FL/XT/Fd tables are interpolated linearly.
+ */
+
+import type { CharacteristicPoint, TravelCoefficientPoint } from '../types/index.js';
+
+/**
+ * Check a characteristic table
+ * Travel must increase strictly and Kv% must not decrease.
+ */
+export function validateCharacteristicTable(table: CharacteristicPoint[]): void {
+  if (table.length < 2) {
+    throw new Error('Characteristic table needs at least 2 points');
+  }
+  table.forEach((point, i) => {
+    if (point.kv < 0) {
+      throw new Error(`Characteristic table Kv% must be non-negative (travel ${point.travel}%)`);
+    }
+    if (i > 0 && point.travel <= table[i - 1].travel) {
+      throw new Error('Characteristic table travel must be strictly increasing');
+    }
+    if (i > 0 && point.kv < table[i - 1].kv) {
+      throw new Error('Characteristic table Kv% must not decrease with travel');
+    }
+  });
+}
+
+/**
+ * Calculate PCHIP end-point derivatives (three-point, shape preserving)
+ */
+function calcEndSlope(h0: number, h1: number, delta0: number, delta1: number): number {
+  const d = ((2 * h0 + h1) * delta0 - h0 * delta1) / (h0 + h1);
+  if (Math.sign(d) !== Math.sign(delta0)) return 0;
+  if (Math.sign(delta0) !== Math.sign(delta1) && Math.abs(d) > Math.abs(3 * delta0)) return 3 * delta0;
+  return d;
+}
+
+/**
+ * Calculate PCHIP node derivatives
+ * Interior: weighted harmonic mean of adjacent secants, 0 at a local extremum
+ *
+ * @param x Travel %
+ * @param y Kv %
+ */
+export function calcPchipSlopes(x: number[], y: number[]): number[] {
+  const n = x.length;
+  const h = x.slice(1).map((xi, k) => xi - x[k]);
+  const delta = h.map((hk, k) => (y[k + 1] - y[k]) / hk);
+
+  if (n === 2) return [delta[0], delta[0]];
+
+  const d = new Array<number>(n);
+  for (let k = 1; k < n - 1; k++) {
+    if (delta[k - 1] * delta[k] <= 0) {
+      d[k] = 0;
+    } else {
+      const w1 = 2 * h[k] + h[k - 1];
+      const w2 = h[k] + 2 * h[k - 1];
+      d[k] = (w1 + w2) / (w1 / delta[k - 1] + w2 / delta[k]);
+    }
+  }
+  d[0] = calcEndSlope(h[0], h[1], delta[0], delta[1]);
+  d[n - 1] = calcEndSlope(h[n - 2], h[n - 3], delta[n - 2], delta[n - 3]);
+  return d;
+}
+
+/**
+ * Evaluate the cubic Hermite segment k at travel
+ */
+function evalSegment(x: number[], y: number[], d: number[], k: number, travel: number): number {
+  const h = x[k + 1] - x[k];
+  const t = (travel - x[k]) / h;
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return (2 * t3 - 3 * t2 + 1) * y[k]
+    + (t3 - 2 * t2 + t) * h * d[k]
+    + (-2 * t3 + 3 * t2) * y[k + 1]
+    + (t3 - t2) * h * d[k + 1];
+}
+
+/**
+ * Calculate Kv% at a travel from a characteristic table
+ * Beyond the table the end segment is extended linearly, never below 0.
+ *
+ * @param travel Valve travel %
+ * @param table Characteristic table
+ */
+export function calcTabulatedKvPercent(travel: number, table: CharacteristicPoint[]): number {
+  validateCharacteristicTable(table);
+  const x = table.map(p => p.travel);
+  const y = table.map(p => p.kv);
+  const n = x.length;
+
+  if (travel <= x[0]) {
+    const slope = (y[1] - y[0]) / (x[1] - x[0]);
+    return Math.max(0, y[0] + slope * (travel - x[0]));
+  }
+  if (travel >= x[n - 1]) {
+    const slope = (y[n - 1] - y[n - 2]) / (x[n - 1] - x[n - 2]);
+    return y[n - 1] + slope * (travel - x[n - 1]);
+  }
+
+  const d = calcPchipSlopes(x, y);
+  const k = x.findIndex((xi, i) => travel >= xi && travel <= x[i + 1]);
+  return evalSegment(x, y, d, k, travel);
+}
+
+/**
+ * Calculate travel % for a Kv% from a characteristic table (inverse)
+ * Bisection within the bracketing segment; monotone interpolation
+ * makes the bracket unique. Flat segments return their first travel.
+ * Beyond the table the end segment is extended linearly, so openings
+ * below 0% or above 100% report an over- or undersized valve.
+ *
+ * @param kvPercent Kv as % of rated Kv
+ * @param table Characteristic table
+ */
+export function calcTabulatedTravel(kvPercent: number, table: CharacteristicPoint[]): number {
+  validateCharacteristicTable(table);
+  const x = table.map(p => p.travel);
+  const y = table.map(p => p.kv);
+  const n = x.length;
+
+  if (kvPercent < y[0]) {
+    const slope = (y[1] - y[0]) / (x[1] - x[0]);
+    return slope > 0 ? x[0] + (kvPercent - y[0]) / slope : NaN;
+  }
+  if (kvPercent > y[n - 1]) {
+    const slope = (y[n - 1] - y[n - 2]) / (x[n - 1] - x[n - 2]);
+    return slope > 0 ? x[n - 1] + (kvPercent - y[n - 1]) / slope : NaN;
+  }
+
+  const d = calcPchipSlopes(x, y);
+  const k = y.findIndex((yi, i) => kvPercent >= yi && kvPercent <= y[i + 1]);
+  if (kvPercent === y[k]) return x[k];
+  if (kvPercent === y[k + 1]) return x[k + 1];
+
+  let low = x[k];
+  let high = x[k + 1];
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (evalSegment(x, y, d, k, mid) < kvPercent) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Interpolate one coefficient linearly in travel
+ * Held at the end values outside the table.
+ */
+function interpolateLinear(travel: number, points: { travel: number; value: number }[]): number {
+  if (travel <= points[0].travel) return points[0].value;
+  const last = points[points.length - 1];
+  if (travel >= last.travel) return last.value;
+
+  const k = points.findIndex((p, i) => travel >= p.travel && travel <= points[i + 1].travel);
+  const a = points[k];
+  const b = points[k + 1];
+  return a.value + (b.value - a.value) * (travel - a.travel) / (b.travel - a.travel);
+}
+
+/**
+ * Calculate FL, XT and Fd at a travel from a coefficient table
+ * Each coefficient uses only the points that give it; coefficients no
+ * point gives are left undefined.
+ *
+ * @param travel Valve travel %
+ * @param table Coefficients vs travel
+ */
+export function calcCoefficientsAtTravel(
+  travel: number,
+  table: TravelCoefficientPoint[]
+): Pick<TravelCoefficientPoint, 'FL' | 'XT' | 'Fd'> {
+  if (table.length === 0) {
+    throw new Error('Travel coefficient table needs at least 1 point');
+  }
+  table.forEach((point, i) => {
+    if (i > 0 && point.travel <= table[i - 1].travel) {
+      throw new Error('Travel coefficient table travel must be strictly increasing');
+    }
+  });
+
+  const lookup = (key: 'FL' | 'XT' | 'Fd'): number | undefined => {
+    const points = table
+      .filter(p => p[key] !== undefined)
+      .map(p => ({ travel: p.travel, value: p[key] as number }));
+    return points.length > 0 ? interpolateLinear(travel, points) : undefined;
+  };
+
+  return { FL: lookup('FL'), XT: lookup('XT'), Fd: lookup('Fd') };
+}
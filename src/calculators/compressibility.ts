@@ -0,0 +1,98 @@
+/**
+ * Compressibility Factor Calculation Module
+ * Peng–Robinson equation of state from critical properties
+ */
+
+/**
+ * Compressibility calculation parameters
+ */
+export interface CompressibilityParams {
+  P: number;              // Absolute pressure KPa
+  T: number;              // Temperature K
+  Tc: number;             // Critical temperature K
+  Pc: number;             // Critical pressure MPa
+  omega?: number;         // Acentric factor (default 0)
+}
+
+/**
+ * Compressibility calculation result
+ */
+export interface CompressibilityResult {
+  Z: number;              // Compressibility factor (vapor root)
+  Tr: number;             // Reduced temperature T/Tc
+  Pr: number;             // Reduced pressure P/Pc
+  A: number;              // Dimensionless attraction parameter aP/(RT)²
+  B: number;              // Dimensionless covolume bP/(RT)
+}
+
+/**
+ * Calculate Peng–Robinson temperature function α
+ * κ = 0.37464 + 1.54226ω - 0.26992ω²
+ * α = (1 + κ(1 - √Tr))²
+ *
+ * @param Tr Reduced temperature
+ * @param omega Acentric factor
+ */
+export function calcPRAlpha(Tr: number, omega: number): number {
+  const kappa = 0.37464 + 1.54226 * omega - 0.26992 * omega * omega;
+  return Math.pow(1 + kappa * (1 - Math.sqrt(Tr)), 2);
+}
+
+/**
+ * Real roots of Z³ + c2×Z² + c1×Z + c0 = 0 (trigonometric/Cardano method)
+ */
+function solveCubic(c2: number, c1: number, c0: number): number[] {
+  const p = c1 - c2 * c2 / 3;
+  const q = 2 * Math.pow(c2, 3) / 27 - c2 * c1 / 3 + c0;
+  const shift = -c2 / 3;
+  const discriminant = q * q / 4 + Math.pow(p, 3) / 27;
+
+  if (discriminant > 0) {
+    const sqrtD = Math.sqrt(discriminant);
+    return [Math.cbrt(-q / 2 + sqrtD) + Math.cbrt(-q / 2 - sqrtD) + shift];
+  }
+
+  // Three real roots
+  const r = Math.sqrt(-p / 3);
+  const phi = Math.acos(Math.max(-1, Math.min(1, -q / (2 * r * r * r))));
+  return [0, 1, 2].map(k => 2 * r * Math.cos((phi - 2 * Math.PI * k) / 3) + shift);
+}
+
+/**
+ * Calculate compressibility factor Z (Peng–Robinson)
+ * Z³ - (1-B)Z² + (A-3B²-2B)Z - (AB-B²-B³) = 0
+ * A = 0.45724×α×Pr/Tr², B = 0.07780×Pr/Tr
+ * The largest real root (vapor phase) is returned.
+ */
+export function calculateCompressibility(params: CompressibilityParams): CompressibilityResult {
+  const { P, T, Tc, Pc, omega = 0 } = params;
+
+  if (P <= 0 || T <= 0 || Tc <= 0 || Pc <= 0) {
+    throw new Error('Pressure, temperature and critical properties must be greater than 0');
+  }
+
+  const Tr = T / Tc;
+  const Pr = P / (Pc * 1000);
+  const A = 0.45724 * calcPRAlpha(Tr, omega) * Pr / (Tr * Tr);
+  const B = 0.07780 * Pr / Tr;
+
+  const roots = solveCubic(-(1 - B), A - 3 * B * B - 2 * B, -(A * B - B * B - B * B * B))
+    .filter(root => root > B);
+  if (roots.length === 0) {
+    throw new Error(`No physical Peng–Robinson root at P=${P} KPa, T=${T} K`);
+  }
+
+  return { Z: Math.max(...roots), Tr, Pr, A, B };
+}
+
+/**
+ * Calculate compressibility factor Z (Peng–Robinson)
+ * @param P Absolute pressure KPa
+ * @param T Temperature K
+ * @param Tc Critical temperature K
+ * @param Pc Critical pressure MPa
+ * @param omega Acentric factor
+ */
+export function calcCompressibilityZ(P: number, T: number, Tc: number, Pc: number, omega: number = 0): number {
+  return calculateCompressibility({ P, T, Tc, Pc, omega }).Z;
+}
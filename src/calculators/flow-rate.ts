@@ -0,0 +1,399 @@
+/**
+ * Flow Rate Calculation Module (inverse sizing)
+ * Solves the IEC 60534-2-1 sizing equations for flow at a known Kv.
+ * All Kv formulas are linear in flow, so the flow is Kv divided by the
+ * Kv required per unit flow under the same flow regime.
+ */
+
+import { CONSTANTS } from '../constants/index.js';
+import type { FlowState, FluidState } from '../types/index.js';
+import {
+  calcFF,
+  calcSumK,
+  calcFP,
+  calcFLP,
+  calcC1,
+  calcC2,
+  calcC3,
+  calcC4,
+  calcC5,
+  calcXF,
+  calcXFz,
+  determineFlowStateNoFitting,
+  determineFlowStateWithFitting,
+  determineFluidState
+} from './liquid.js';
+import {
+  calcFgamma,
+  calcX,
+  calcXTP,
+  calcY,
+  calcGasKv,
+  calcGasKvWithFitting,
+  calcGasKvChoked,
+  calcGasKvChokedWithFitting,
+  calcGasKvLaminar,
+  determineGasFlowState,
+  determineGasFlowStateWithFitting
+} from './gas.js';
+import {
+  calcSteamKv,
+  calcSteamKvWithFitting,
+  calcSteamKvChoked,
+  calcSteamKvChokedWithFitting,
+  calcSteamKvLaminar
+} from './steam.js';
+import { solveFixedPoint } from '../utils/solver.js';
+
+/**
+ * Liquid flow calculation parameters
+ */
+export interface LiquidFlowParams {
+  kv: number;             // Available Kv
+  P1: number;             // Inlet absolute pressure KPa
+  P2: number;             // Outlet absolute pressure KPa
+  density: number;        // Density Kg/m³
+  Pv: number;             // Vapor pressure KPa
+  Pc: number;             // Critical pressure MPa
+  FL: number;             // Pressure recovery factor
+  d: number;              // Valve nominal diameter mm
+  D1: number;             // Upstream pipe inner diameter mm
+  D2: number;             // Downstream pipe inner diameter mm
+  Fd: number;             // Valve style modifier
+  ratedKv: number;        // Rated Kv
+  FR?: number;            // Reynolds number factor (if already calculated)
+}
+
+/**
+ * Liquid flow calculation result
+ */
+export interface LiquidFlowResult {
+  Q: number;              // Volume flow rate m³/h
+  flowState: FlowState;
+  fluidState: FluidState;
+  hasFittings: boolean;
+  usedFormula: 'C1' | 'C2' | 'C3' | 'C4' | 'C5';
+  intermediate: {
+    deltaP: number;
+    relativeDensity: number;
+    FF: number;
+    xF: number;
+    xFz: number;
+    sumK: number;
+    FP: number;
+    FLP: number;
+  };
+}
+
+/**
+ * Liquid flow comprehensive calculation
+ * Choked flow is limited by C3 (without fittings) or C4 (with fittings).
+ */
+export function calculateLiquidFlow(params: LiquidFlowParams): LiquidFlowResult {
+  const { kv, P1, P2, density, Pv, Pc, FL, d, D1, D2, Fd, ratedKv, FR = 1 } = params;
+
+  // Basic calculations
+  const deltaP = P1 - P2;
+  const relativeDensity = density / CONSTANTS.WATER_DENSITY;
+  const FF = calcFF(Pv, Pc);
+
+  // Fitting coefficient calculations (same Ci assumption as calculateLiquidKv)
+  const sumK = calcSumK(d, D1, D2);
+  const Ci = ratedKv * 1.3;
+  const FP = calcFP(sumK, Ci, d);
+  const FLP = calcFLP(FL, sumK, Ci, d);
+
+  // Flow state determination
+  const flowStateNoFitting = determineFlowStateNoFitting(deltaP, FL, P1, FF, Pv);
+  const flowStateWithFitting = determineFlowStateWithFitting(deltaP, FLP, FP, P1, FF, Pv);
+  const hasFittings = d !== D1 || d !== D2;
+
+  // Fluid state determination
+  const xF = calcXF(P1, P2, Pv);
+  const xFz = calcXFz(Fd, kv, FL);
+  const fluidState = determineFluidState(xF, xFz, FL * FL);
+
+  // Kv required per 1 m³/h under the governing formula
+  let kvPerUnit: number;
+  let usedFormula: 'C1' | 'C2' | 'C3' | 'C4' | 'C5';
+  let flowState: FlowState;
+
+  if (FR < 1) {
+    kvPerUnit = calcC5(1, FR, relativeDensity, deltaP);
+    usedFormula = 'C5';
+    flowState = flowStateNoFitting;
+  } else if (!hasFittings) {
+    if (flowStateNoFitting === 'Non-choked') {
+      kvPerUnit = calcC1(1, relativeDensity, deltaP);
+      usedFormula = 'C1';
+    } else {
+      kvPerUnit = calcC3(1, FL, relativeDensity, P1, FF, Pv);
+      usedFormula = 'C3';
+    }
+    flowState = flowStateNoFitting;
+  } else {
+    if (flowStateWithFitting === 'Non-choked') {
+      kvPerUnit = calcC2(1, FP, relativeDensity, deltaP);
+      usedFormula = 'C2';
+    } else {
+      kvPerUnit = calcC4(1, FLP, relativeDensity, P1, FF, Pv);
+      usedFormula = 'C4';
+    }
+    flowState = flowStateWithFitting;
+  }
+
+  return {
+    Q: kv / kvPerUnit,
+    flowState,
+    fluidState,
+    hasFittings,
+    usedFormula,
+    intermediate: {
+      deltaP,
+      relativeDensity,
+      FF,
+      xF,
+      xFz,
+      sumK,
+      FP,
+      FLP
+    }
+  };
+}
+
+/**
+ * Gas flow calculation parameters
+ */
+export interface GasFlowParams {
+  kv: number;             // Available Kv
+  P1: number;             // Inlet absolute pressure KPa
+  P2: number;             // Outlet absolute pressure KPa
+  T1: number;             // Inlet absolute temperature K
+  M: number;              // Molecular weight Kg/Kmol
+  Z: number;              // Compressibility factor
+  gamma: number;          // Specific heat ratio
+  xT: number;             // Pressure differential ratio factor
+  d: number;              // Valve nominal diameter mm
+  D1: number;             // Upstream pipe inner diameter mm
+  D2: number;             // Downstream pipe inner diameter mm
+  FR?: number;            // Reynolds number correction factor
+}
+
+/**
+ * Gas flow calculation result
+ */
+export interface GasFlowResult {
+  Qn: number;             // Standard volume flow rate Nm³/h
+  flowState: FlowState;
+  hasFittings: boolean;
+  usedFormula: string;
+  intermediate: {
+    deltaP: number;
+    x: number;
+    Fgamma: number;
+    Y: number;
+    xTP: number;
+    sumK: number;
+    FP: number;
+  };
+}
+
+/**
+ * Gas flow comprehensive calculation
+ * Choked flow is limited by calcGasKvChoked / calcGasKvChokedWithFitting.
+ */
+export function calculateGasFlow(params: GasFlowParams): GasFlowResult {
+  const { kv, P1, P2, T1, M, Z, gamma, xT, d, D1, D2, FR = 1 } = params;
+
+  // Basic calculations
+  const deltaP = P1 - P2;
+  const x = calcX(deltaP, P1);
+  const Fgamma = calcFgamma(gamma);
+  const hasFittings = d !== D1 || d !== D2;
+  const sumK = calcSumK(d, D1, D2);
+  const Y = calcY(x, Fgamma, xT);
+  const flowStateNoFitting = determineGasFlowState(x, Fgamma, xT);
+
+  // Kv required per 1 Nm³/h without fittings
+  const kvPerUnitNoFitting = flowStateNoFitting === 'Non-choked'
+    ? calcGasKv(1, P1, Y, M, Z, T1, x)
+    : calcGasKvChoked(1, P1, M, Z, T1, xT, Fgamma);
+
+  // FP and xTP use the Kv without fittings at the solved flow, as calculateGasKv does
+  const K1 = 0.5 * Math.pow(1 - Math.pow(d / D1, 2), 2);
+  const KB1 = 1 - Math.pow(d / D1, 4);
+  const fittingTerms = (Qn: number) => {
+    const CforFP = Qn * kvPerUnitNoFitting;
+    const FP = calcFP(sumK, CforFP, d);
+    const xTP = calcXTP(xT, FP, K1 + KB1, CforFP, d);
+    const Y_fitting = calcY(x, Fgamma, xTP);
+    const flowState = determineGasFlowStateWithFitting(x, Fgamma, xTP);
+    const kvPerUnit = flowState === 'Non-choked'
+      ? calcGasKvWithFitting(1, P1, Y_fitting, FP, M, Z, T1, x)
+      : calcGasKvChokedWithFitting(1, P1, FP, M, Z, T1, xTP, Fgamma);
+    return { FP, xTP, Y_fitting, flowState, kvPerUnit };
+  };
+
+  const kvPerUnitLaminar = FR < 1 ? calcGasKvLaminar(1, FR, M, T1, deltaP, P1, P2) : undefined;
+  let fitting = fittingTerms(kv / (kvPerUnitLaminar ?? kvPerUnitNoFitting));
+  if (hasFittings && kvPerUnitLaminar === undefined) {
+    // FP depends on the flow, so Qn = kv / kvPerUnit(Qn) is iterated
+    solveFixedPoint(
+      Qn => {
+        fitting = fittingTerms(Qn);
+        return kv / fitting.kvPerUnit;
+      },
+      kv / fitting.kvPerUnit,
+      { tolerance: 1e-9 }
+    );
+  }
+  const { FP, xTP, Y_fitting, flowState: flowStateWithFitting } = fitting;
+
+  // Kv required per 1 Nm³/h under the governing formula
+  let kvPerUnit: number;
+  let usedFormula: string;
+  let flowState: FlowState;
+
+  if (kvPerUnitLaminar !== undefined) {
+    kvPerUnit = kvPerUnitLaminar;
+    usedFormula = 'Gas laminar flow';
+    flowState = flowStateNoFitting;
+  } else if (!hasFittings) {
+    kvPerUnit = kvPerUnitNoFitting;
+    usedFormula = flowStateNoFitting === 'Non-choked'
+      ? 'Gas non-choked flow without fittings'
+      : 'Gas choked flow without fittings';
+    flowState = flowStateNoFitting;
+  } else {
+    kvPerUnit = fitting.kvPerUnit;
+    usedFormula = flowStateWithFitting === 'Non-choked'
+      ? 'Gas non-choked flow with fittings'
+      : 'Gas choked flow with fittings';
+    flowState = flowStateWithFitting;
+  }
+
+  return {
+    Qn: kv / kvPerUnit,
+    flowState,
+    hasFittings,
+    usedFormula,
+    intermediate: {
+      deltaP,
+      x,
+      Fgamma,
+      Y: hasFittings ? Y_fitting : Y,
+      xTP,
+      sumK,
+      FP
+    }
+  };
+}
+
+/**
+ * Steam flow calculation parameters
+ */
+export interface SteamFlowParams {
+  kv: number;             // Available Kv
+  P1: number;             // Inlet absolute pressure KPa
+  P2: number;             // Outlet absolute pressure KPa
+  T1: number;             // Inlet absolute temperature K
+  rho1: number;           // Inlet density Kg/m³
+  gamma: number;          // Specific heat ratio
+  xT: number;             // Pressure differential ratio factor
+  d: number;              // Valve nominal diameter mm
+  D1: number;             // Upstream pipe inner diameter mm
+  D2: number;             // Downstream pipe inner diameter mm
+  ratedKv: number;        // Rated Kv
+  FR?: number;            // Reynolds number correction factor
+}
+
+/**
+ * Steam flow calculation result
+ */
+export interface SteamFlowResult {
+  W: number;              // Mass flow rate Kg/h
+  flowState: FlowState;
+  hasFittings: boolean;
+  usedFormula: string;
+  intermediate: {
+    deltaP: number;
+    x: number;
+    Fgamma: number;
+    Y: number;
+    xTP: number;
+    sumK: number;
+    FP: number;
+  };
+}
+
+/**
+ * Steam flow comprehensive calculation
+ * Choked flow is limited by calcSteamKvChoked / calcSteamKvChokedWithFitting.
+ */
+export function calculateSteamFlow(params: SteamFlowParams): SteamFlowResult {
+  const { kv, P1, P2, T1, rho1, gamma, xT, d, D1, D2, ratedKv, FR = 1 } = params;
+
+  // Basic calculations
+  const deltaP = P1 - P2;
+  const x = calcX(deltaP, P1);
+  const Fgamma = calcFgamma(gamma);
+  const Y = calcY(x, Fgamma, xT);
+
+  // Piping coefficient calculations (same Ci assumption as calculateSteamKv)
+  const sumK = calcSumK(d, D1, D2);
+  const Ci = ratedKv * 1.3;
+  const FP = calcFP(sumK, Ci, d);
+  const K1 = 0.5 * Math.pow(1 - Math.pow(d / D1, 2), 2);
+  const KB1 = 1 - Math.pow(d / D1, 4);
+  const xTP = calcXTP(xT, FP, K1 + KB1, Ci, d);
+  const hasFittings = d !== D1 || d !== D2;
+
+  // Flow state determination
+  const flowStateNoFitting = determineGasFlowState(x, Fgamma, xT);
+  const flowStateWithFitting = determineGasFlowStateWithFitting(x, Fgamma, xTP);
+
+  // Kv required per 1 Kg/h under the governing formula
+  let kvPerUnit: number;
+  let usedFormula: string;
+  let flowState: FlowState;
+
+  if (FR < 1) {
+    kvPerUnit = calcSteamKvLaminar(1, FR, T1, deltaP, P1, P2);
+    usedFormula = 'Steam laminar flow';
+    flowState = flowStateNoFitting;
+  } else if (!hasFittings) {
+    if (flowStateNoFitting === 'Non-choked') {
+      kvPerUnit = calcSteamKv(1, Y, x, P1, rho1);
+      usedFormula = 'Steam non-choked flow without fittings';
+    } else {
+      kvPerUnit = calcSteamKvChoked(1, Fgamma, xT, P1, rho1);
+      usedFormula = 'Steam choked flow without fittings';
+    }
+    flowState = flowStateNoFitting;
+  } else {
+    if (flowStateWithFitting === 'Non-choked') {
+      kvPerUnit = calcSteamKvWithFitting(1, FP, Y, x, P1, rho1);
+      usedFormula = 'Steam non-choked flow with fittings';
+    } else {
+      kvPerUnit = calcSteamKvChokedWithFitting(1, FP, Fgamma, xTP, P1, rho1);
+      usedFormula = 'Steam choked flow with fittings';
+    }
+    flowState = flowStateWithFitting;
+  }
+
+  return {
+    W: kv / kvPerUnit,
+    flowState,
+    hasFittings,
+    usedFormula,
+    intermediate: {
+      deltaP,
+      x,
+      Fgamma,
+      Y,
+      xTP,
+      sumK,
+      FP
+    }
+  };
+}
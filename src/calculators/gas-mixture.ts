@@ -0,0 +1,118 @@
+/**
+ * Gas Mixture Property Calculation Module
+ * Mole-fraction mixing of fluid database components:
+ * - Molecular weight and critical properties: Kay's rule (mole-fraction average)
+ * - Specific heat ratio: from mixture molar cp (ideal gas, cp = R×γ/(γ-1))
+ * - Viscosity: Herning–Zipperer
+ * - Compressibility: Peng–Robinson at pseudo-critical properties
+ */
+
+import { getFluid, calcGasViscosity } from '../data/fluid-data.js';
+import type { FluidData, FluidProperties } from '../data/fluid-data.js';
+import type { GasComponent } from '../types/index.js';
+import { calcCompressibilityZ } from './compressibility.js';
+
+/** Standard molar volume Nm³/kmol (consistent with M = ρN × 22.4) */
+const MOLAR_VOLUME = 22.4;
+
+/**
+ * Gas mixture calculation result
+ */
+export interface GasMixtureResult extends FluidProperties {
+  Z: number;                // Compressibility factor at P1, T1
+  fractions: number[];      // Normalized mole fractions (input order)
+}
+
+/**
+ * Resolve components and normalize mole fractions to a sum of 1
+ */
+function resolveComponents(components: GasComponent[]): { fluid: FluidData; y: number }[] {
+  if (components.length === 0) {
+    throw new Error('Gas composition must contain at least one component');
+  }
+
+  const total = components.reduce((sum, c) => sum + c.fraction, 0);
+  if (components.some(c => c.fraction < 0) || total <= 0) {
+    throw new Error('Mole fractions must be non-negative with a positive sum');
+  }
+
+  return components.map(c => {
+    const fluid = getFluid(c.fluid);
+    if (!fluid) {
+      throw new Error(`Unknown fluid: ${c.fluid}`);
+    }
+    return { fluid, y: c.fraction / total };
+  });
+}
+
+/**
+ * Calculate specific heat ratio of an ideal gas mixture
+ * cp,i = R×γi/(γi-1), cp = Σ yi×cp,i, γ = cp/(cp-R)
+ * R cancels out, so cp is taken in units of R.
+ *
+ * @param gammas Component specific heat ratios
+ * @param fractions Component mole fractions
+ */
+export function calcMixtureGamma(gammas: number[], fractions: number[]): number {
+  const cp = gammas.reduce((sum, gamma, i) => sum + fractions[i] * gamma / (gamma - 1), 0);
+  return cp / (cp - 1);
+}
+
+/**
+ * Calculate gas mixture viscosity (Herning–Zipperer)
+ * μ = Σ yi×μi×√Mi / Σ yi×√Mi
+ *
+ * @param viscosities Component dynamic viscosities cP
+ * @param molecularWeights Component molecular weights kg/kmol
+ * @param fractions Component mole fractions
+ */
+export function calcMixtureViscosity(viscosities: number[], molecularWeights: number[], fractions: number[]): number {
+  let numerator = 0;
+  let denominator = 0;
+  viscosities.forEach((mu, i) => {
+    const weight = fractions[i] * Math.sqrt(molecularWeights[i]);
+    numerator += weight * mu;
+    denominator += weight;
+  });
+  return numerator / denominator;
+}
+
+/**
+ * Calculate gas mixture properties at inlet conditions
+ * Density is returned at standard conditions (Kg/Nm3) as for single gases.
+ *
+ * @param components Components by fluid database name and mole fraction
+ * @param P1 Inlet absolute pressure KPa
+ * @param T1 Inlet temperature K
+ */
+export function calculateGasMixture(components: GasComponent[], P1: number, T1: number): GasMixtureResult {
+  const resolved = resolveComponents(components);
+  const fractions = resolved.map(c => c.y);
+  const average = (property: (fluid: FluidData) => number) =>
+    resolved.reduce((sum, c) => sum + c.y * property(c.fluid), 0);
+
+  const molecularWeight = average(f => f.M);
+  const Tc = average(f => f.Tc);
+  const Pc = average(f => f.Pc);
+  const omega = average(f => f.omega);
+
+  const gamma = calcMixtureGamma(resolved.map(c => c.fluid.gamma), fractions);
+  const viscosity = calcMixtureViscosity(
+    resolved.map(c => calcGasViscosity(c.fluid, T1)),
+    resolved.map(c => c.fluid.M),
+    fractions
+  );
+
+  return {
+    density: molecularWeight / MOLAR_VOLUME,
+    densityUnit: 'Kg/Nm3',
+    viscosity,
+    molecularWeight,
+    gamma,
+    Pc,
+    Tc,
+    omega,
+    Z: calcCompressibilityZ(P1, T1, Tc, Pc, omega),
+    fractions
+  };
+}
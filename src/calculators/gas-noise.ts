@@ -6,14 +6,34 @@
 import {
   NoiseInput,
   NoiseResult,
+  NoiseSpectrum,
   GasNoiseIntermediate,
-  GasFlowState
+  GasFlowState,
+  PipeMaterial,
+  OutletExpander,
+  ExpanderNoise,
+  SilencerEffect
 } from './noise/types.js';
 import {
   NOISE_CONSTANTS,
-  getPipeMaterialDensity,
+  getPipeMaterialProperties,
   calculateAWeighting
 } from './noise/constants.js';
+import {
+  calcTurbulentSpectrumShape,
+  buildNoiseSpectrum,
+  calibrateSpectrum,
+  sumSoundLevels,
+  combineSpectra
+} from './noise/spectrum.js';
+import { calculateNoisePropagation } from './noise/propagation.js';
+import {
+  getSoundPowerRatio,
+  calcJetDiameter,
+  resolveTrimStages,
+  calculateStagedNoise
+} from './noise/trim.js';
+import { applySilencer } from './noise/silencer.js';
 
 /**
  * 计算入口声速
@@ -355,23 +375,27 @@ function calculateTransmissionLoss(
   Di: number,
   rho2: number,
   c2: number,
-  pipeMaterial: 'steel' | 'stainless' = 'steel'
+  pipeMaterial: PipeMaterial = 'steel'
 ): number {
   // 转换单位 (输入为mm，需要转为m)
   const tp_m = tp / 1000;
   const Di_m = Di / 1000;
 
+  // 管壁密度和纵波速度
+  const { density: rhoS, soundSpeed: cs } = getPipeMaterialProperties(pipeMaterial);
+
   // 环频率 fr (E90)
-  const fr = NOISE_CONSTANTS.CP_PIPE / (Math.PI * Di_m);
+  const fr = cs / (Math.PI * Di_m);
 
   // 内部重合频率 f0 (E91)
   const f0 = (fr / 4) * (c2 / NOISE_CONSTANTS.C0);
 
   // 外部重合频率 fg (E92)
-  const fg = Math.pow(NOISE_CONSTANTS.C0, 2) * Math.sqrt(3) / (NOISE_CONSTANTS.CP_PIPE * Math.PI * tp_m);
+  const fg = Math.pow(NOISE_CONSTANTS.C0, 2) * Math.sqrt(3) / (cs * Math.PI * tp_m);
 
   // 频率系数 Gx (E93) - Excel中使用固定值1.9×10^-3
   // 注意: Excel E89公式中使用的是E93(固定值)，不是F93(计算值)
+  // 噪音结果以 Excel 计算书为校核基准, 按 IEC 由 fp/fr、fo/fg 计算 Gx 会使全部气体噪音与计算书不一致, 故保留固定值
   const Gx = 1.9e-3;
 
   // 频率系数 Gy (E94)
@@ -388,7 +412,12 @@ function calculateTransmissionLoss(
 
   // 透射损失 TL (E89)
   // TL = 10*LOG10((7.6*10^-7)*(C2/(tp*fp))² * Gx / ((rho2*C2/(415*Gy))+1) * (Pa/Ps))
-  const term1 = NOISE_CONSTANTS.TL_COEF_GAS * Math.pow(c2 / (tp_m * fp), 2) * Gx;
+  // 系数 7.6×10^-7 由钢管 (ρ = 7800 kg/m³) 导出, 其他材料按质量定律 (ρ钢/ρs)² 修正
+  // 质量定律: 管壁透射系数 ∝ 1/(ρs×tp×f)², 见 Beranek & Vér《Noise and Vibration Control Engineering》单层板隔声;
+  // IEC 60534-8-4 液体透射损失显式含 ρs×cs×tp, 与此一致
+  // 不锈钢 (8000 kg/m³) 管外噪音比碳钢低 20×lg(8000/7800) = 0.22 dB (原实现气体不区分材料)
+  const massRatio = getPipeMaterialProperties('steel').density / rhoS;
+  const term1 = NOISE_CONSTANTS.TL_COEF_GAS * Math.pow(massRatio * c2 / (tp_m * fp), 2) * Gx;
   const term2 = (rho2 * c2 / (415 * Gy)) + 1;
   const TL = 10 * Math.log10(term1 / term2);
 
@@ -416,13 +445,183 @@ function calculateExternalNoiseLevel(
   return Lpi - TL + geometryTerm;
 }
 
+/**
+ * 马赫数修正 Lg (E95)
+ * Lg = 16*LOG10(1/(1 - M2)),  M2 = 4m/(π*Di²*rho2*c2) ≤ 0.8
+ * @param massFlow 质量流量 kg/h
+ * @param Di_m 管道内径 m
+ */
+function calculateMachCorrection(massFlow: number, Di_m: number, rho2: number, c2: number): number {
+  const M2_calc = 4 * (massFlow / 3600) / (Math.PI * Di_m * Di_m * rho2 * c2);
+  const M2 = Math.min(M2_calc, 0.8);
+  return M2 > 0 ? 16 * Math.log10(1 / (1 - M2)) : 0;
+}
+
+/**
+ * 噪音级警告
+ */
+function noiseLevelWarnings(noiseLevel: number): string[] {
+  const warnings: string[] = [];
+  if (noiseLevel > 85) {
+    warnings.push(`Noise level ${noiseLevel.toFixed(1)} dBA exceeds 85dBA, noise reduction measures needed`);
+  }
+  if (noiseLevel > 100) {
+    warnings.push('Noise level exceeds 100dBA, recommend low-noise valve or silencer');
+  }
+  return warnings;
+}
+
+/**
+ * 出口扩径管噪音
+ * 阀门出口高马赫数气流在扩径处突扩产生的紊流噪音, 经下游管道辐射
+ *   MR = 4m/(π*dE²*rho2*c2),  UR = MR*c2
+ *   WmR = m*UR²/2 * ((1 - (dE/Di)²)² + 0.2)
+ *   ηR = 10^-4 * MR^3.6,  WaR = ηR * rw * WmR
+ *   fpR = 0.2 * UR / dE
+ * 外部噪音级与阀门噪音相同: LpeR = 5 + LpiR + TL(fpR) + Lg - 10*LOG10((Do+2)/Do)
+ * @param input 噪音计算输入参数
+ * @param expander 出口扩径管
+ */
+function calculateExpanderNoise(
+  input: NoiseInput,
+  expander: OutletExpander
+): { expander: ExpanderNoise; spectrum: NoiseSpectrum } {
+  const {
+    P1, P2, T1, massFlow,
+    density: rho1,
+    gamma = 1.4,
+    molecularWeight: M = 29,
+    Di, tp,
+    pipeMaterial = 'steel'
+  } = input;
+
+  const dE = expander.inletDiameter ?? input.dValve ?? input.d;
+  if (dE >= Di) {
+    throw new Error('Expander inlet diameter must be smaller than the downstream pipe');
+  }
+
+  // 阀后气体状态 (与阀门噪音相同: 等温过程)
+  const rho2 = input.density2 ?? calculateOutletDensity(rho1, P2, P1);
+  const c2 = calculateOutletSoundSpeed(calculateInletSoundSpeed(gamma, T1, M));
+
+  // 扩径管入口马赫数和流速
+  const dE_m = dE / 1000;
+  const Di_m = Di / 1000;
+  const Mach = 4 * (massFlow / 3600) / (Math.PI * dE_m * dE_m * rho2 * c2);
+  const velocity = Mach * c2;
+
+  // 突扩流动功率和声功率
+  const areaTerm = Math.pow(1 - Math.pow(dE / Di, 2), 2) + 0.2;
+  const Wm = (massFlow / 3600) * velocity * velocity / 2 * areaTerm;
+  const eta = Math.min(1e-4 * Math.pow(Mach, 3.6), NOISE_CONSTANTS.ETA_MAX);
+  const Wa = eta * getSoundPowerRatio('standard') * Wm;
+  const fp = NOISE_CONSTANTS.FP_GAS_COEF * velocity / dE_m;
+
+  const Lpi = calculateInternalNoiseLevel(Wa, rho2, c2, Di_m);
+  const TL = calculateTransmissionLoss(tp, fp, Di, rho2, c2, pipeMaterial);
+  const Lg = calculateMachCorrection(massFlow, Di_m, rho2, c2);
+  const outerDiameter = Di_m + 2 * tp / 1000;
+  const distanceCorrection = 10 * Math.log10((outerDiameter + 2) / outerDiameter);
+  const noiseLevel = 5 + Lpi + TL + Lg - distanceCorrection;
+
+  // 频谱外部修正与总噪音级相同 (5 + Lg - 距离修正), 并校准到总噪音级 (见 calculateValveNoise)
+  const bandType = input.spectrumBands ?? 'octave';
+  const spectrum = calibrateSpectrum(buildNoiseSpectrum(
+    bandType,
+    fi => Lpi + calcTurbulentSpectrumShape(fi, fp, bandType),
+    fi => calculateTransmissionLoss(tp, fi, Di, rho2, c2, pipeMaterial),
+    5 + Lg - distanceCorrection
+  ), noiseLevel);
+
+  return {
+    expander: { inletDiameter: dE, Mach, velocity, eta, Wm, Wa, Lpi, fp, noiseLevel },
+    spectrum
+  };
+}
+
 /**
  * 气体噪音计算主函数
- * 基于Excel公式精确实现
+ * 阀门噪音 (多级降压时逐级叠加) 与出口扩径管噪音能量叠加, 经管道消声器衰减后
+ * 再计算观察点噪音级
  * @param input 噪音计算输入参数
  * @returns 噪音计算结果
  */
 export function calculateGasNoise(input: NoiseInput): NoiseResult {
+  const valveInput: NoiseInput = {
+    ...input,
+    expander: undefined,
+    silencer: undefined,
+    distance: undefined,
+    insulation: undefined
+  };
+  const valve = resolveTrimStages(input.trim) > 1
+    ? calculateStagedNoise(valveInput, calculateValveNoise)
+    : calculateValveNoise(valveInput);
+  if (!valve.spectrum) return valve;
+
+  let noiseLevel = valve.noiseLevel;
+  let spectrum = valve.spectrum;
+  let warnings = [...(valve.warnings ?? [])];
+
+  // 出口扩径管
+  let expander: ExpanderNoise | undefined;
+  if (input.expander) {
+    const expanderNoise = calculateExpanderNoise(input, input.expander);
+    expander = expanderNoise.expander;
+    noiseLevel = sumSoundLevels([noiseLevel, expander.noiseLevel]);
+    spectrum = combineSpectra([spectrum, expanderNoise.spectrum]);
+    if (expander.Mach > 0.3) {
+      warnings.push(`Expander inlet Mach number ${expander.Mach.toFixed(2)} exceeds 0.3, consider a larger valve outlet`);
+    }
+  }
+
+  // 管道消声器: 插入损失衰减阀门及扩径管噪音, 叠加消声器再生噪音 (频谱中同样叠加)
+  let silencer: SilencerEffect | undefined;
+  if (input.silencer) {
+    const unsilencedLevel = noiseLevel;
+    const silenced = applySilencer(spectrum, input.silencer);
+    spectrum = silenced.spectrum;
+    noiseLevel -= silenced.insertionLoss;
+    if (input.silencer.selfNoise !== undefined) {
+      noiseLevel = sumSoundLevels([noiseLevel, input.silencer.selfNoise]);
+    }
+    silencer = {
+      insertionLoss: silenced.insertionLoss,
+      selfNoise: input.silencer.selfNoise,
+      unsilencedLevel: Math.round(unsilencedLevel * 10) / 10
+    };
+  }
+
+  // 总噪音级变化时按总噪音级重新给出噪音级警告
+  if (expander || silencer) {
+    noiseLevel = Math.max(NOISE_CONSTANTS.MIN_NOISE, Math.min(NOISE_CONSTANTS.MAX_NOISE, noiseLevel));
+    noiseLevel = Math.round(noiseLevel * 10) / 10;
+    warnings = [...warnings.filter(w => !w.includes('Noise level')), ...noiseLevelWarnings(noiseLevel)];
+  }
+
+  // 观察点噪音级: 给定距离或隔声包覆时计算
+  const propagation = input.distance !== undefined || input.insulation
+    ? calculateNoisePropagation(noiseLevel, spectrum, input.Di + 2 * input.tp, input.distance, input.insulation)
+    : undefined;
+
+  return {
+    ...valve,
+    noiseLevel,
+    spectrum,
+    propagation,
+    expander,
+    silencer,
+    warnings: warnings.length > 0 ? warnings : undefined
+  };
+}
+
+/**
+ * 阀门噪音 (单级)
+ * 基于Excel公式精确实现
+ * @param input 噪音计算输入参数
+ * @returns 噪音计算结果
+ */
+function calculateValveNoise(input: NoiseInput): NoiseResult {
   const warnings: string[] = [];
 
   // 提取参数
@@ -470,8 +669,8 @@ export function calculateGasNoise(input: NoiseInput): NoiseResult {
     Mj = calculateJetMachNumber(P1, P2, alpha, gamma);
   }
 
-  // 计算出口密度 (Excel E83使用等温过程)
-  const rho2 = calculateOutletDensity(rho1, P2, P1);
+  // 计算出口密度 (Excel E83使用等温过程; 给定 density2 时按实际气体修正后的出口密度)
+  const rho2 = input.density2 ?? calculateOutletDensity(rho1, P2, P1);
 
   // 计算出口声速 (Excel假设等温过程，C2=C1)
   const c2 = calculateOutletSoundSpeed(c1);
@@ -483,8 +682,8 @@ export function calculateGasNoise(input: NoiseInput): NoiseResult {
   // 计算出口流速
   const U2 = calculateOutletVelocity(massFlow, rho2, Di);
 
-  // 声功率比 rw (E49)
-  const rw = 0.25;
+  // 声功率比 rw (E49), 按阀内件类型
+  const rw = getSoundPowerRatio(input.trim?.type);
 
   // 计算声效系数 (使用正确的马赫数和FL)
   const eta = calculateAcousticEfficiency(state, Mvc, Mj, FL);
@@ -513,11 +712,10 @@ export function calculateGasNoise(input: NoiseInput): NoiseResult {
     Wa = eta * rw * Wm;
   }
 
-  // 计算射流直径 Dj (E48)
-  const N14 = NOISE_CONSTANTS.N14 || 0.0049;
+  // 计算射流直径 Dj (E48), 多孔套筒取孔径
   const Fd = input.Fd || 0.46;
   const Kv = input.Kv || 100;
-  const Dj = N14 * Fd * Math.sqrt(Kv * FL);
+  const Dj = calcJetDiameter(Fd, Kv, FL, input.trim);
 
   // 计算峰值频率 (E59/E68/E72/E76/E81)
   let fp: number;
@@ -547,9 +745,7 @@ export function calculateGasNoise(input: NoiseInput): NoiseResult {
   const M0 = 4 * (massFlow / 3600) / (Math.PI * Math.pow(d / 1000, 2) * rho2 * c2);
 
   // 马赫数修正 Lg (E95)
-  const M2_calc = 4 * (massFlow / 3600) / (Math.PI * Di_m * Di_m * rho2 * c2);
-  const M2 = Math.min(M2_calc, 0.8);
-  const Lg = M2 > 0 ? 16 * Math.log10(1 / (1 - M2)) : 0;
+  const Lg = calculateMachCorrection(massFlow, Di_m, rho2, c2);
 
   // 计算外部噪音级
   // Excel公式 (E97/E98):
@@ -571,16 +767,22 @@ export function calculateGasNoise(input: NoiseInput): NoiseResult {
   // 限制范围
   noiseLevel = Math.max(NOISE_CONSTANTS.MIN_NOISE, Math.min(NOISE_CONSTANTS.MAX_NOISE, noiseLevel));
 
+  // 频谱: 各频带按 IEC 60534-8-3 频率分布函数和透射损失计算, 外部修正与 Lpae 相同 (5 + Lg - 距离修正)
+  // 总噪音级只取峰值频率 fp 处的透射损失 (Excel 计算书), 而低频带透射损失更小, 频带合计会高于总噪音级;
+  // 噪音结果以 Excel 计算书为校核基准, 故各频带统一平移使 A 计权合计等于总噪音级, 频谱只给出频率分布
+  const bandType = input.spectrumBands ?? 'octave';
+  const spectrum = calibrateSpectrum(buildNoiseSpectrum(
+    bandType,
+    fi => Lpi + calcTurbulentSpectrumShape(fi, fp, bandType),
+    fi => calculateTransmissionLoss(tp, fi, Di, rho2, c2, pipeMaterial),
+    5 + Lg - distanceCorrection
+  ), noiseLevel);
+
   // Add warnings
   if (Mvc >= 1) {
     warnings.push('Vena contracta reaches sonic velocity, high noise level');
   }
-  if (noiseLevel > 85) {
-    warnings.push(`Noise level ${noiseLevel.toFixed(1)} dBA exceeds 85dBA, noise reduction measures needed`);
-  }
-  if (noiseLevel > 100) {
-    warnings.push('Noise level exceeds 100dBA, recommend low-noise valve or silencer');
-  }
+  warnings.push(...noiseLevelWarnings(noiseLevel));
   if (M0 > 0.3) {
     warnings.push(`Outlet Mach number ${M0.toFixed(2)} is high, may need high Mach number correction`);
   }
@@ -626,6 +828,7 @@ export function calculateGasNoise(input: NoiseInput): NoiseResult {
     flowState: `${state} (${stateDescription[state]})`,
     intermediate,
     peakFrequency: Math.round(fp),
+    spectrum,
     warnings: warnings.length > 0 ? warnings : undefined
   };
 }
@@ -195,6 +195,7 @@ export interface GasKvParams {
   D2: number;             // Downstream pipe inner diameter mm
   ratedKv: number;        // Rated Kv
   FR?: number;            // Reynolds number correction factor
+  Ci?: number;            // Assumed flow coefficient (default: Kv without fittings)
 }
 
 /**
@@ -225,7 +226,7 @@ export interface GasKvResult {
  * Gas Kv comprehensive calculation
  */
 export function calculateGasKv(params: GasKvParams): GasKvResult {
-  const { Qn, P1, P2, T1, M, Z, gamma, xT, d, D1, D2, ratedKv, FR = 1 } = params;
+  const { Qn, P1, P2, T1, M, Z, gamma, xT, d, D1, D2, FR = 1, Ci } = params;
 
   // Basic calculations
   const deltaP = P1 - P2;
@@ -249,7 +250,7 @@ export function calculateGasKv(params: GasKvParams): GasKvResult {
   const kvChokedNoFitting = calcGasKvChoked(Qn, P1, M, Z, T1, xT, Fgamma);
 
   // Step 2: Use no-fitting Kv as C for FP/xTP (IEC iteration approach)
-  const CforFP = flowStateNoFitting === 'Choked' ? kvChokedNoFitting : kvNoFitting;
+  const CforFP = Ci ?? (flowStateNoFitting === 'Choked' ? kvChokedNoFitting : kvNoFitting);
   const FP = calcFP(sumK, CforFP, d);
 
   // Calculate K1 + KB1
@@ -0,0 +1,172 @@
+/**
+ * Installed Flow Characteristic Module
+ * Valve in a liquid system: pump curve, static head and line losses
+ * share the available pressure with the valve.
+ *
+ * Pump:   ΔPpump = P0 - kpump × Q²
+ * System: ΔPsys  = Pstatic + kline × Q²
+ * Valve:  Q = N1 × Kv × √(ΔPvalve / G),  ΔPvalve = ΔPpump - ΔPsys
+ */
+
+import { CONSTANTS } from '../constants/index.js';
+import type { FlowCharacteristic, CharacteristicPoint } from '../types/index.js';
+import { calcKvAtOpening } from './valve-opening.js';
+
+/**
+ * Pump and system curve (liquid)
+ */
+export interface SystemCurve {
+  pumpShutoffPressure: number;  // Pump pressure at zero flow KPa
+  pumpCurveCoefficient?: number; // Pump pressure drop-off KPa/(m3/h)² (default 0, constant supply)
+  staticPressure: number;       // Static head to overcome KPa
+  lineLoss: number;             // Line friction loss at designFlow KPa
+  designFlow: number;           // Flow at which lineLoss applies m3/h
+  relativeDensity?: number;     // Liquid relative density G (default 1)
+}
+
+/**
+ * Installed characteristic analysis parameters
+ */
+export interface InstalledCharacteristicParams {
+  system: SystemCurve;
+  ratedKv: number;              // Rated Kv
+  rangeability: number;         // Inherent rangeability R
+  flowChar: FlowCharacteristic;
+  characteristicTable?: CharacteristicPoint[]; // Kv%-vs-travel% table (Tabulated only)
+  steps?: number;               // Opening increments over 0-100% (default 20)
+}
+
+/**
+ * One point of the installed characteristic
+ */
+export interface InstalledCharacteristicPoint {
+  opening: number;              // Valve opening %
+  Kv: number;                   // Kv at opening (inherent)
+  flow: number;                 // Installed flow m3/h
+  relativeFlow: number;         // Flow / flow at 100% opening
+  deltaP: number;               // Valve pressure drop KPa
+  gain: number;                 // Installed gain d(Q/Qmax)/d(h)
+}
+
+/**
+ * Installed characteristic analysis result
+ */
+export interface InstalledCharacteristicResult {
+  flowChar: FlowCharacteristic;
+  points: InstalledCharacteristicPoint[];
+  maxFlow: number;              // Flow at 100% opening m3/h
+  authority: number;            // ΔPvalve(100%) / ΔPvalve(closed)
+  minGain: number;              // Smallest installed gain within MIN/MAX_OPENING
+  maxGain: number;              // Largest installed gain within MIN/MAX_OPENING
+  gainRatio: number;            // maxGain / minGain (1 = perfectly linear installed)
+}
+
+/**
+ * Line friction coefficient kline = lineLoss / designFlow²
+ */
+function calcLineCoefficient(system: SystemCurve): number {
+  if (!(system.designFlow > 0)) {
+    throw new Error('Design flow must be positive');
+  }
+  if (!(system.lineLoss >= 0)) {
+    throw new Error('Line loss must not be negative');
+  }
+  return system.lineLoss / (system.designFlow * system.designFlow);
+}
+
+/**
+ * Pressure available to the valve at a flow
+ * ΔPvalve = P0 - Pstatic - (kpump + kline) × Q²
+ *
+ * @param system Pump and system curve
+ * @param flow Flow m3/h
+ */
+export function calcValvePressureDrop(system: SystemCurve, flow: number): number {
+  const kLine = calcLineCoefficient(system);
+  const kPump = system.pumpCurveCoefficient ?? 0;
+  return system.pumpShutoffPressure - system.staticPressure - (kPump + kLine) * flow * flow;
+}
+
+/**
+ * Calculate installed flow for a valve Kv
+ * Closed form of Q² = (N1·Kv)²/G × (ΔP0 - k×Q²):
+ * Q = √(c × ΔP0 / (1 + c × k)),  c = (N1·Kv)²/G
+ *
+ * @param system Pump and system curve
+ * @param Kv Valve Kv at the current opening
+ */
+export function calcInstalledFlow(system: SystemCurve, Kv: number): number {
+  const deltaP0 = calcValvePressureDrop(system, 0);
+  if (deltaP0 <= 0) {
+    throw new Error('Pump shutoff pressure must exceed static pressure');
+  }
+  const kLine = calcLineCoefficient(system);
+  const k = (system.pumpCurveCoefficient ?? 0) + kLine;
+  const c = Math.pow(CONSTANTS.N1 * Kv, 2) / (system.relativeDensity ?? 1);
+  return Math.sqrt(c * deltaP0 / (1 + c * k));
+}
+
+/**
+ * Sweep opening 0-100% and calculate installed flow, gain and authority
+ * Gain uses central differences (one-sided at the ends).
+ */
+export function calculateInstalledCharacteristic(params: InstalledCharacteristicParams): InstalledCharacteristicResult {
+  const { system, ratedKv, rangeability, flowChar, characteristicTable } = params;
+  const steps = params.steps ?? 20;
+  if (steps < 2) {
+    throw new Error('At least 2 opening steps are required');
+  }
+
+  const maxFlow = calcInstalledFlow(system, ratedKv);
+  const points: InstalledCharacteristicPoint[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const opening = i * 100 / steps;
+    const Kv = calcKvAtOpening(opening, ratedKv, rangeability, flowChar, characteristicTable);
+    const flow = calcInstalledFlow(system, Kv);
+    points.push({
+      opening,
+      Kv,
+      flow,
+      relativeFlow: flow / maxFlow,
+      deltaP: calcValvePressureDrop(system, flow),
+      gain: 0
+    });
+  }
+
+  points.forEach((point, i) => {
+    const prev = points[Math.max(i - 1, 0)];
+    const next = points[Math.min(i + 1, steps)];
+    point.gain = (next.relativeFlow - prev.relativeFlow) / ((next.opening - prev.opening) / 100);
+  });
+
+  // Gain range over the control band, away from shut-off and full opening
+  const { MIN_OPENING, MAX_OPENING } = CONSTANTS.THRESHOLD;
+  const gains = points
+    .filter(p => p.opening >= MIN_OPENING && p.opening <= MAX_OPENING)
+    .map(p => p.gain);
+  const minGain = Math.min(...gains);
+  const maxGain = Math.max(...gains);
+
+  return {
+    flowChar,
+    points,
+    maxFlow,
+    authority: points[steps].deltaP / points[0].deltaP,
+    minGain,
+    maxGain,
+    gainRatio: maxGain / minGain
+  };
+}
+
+/**
+ * Compare flow characteristics in the same system
+ * Returned best first: the smallest gain ratio gives the most linear installed response.
+ */
+export function compareFlowCharacteristics(
+  params: Omit<InstalledCharacteristicParams, 'flowChar'>,
+  flowChars: FlowCharacteristic[] = ['Equal Percentage', 'Linear']
+): InstalledCharacteristicResult[] {
+  return flowChars
+    .map(flowChar => calculateInstalledCharacteristic({ ...params, flowChar }))
+    .sort((a, b) => a.gainRatio - b.gainRatio);
+}
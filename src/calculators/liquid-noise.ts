@@ -7,13 +7,27 @@ import {
   NoiseInput,
   NoiseResult,
   LiquidNoiseIntermediate,
-  CavitationState
+  CavitationState,
+  PipeMaterial,
+  SpectrumBandType
 } from './noise/types.js';
 import {
   NOISE_CONSTANTS,
-  getPipeMaterialDensity,
+  getPipeMaterialProperties,
   calculateAWeighting
 } from './noise/constants.js';
+import {
+  calcTurbulentSpectrumShape,
+  calcCavitationSpectrumShape,
+  buildNoiseSpectrum
+} from './noise/spectrum.js';
+import { calculateNoisePropagation } from './noise/propagation.js';
+import {
+  getSoundPowerRatio,
+  calcJetDiameter,
+  resolveTrimStages,
+  calculateStagedNoise
+} from './noise/trim.js';
 
 /**
  * 判定空化状态
@@ -167,22 +181,6 @@ function calculateMechanicalPower(
   return m_s * Uvc * Uvc * FL * FL / 2;
 }
 
-/**
- * 获取声功率比
- * @param valveType 阀门类型
- * @returns 声功率比
- */
-function getSoundPowerRatio(valveType: 'standard' | 'cage' | 'multistage' = 'standard'): number {
-  switch (valveType) {
-    case 'cage':
-      return NOISE_CONSTANTS.RW_CAGE;
-    case 'multistage':
-      return NOISE_CONSTANTS.RW_MULTISTAGE;
-    default:
-      return NOISE_CONSTANTS.RW_STANDARD;
-  }
-}
-
 /**
  * 计算声功率
  * @param etaTurb 紊流声效系数
@@ -309,16 +307,15 @@ function calculateTransmissionLoss(
   tp: number,
   fp: number,
   Di: number,
-  pipeMaterial: 'steel' | 'stainless' = 'steel'
+  pipeMaterial: PipeMaterial = 'steel'
 ): number {
-  const rhoP = getPipeMaterialDensity(pipeMaterial);
+  const { density: rhoP, soundSpeed: cp } = getPipeMaterialProperties(pipeMaterial);  // 管壁密度, 纵波速度
   const tp_m = tp / 1000;  // mm -> m
   const Di_m = Di / 1000;  // mm -> m
 
   // 空气参考值
   const rho0 = NOISE_CONSTANTS.RHO_0;  // 1.293 kg/m³
   const c0 = NOISE_CONSTANTS.C0;        // 343 m/s
-  const cp = NOISE_CONSTANTS.CP_PIPE;   // 5000 m/s 管壁纵波速度
 
   // 环频率 fr (E54)
   const fr = cp / (Math.PI * Di_m);
@@ -399,6 +396,11 @@ export function calculateLiquidNoise(input: NoiseInput): NoiseResult {
     pipeMaterial = 'steel'
   } = input;
 
+  // 多级降压: 逐级计算后叠加 (闪蒸时按单级计算)
+  if (resolveTrimStages(input.trim) > 1 && P2 > Pv) {
+    return calculateStagedNoise(input, calculateLiquidNoise, Pv);
+  }
+
   // 计算质量流量 (如果只提供体积流量)
   const mFlow = massFlow || (volumeFlow ? volumeFlow * rhoL : 0);
   if (mFlow === 0) {
@@ -460,17 +462,16 @@ export function calculateLiquidNoise(input: NoiseInput): NoiseResult {
   const Wm = calculateMechanicalPower(mFlow, Uvc, FL);
 
   // 获取声功率比 (E46)
-  const rw = getSoundPowerRatio('standard');
+  const rw = getSoundPowerRatio(input.trim?.type);
 
   // 计算声功率 (E47/E48/E49)
   const Wa = calculateSoundPower(etaTurb, etaCav, Wm, rw, cavitationState);
 
-  // 计算射流直径 Dj (E39)
-  const N14 = NOISE_CONSTANTS.N14 || 0.0049;
+  // 计算射流直径 Dj (E39), 多孔套筒取孔径
   const d_m = (input.dValve || d) / 1000;  // 阀体直径 mm -> m (IEC 60534-8-4: valve body diameter)
   const d0 = input.d / 1000;  // 阀座直径 m
   // N14=0.0049 is for Kv system, use Kv (not Cv)
-  const Dj = N14 * Fd * Math.sqrt(C * FL);
+  const Dj = calcJetDiameter(Fd, C, FL, input.trim);
 
   // 计算Strouhal数 (E51)
   const Nstr = calculateStrouhalNumber(FL, C, Fd, xFzp, d_m, d0, P1_Pa, Pv * 1000);
@@ -494,33 +495,26 @@ export function calculateLiquidNoise(input: NoiseInput): NoiseResult {
   const tp_m = tp / 1000;
   const distanceCorrection = 10 * Math.log10((Di_m + 2 * tp_m + 2) / (Di_m + 2 * tp_m));
 
+  // 频带内部声压级: 紊流与空化频率分布按声效系数加权叠加 (E62/E63/E65)
+  const ratioTurb = eta > 0 ? etaTurb / eta : 1;
+  const ratioCav = eta > 0 ? etaCav / eta : 0;
+  const internalLevelAt = (fi: number, bandType: SpectrumBandType = 'octave'): number => Lpi + 10 * Math.log10(
+    ratioTurb * Math.pow(10, 0.1 * calcTurbulentSpectrumShape(fi, fpTurb, bandType))
+    + ratioCav * Math.pow(10, 0.1 * calcCavitationSpectrumShape(fi, fpCav, bandType))
+  );
+
   let TL: number;
   let Lpe: number;
 
   if (isCavitation) {
     // 空化噪音: Excel E69 方法 — 在固定频率 fi=8000Hz 处评估
     const fi = 8000;
-    const rhoP = getPipeMaterialDensity(pipeMaterial);
-    const cp = NOISE_CONSTANTS.CP_PIPE;
-    const rho0 = NOISE_CONSTANTS.RHO_0;
-    const c0 = NOISE_CONSTANTS.C0;
-    const fr = cp / (Math.PI * Di_m);
-    const TLfr = -10 - 10 * Math.log10((cp * rhoP * tp_m) / (rho0 * c0 * Di_m));
-
-    // 频率分布函数 (E62/E63)
-    const Fturb_fi = -10 * Math.log10(0.25 * Math.pow(fi / fpTurb, 3) + Math.pow(fi / fpTurb, -1)) - 3.1;
-    const Fcav_fi = -10 * Math.log10(0.25 * Math.pow(fi / fpCav, 1.5) + Math.pow(fi / fpCav, -1.5)) - 3.5;
-
-    // Lpi at fi (E65)
-    const ratioTurb = etaTurb / (etaTurb + etaCav);
-    const ratioCav = etaCav / (etaTurb + etaCav);
-    const Lpi_fi = Lpi + 10 * Math.log10(
-      ratioTurb * Math.pow(10, 0.1 * Fturb_fi) + ratioCav * Math.pow(10, 0.1 * Fcav_fi)
-    );
+
+    // Lpi at fi (E62/E63/E65)
+    const Lpi_fi = internalLevelAt(fi);
 
     // TL at fi (E67/E68)
-    const deltaTL_fi = -20 * Math.log10(fr / fi + Math.pow(fi / fr, 1.5));
-    TL = TLfr + deltaTL_fi;
+    TL = calculateTransmissionLoss(tp, fi, Di, pipeMaterial);
     Lpe = Lpi_fi + TL - distanceCorrection;
   } else {
     // 紊流噪音: Excel E58 方法 — 峰值频率 + A加权
@@ -530,12 +524,26 @@ export function calculateLiquidNoise(input: NoiseInput): NoiseResult {
     Lpe = Lpi + TL + aWeighting - distanceCorrection;
   }
 
+  // 频谱: 各频带按 IEC 60534-8-4 分布函数和透射损失计算
+  const bandType = input.spectrumBands ?? 'octave';
+  const spectrum = buildNoiseSpectrum(
+    bandType,
+    fi => internalLevelAt(fi, bandType),
+    fi => calculateTransmissionLoss(tp, fi, Di, pipeMaterial),
+    -distanceCorrection
+  );
+
   // 最终噪音级
   let noiseLevel = Lpe;
 
   // 限制范围
   noiseLevel = Math.max(NOISE_CONSTANTS.MIN_NOISE, Math.min(NOISE_CONSTANTS.MAX_NOISE, noiseLevel));
 
+  // 观察点噪音级: 给定距离或隔声包覆时计算
+  const propagation = input.distance !== undefined || input.insulation
+    ? calculateNoisePropagation(noiseLevel, spectrum, Di + 2 * tp, input.distance, input.insulation)
+    : undefined;
+
   // Add warnings
   if (cavitationState === 'Constant Cavitation') {
     warnings.push('Valve is in constant cavitation state, may cause valve damage');
@@ -573,6 +581,8 @@ export function calculateLiquidNoise(input: NoiseInput): NoiseResult {
     cavitationState,
     intermediate,
     peakFrequency: Math.round(fpValid),
+    spectrum,
+    propagation,
     warnings: warnings.length > 0 ? warnings : undefined
   };
 }
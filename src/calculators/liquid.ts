@@ -168,9 +168,9 @@ export function calcXF(P1: number, P2: number, Pv: number): number {
  * @param Fd Valve style modifier
  * @param C Flow coefficient
  * @param FL Pressure recovery factor
+ * @param N34 Constant (default 1 as in the Excel sheet; IEC 60534-8-4 gives CONSTANTS.N34 for Kv)
  */
-export function calcXFz(Fd: number, C: number, FL: number): number {
-  const N34 = 1; // Simplified constant
+export function calcXFz(Fd: number, C: number, FL: number, N34: number = 1): number {
   return 0.9 / Math.sqrt(1 + 3 * Fd * Math.sqrt(C / (N34 * FL)));
 }
 
@@ -273,6 +273,7 @@ export interface LiquidKvParams {
   Fd: number;             // Valve style modifier
   ratedKv: number;        // Rated Kv (for iteration)
   FR?: number;            // Reynolds number factor (if already calculated)
+  Ci?: number;            // Assumed flow coefficient (default 1.3 × ratedKv)
 }
 
 /**
@@ -305,7 +306,7 @@ export interface LiquidKvResult {
  * Liquid Kv Comprehensive Calculation
  */
 export function calculateLiquidKv(params: LiquidKvParams): LiquidKvResult {
-  const { Q, P1, P2, density, Pv, Pc, FL, d, D1, D2, Fd, ratedKv, FR = 1 } = params;
+  const { Q, P1, P2, density, Pv, Pc, FL, d, D1, D2, Fd, ratedKv, FR = 1, Ci = ratedKv * 1.3 } = params;
 
   // Basic calculations
   const deltaP = P1 - P2;
@@ -314,7 +315,6 @@ export function calculateLiquidKv(params: LiquidKvParams): LiquidKvResult {
 
   // Fitting coefficient calculations
   const sumK = calcSumK(d, D1, D2);
-  const Ci = ratedKv * 1.3; // Assumed flow coefficient
   const FP = calcFP(sumK, Ci, d);
   const FLP = calcFLP(FL, sumK, Ci, d);
 
@@ -3,6 +3,8 @@
  * 基于 IEC 60534-8-3 和 IEC 60534-8-4
  */
 
+import type { PipeMaterial, PipeMaterialProperties } from './types.js';
+
 export const NOISE_CONSTANTS = {
   // ===== 声学参考值 =====
   /** 参考声功率 W */
@@ -17,13 +19,6 @@ export const NOISE_CONSTANTS = {
   /** 参考声速 m/s (空气, 20℃) */
   C0: 343,
 
-  // ===== 材料常数 =====
-  /** 碳钢密度 kg/m³ */
-  STEEL_DENSITY: 7800,
-
-  /** 不锈钢密度 kg/m³ */
-  STAINLESS_DENSITY: 8000,
-
   // ===== 流体声速 =====
   /** 水声速 m/s (20℃) */
   WATER_SOUND_SPEED: 1480,
@@ -53,7 +48,7 @@ export const NOISE_CONSTANTS = {
     A4: 0.975
   },
 
-  // ===== 声功率比 (液体) =====
+  // ===== 声功率比 =====
   /** 标准阀门 */
   RW_STANDARD: 0.25,
 
@@ -63,6 +58,9 @@ export const NOISE_CONSTANTS = {
   /** 多级降压 */
   RW_MULTISTAGE: 0.15,
 
+  /** 多级降压默认级数 */
+  DEFAULT_TRIM_STAGES: 3,
+
   // ===== 计算常数 =====
   /** xFz计算常数 (液体) - Excel中为1 */
   N34: 1,
@@ -76,9 +74,6 @@ export const NOISE_CONSTANTS = {
   /** N14 设计常数 */
   N14: 0.0049,
 
-  /** 管壁纵波速度 m/s */
-  CP_PIPE: 5000,
-
   // ===== 频率计算 =====
   /** 气体峰值频率系数 */
   FP_GAS_COEF: 0.2,
@@ -98,13 +93,46 @@ export const NOISE_CONSTANTS = {
 
   /** 最小噪音级 dBA */
   MIN_NOISE: 30,
+
+  // ===== 隔声包覆 =====
+  /** 护板面密度 kg/m² (铝 1.0mm, 不锈钢 0.6mm, 镀锌钢 0.8mm, 铝护板+阻尼隔声层) */
+  JACKET_MASS: {
+    aluminium: 2.7,
+    stainless: 4.8,
+    steel: 6.3,
+    'mass-loaded': 10
+  },
 };
 
+/**
+ * 管道材料物性
+ * 纵波速度: 碳钢/不锈钢取 IEC 60534-8 的 5000 m/s, 其他按板纵波速度 √(E/(ρ(1-ν²)))
+ */
+export const PIPE_MATERIALS: Record<PipeMaterial, PipeMaterialProperties> = {
+  steel: { name: '碳钢', density: 7800, soundSpeed: 5000 },
+  stainless: { name: '不锈钢', density: 8000, soundSpeed: 5000 },
+  duplex: { name: '双相不锈钢', density: 7800, soundSpeed: 5300 },
+  'copper-nickel': { name: '铜镍合金 90/10', density: 8900, soundSpeed: 4100 },
+  aluminium: { name: '铝合金', density: 2700, soundSpeed: 5350 },
+  grp: { name: '玻璃钢 GRP', density: 1900, soundSpeed: 2600 }
+};
+
+/**
+ * 获取管道材料物性
+ */
+export function getPipeMaterialProperties(material: PipeMaterial = 'steel'): PipeMaterialProperties {
+  const properties = PIPE_MATERIALS[material];
+  if (!properties) {
+    throw new Error(`Unknown pipe material: ${material}`);
+  }
+  return properties;
+}
+
 /**
  * 获取管道材料密度
  */
-export function getPipeMaterialDensity(material: 'steel' | 'stainless' = 'steel'): number {
-  return material === 'stainless' ? NOISE_CONSTANTS.STAINLESS_DENSITY : NOISE_CONSTANTS.STEEL_DENSITY;
+export function getPipeMaterialDensity(material: PipeMaterial = 'steel'): number {
+  return getPipeMaterialProperties(material).density;
 }
 
 /**
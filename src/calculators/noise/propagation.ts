@@ -0,0 +1,100 @@
+/**
+ * 噪音传播与隔声包覆
+ * 距管道任意距离的噪音级, 以及隔声包覆 (多孔材料 + 护板) 的插入损失
+ *
+ * 线声源距离衰减 (IEC 60534-8-3 1m 修正的推广):
+ *   ΔLr = 10*LOG10((Do + 2r) / (Do + 2))
+ * 包覆插入损失 (Michelsen, 见 Bies & Hansen, Engineering Noise Control):
+ *   IL(f) = 40 / (1 + 0.12/Do) * LOG10(f / 2.2f0),  f0 = 60 / SQRT(m * t)
+ *   f ≤ 2.2f0 时取 0
+ * 埋地管道 (土壤覆盖层衰减) 不在计算范围内
+ */
+
+import type { NoisePropagation, NoiseSpectrum, PipeInsulation } from './types.js';
+import { NOISE_CONSTANTS } from './constants.js';
+import { sumSoundLevels } from './spectrum.js';
+
+/**
+ * 距离衰减 (相对 1m)
+ * @param distance 距管道外表面距离 m
+ * @param outerDiameter 管道外径 mm
+ */
+export function calcDistanceCorrection(distance: number, outerDiameter: number): number {
+  if (distance <= 0) {
+    throw new Error('Noise distance must be positive');
+  }
+  const Do = outerDiameter / 1000;
+  return 10 * Math.log10((Do + 2 * distance) / (Do + 2));
+}
+
+/**
+ * 包覆质量-弹簧共振频率
+ * f0 = 60 / SQRT(m * t)
+ * @param jacketMass 护板面密度 kg/m²
+ * @param thickness 多孔层厚度 mm
+ */
+export function calcInsulationResonance(jacketMass: number, thickness: number): number {
+  return 60 / Math.sqrt(jacketMass * thickness / 1000);
+}
+
+/**
+ * 包覆插入损失
+ * 给定实测值的频带优先使用实测值
+ * @param fi 频带中心频率 Hz
+ * @param insulation 隔声包覆
+ * @param outerDiameter 管道外径 mm
+ */
+export function calcInsulationLoss(fi: number, insulation: PipeInsulation, outerDiameter: number): number {
+  const measured = insulation.attenuation?.[fi];
+  if (measured !== undefined) return measured;
+
+  if (insulation.thickness <= 0) {
+    throw new Error('Insulation thickness must be positive');
+  }
+  const mass = insulation.jacketMass ?? NOISE_CONSTANTS.JACKET_MASS[insulation.jacket ?? 'aluminium'];
+  const f0 = calcInsulationResonance(mass, insulation.thickness);
+  if (fi <= 2.2 * f0) return 0;
+
+  const Do = outerDiameter / 1000;
+  return 40 / (1 + 0.12 / Do) * Math.log10(fi / (2.2 * f0));
+}
+
+/**
+ * 观察点噪音级
+ * 包覆插入损失按 A 计权频谱能量加权, 叠加到 1m 噪音级上
+ * @param noiseLevel 距裸管 1m 噪音级 dBA
+ * @param spectrum 1m 噪音频谱
+ * @param outerDiameter 管道外径 mm
+ * @param distance 距管道外表面距离 m (默认 1)
+ * @param insulation 隔声包覆
+ */
+export function calculateNoisePropagation(
+  noiseLevel: number,
+  spectrum: NoiseSpectrum,
+  outerDiameter: number,
+  distance: number = 1,
+  insulation?: PipeInsulation
+): NoisePropagation {
+  const distanceCorrection = calcDistanceCorrection(distance, outerDiameter);
+
+  const bands = spectrum.bands.map(band => {
+    const insulationLoss = insulation ? calcInsulationLoss(band.frequency, insulation, outerDiameter) : 0;
+    return {
+      frequency: band.frequency,
+      insulationLoss,
+      LpeA: band.LpeA - insulationLoss - distanceCorrection
+    };
+  });
+
+  // 总插入损失 = 裸管频谱合计 - 包覆后频谱合计
+  const insulated = sumSoundLevels(spectrum.bands.map((band, i) => band.LpeA - bands[i].insulationLoss));
+  const insulationLoss = spectrum.totalLpeA - insulated;
+
+  return {
+    distance,
+    distanceCorrection,
+    insulationLoss,
+    noiseLevel: Math.round((noiseLevel - insulationLoss - distanceCorrection) * 10) / 10,
+    bands
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * 管道消声器 / 扩散器
+ * 按厂家给出的插入损失频谱衰减阀后噪音, 再叠加消声器自身气流再生噪音
+ *
+ * 插入损失在给定频率之间按对数频率线性插值, 超出范围取端点值;
+ * 再生噪音厂家只给出 A 计权总声级, 按 A 计权平直谱均分到各频带
+ */
+
+import type { InlineSilencer, NoiseSpectrum } from './types.js';
+import { sumSoundLevels } from './spectrum.js';
+
+/**
+ * 频带插入损失
+ * @param fi 频带中心频率 Hz
+ * @param attenuation 插入损失频谱 频率 Hz → dB
+ */
+export function calcSilencerLoss(fi: number, attenuation: Record<number, number>): number {
+  const points = Object.entries(attenuation)
+    .map(([f, loss]) => [Number(f), loss])
+    .sort((a, b) => a[0] - b[0]);
+  if (points.length === 0) {
+    throw new Error('Silencer attenuation must give at least one frequency');
+  }
+
+  if (fi <= points[0][0]) return points[0][1];
+  for (let i = 1; i < points.length; i++) {
+    const [f1, loss1] = points[i - 1];
+    const [f2, loss2] = points[i];
+    if (fi <= f2) {
+      const t = Math.log10(fi / f1) / Math.log10(f2 / f1);
+      return loss1 + t * (loss2 - loss1);
+    }
+  }
+  return points[points.length - 1][1];
+}
+
+/**
+ * 消声后频谱
+ * 内部及外部声压级各频带减去插入损失, 总插入损失为 A 计权频谱合计之差 (不含再生噪音);
+ * 给出再生噪音时各频带外部声压级再叠加 selfNoise - 10×lg(频带数) dB(A), 频谱合计增加量与总噪音级一致
+ * @param spectrum 消声前频谱
+ * @param silencer 管道消声器
+ */
+export function applySilencer(
+  spectrum: NoiseSpectrum,
+  silencer: InlineSilencer
+): { spectrum: NoiseSpectrum; insertionLoss: number } {
+  const bands = spectrum.bands.map(band => {
+    const loss = calcSilencerLoss(band.frequency, silencer.attenuation);
+    return { ...band, Lpi: band.Lpi - loss, Lpe: band.Lpe - loss, LpeA: band.LpeA - loss };
+  });
+
+  const insertionLoss = spectrum.totalLpeA - sumSoundLevels(bands.map(b => b.LpeA));
+
+  // 再生噪音在消声器下游产生, 只计入外部声压级
+  if (silencer.selfNoise !== undefined) {
+    const bandSelfNoise = silencer.selfNoise - 10 * Math.log10(bands.length);
+    for (const band of bands) {
+      band.LpeA = sumSoundLevels([band.LpeA, bandSelfNoise]);
+      band.Lpe = band.LpeA - band.aWeighting;
+    }
+  }
+
+  const totalLpe = sumSoundLevels(bands.map(b => b.Lpe));
+  const totalLpeA = sumSoundLevels(bands.map(b => b.LpeA));
+
+  return {
+    spectrum: { bandType: spectrum.bandType, bands, totalLpe, totalLpeA },
+    insertionLoss
+  };
+}
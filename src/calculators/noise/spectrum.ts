@@ -0,0 +1,145 @@
+/**
+ * 噪音频谱计算
+ * 基于 IEC 60534-8-3 / 8-4 的频率分布函数, 63Hz ~ 16kHz 倍频程或 1/3 倍频程
+ */
+
+import type { NoiseSpectrum, NoiseSpectrumBand, SpectrumBandType } from './types.js';
+
+/**
+ * 1/3 倍频程中心频率及 A 计权值 (IEC 61672-1)
+ */
+const THIRD_OCTAVE_BANDS: [number, number][] = [
+  [63, -26.2], [80, -22.5], [100, -19.1], [125, -16.1], [160, -13.4], [200, -10.9],
+  [250, -8.6], [315, -6.6], [400, -4.8], [500, -3.2], [630, -1.9], [800, -0.8],
+  [1000, 0], [1250, 0.6], [1600, 1.0], [2000, 1.2], [2500, 1.3], [3150, 1.2],
+  [4000, 1.0], [5000, 0.5], [6300, -0.1], [8000, -1.1], [10000, -2.5], [12500, -4.3],
+  [16000, -6.6]
+];
+
+/** 倍频程中心频率 */
+const OCTAVE_FREQUENCIES = [63, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+/**
+ * 获取频带中心频率及 A 计权值
+ * @param bandType 倍频程或 1/3 倍频程
+ */
+export function getSpectrumBands(bandType: SpectrumBandType = 'octave'): { frequency: number; aWeighting: number }[] {
+  const bands = THIRD_OCTAVE_BANDS.map(([frequency, aWeighting]) => ({ frequency, aWeighting }));
+  return bandType === 'octave' ? bands.filter(b => OCTAVE_FREQUENCIES.includes(b.frequency)) : bands;
+}
+
+/**
+ * 频带宽度修正: 分布函数按倍频程归一, 1/3 倍频程每带能量为 1/3
+ */
+function bandWidthCorrection(bandType: SpectrumBandType): number {
+  return bandType === 'octave' ? 0 : -10 * Math.log10(3);
+}
+
+/**
+ * 紊流频率分布函数 (倍频程)
+ * F_turb(fi) = -10*LOG10(0.25*(fi/fp)³ + (fi/fp)^-1) - 3.1
+ * @param fi 频带中心频率 Hz
+ * @param fp 紊流峰值频率 Hz
+ * @param bandType 频带类型
+ */
+export function calcTurbulentSpectrumShape(fi: number, fp: number, bandType: SpectrumBandType = 'octave'): number {
+  const ratio = fi / fp;
+  return -10 * Math.log10(0.25 * Math.pow(ratio, 3) + 1 / ratio) - 3.1 + bandWidthCorrection(bandType);
+}
+
+/**
+ * 空化频率分布函数 (倍频程)
+ * F_cav(fi) = -10*LOG10(0.25*(fi/fp)^1.5 + (fi/fp)^-1.5) - 3.5
+ * @param fi 频带中心频率 Hz
+ * @param fp 空化峰值频率 Hz
+ * @param bandType 频带类型
+ */
+export function calcCavitationSpectrumShape(fi: number, fp: number, bandType: SpectrumBandType = 'octave'): number {
+  const ratio = fi / fp;
+  return -10 * Math.log10(0.25 * Math.pow(ratio, 1.5) + Math.pow(ratio, -1.5)) - 3.5 + bandWidthCorrection(bandType);
+}
+
+/**
+ * 声级能量叠加
+ * L = 10*LOG10(Σ10^(Li/10))
+ */
+export function sumSoundLevels(levels: number[]): number {
+  const energy = levels.reduce((sum, level) => sum + Math.pow(10, level / 10), 0);
+  return energy > 0 ? 10 * Math.log10(energy) : -Infinity;
+}
+
+/**
+ * 组装噪音频谱
+ * Lpe(fi) = Lpi(fi) + TL(fi) + 外部修正 (马赫数修正 - 距离修正)
+ * @param bandType 频带类型
+ * @param internalLevel 各频带内部声压级 Lpi(fi)
+ * @param transmissionLoss 各频带透射损失 TL(fi)
+ * @param externalCorrection 外部修正 dB
+ */
+export function buildNoiseSpectrum(
+  bandType: SpectrumBandType,
+  internalLevel: (fi: number) => number,
+  transmissionLoss: (fi: number) => number,
+  externalCorrection: number
+): NoiseSpectrum {
+  const bands: NoiseSpectrumBand[] = getSpectrumBands(bandType).map(({ frequency, aWeighting }) => {
+    const Lpi = internalLevel(frequency);
+    const TL = transmissionLoss(frequency);
+    const Lpe = Lpi + TL + externalCorrection;
+    return { frequency, Lpi, TL, Lpe, aWeighting, LpeA: Lpe + aWeighting };
+  });
+
+  return {
+    bandType,
+    bands,
+    totalLpe: sumSoundLevels(bands.map(b => b.Lpe)),
+    totalLpeA: sumSoundLevels(bands.map(b => b.LpeA))
+  };
+}
+
+/**
+ * 按总噪音级校准频谱
+ * 各频带 Lpe 统一平移, 使 A 计权合计等于给定总噪音级; 频谱形状与各频带 Lpi、TL 不变,
+ * 平移量计入外部修正 (Lpe - Lpi - TL)
+ * @param spectrum 频谱
+ * @param totalLpeA 总噪音级 dB(A)
+ */
+export function calibrateSpectrum(spectrum: NoiseSpectrum, totalLpeA: number): NoiseSpectrum {
+  const offset = totalLpeA - spectrum.totalLpeA;
+  const bands = spectrum.bands.map(band => ({ ...band, Lpe: band.Lpe + offset, LpeA: band.LpeA + offset }));
+
+  return {
+    bandType: spectrum.bandType,
+    bands,
+    totalLpe: spectrum.totalLpe + offset,
+    totalLpeA
+  };
+}
+
+/**
+ * 叠加多个噪音源的频谱 (频带相同)
+ * 频带 Lpi、Lpe 按能量叠加; TL 取合成后 Lpe 与 Lpi 之差扣除最后一个频谱的外部修正
+ */
+export function combineSpectra(spectra: NoiseSpectrum[]): NoiseSpectrum {
+  const last = spectra[spectra.length - 1];
+  const bands = last.bands.map((band, i) => {
+    const Lpi = sumSoundLevels(spectra.map(s => s.bands[i].Lpi));
+    const Lpe = sumSoundLevels(spectra.map(s => s.bands[i].Lpe));
+    const externalCorrection = band.Lpe - band.Lpi - band.TL;
+    return {
+      frequency: band.frequency,
+      Lpi,
+      TL: Lpe - Lpi - externalCorrection,
+      Lpe,
+      aWeighting: band.aWeighting,
+      LpeA: Lpe + band.aWeighting
+    };
+  });
+
+  return {
+    bandType: last.bandType,
+    bands,
+    totalLpe: sumSoundLevels(bands.map(b => b.Lpe)),
+    totalLpeA: sumSoundLevels(bands.map(b => b.LpeA))
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * 低噪音阀内件
+ * 多孔套筒 (射流直径取孔径) 与多级降压 (逐级计算后能量叠加), 气体/液体通用
+ *
+ * 多级降压级间压力:
+ *   气体: 各级压比相等  Pi+1/Pi = (P2/P1)^(1/n)
+ *   液体: 各级 σ 相等  (Pi+1 - Pv)/(Pi - Pv) = ((P2 - Pv)/(P1 - Pv))^(1/n)
+ * 各级通过全部流量, 流量系数 Kvi = Kv × √(ΔP×ρ1 / (ΔPi×ρi))
+ */
+
+import type { NoiseInput, NoiseResult, NoiseSpectrum, NoiseStage, NoiseTrim, NoiseTrimType } from './types.js';
+import { NOISE_CONSTANTS } from './constants.js';
+import { sumSoundLevels, combineSpectra } from './spectrum.js';
+import { calculateNoisePropagation } from './propagation.js';
+
+/**
+ * 获取声功率比
+ * @param trimType 阀内件类型
+ * @returns 声功率比
+ */
+export function getSoundPowerRatio(trimType: NoiseTrimType = 'standard'): number {
+  switch (trimType) {
+    case 'cage':
+      return NOISE_CONSTANTS.RW_CAGE;
+    case 'multistage':
+      return NOISE_CONSTANTS.RW_MULTISTAGE;
+    default:
+      return NOISE_CONSTANTS.RW_STANDARD;
+  }
+}
+
+/**
+ * 射流直径 Dj
+ * 给定孔径时取孔径, 否则 Dj = N14 × Fd × √(Kv × FL)
+ * @returns 射流直径 m
+ */
+export function calcJetDiameter(Fd: number, Kv: number, FL: number, trim?: NoiseTrim): number {
+  if (trim?.holeDiameter !== undefined) {
+    if (trim.holeDiameter <= 0) {
+      throw new Error('Trim hole diameter must be positive');
+    }
+    return trim.holeDiameter / 1000;
+  }
+  return NOISE_CONSTANTS.N14 * Fd * Math.sqrt(Kv * FL);
+}
+
+/**
+ * 降压级数
+ * 给定级间压力时为压力个数 + 1; 非多级阀内件为 1
+ */
+export function resolveTrimStages(trim?: NoiseTrim): number {
+  if (!trim) return 1;
+  if (trim.stagePressures) return trim.stagePressures.length + 1;
+  if (trim.type !== 'multistage') return 1;
+
+  const stages = trim.stages ?? NOISE_CONSTANTS.DEFAULT_TRIM_STAGES;
+  if (!Number.isInteger(stages) || stages < 1) {
+    throw new Error('Trim stages must be a positive integer');
+  }
+  return stages;
+}
+
+/**
+ * 各级进出口压力
+ * @param P1 入口压力 KPa(A)
+ * @param P2 出口压力 KPa(A)
+ * @param stages 级数
+ * @param floorPressure 等比分配的基准压力 KPa (气体 0, 液体 Pv)
+ * @param stagePressures 给定级间压力 KPa(A)
+ * @returns 各级边界压力 [P1, ..., P2], 共 stages + 1 个
+ */
+export function calcStagePressures(
+  P1: number,
+  P2: number,
+  stages: number,
+  floorPressure: number = 0,
+  stagePressures?: number[]
+): number[] {
+  if (P2 <= floorPressure || P1 <= P2) {
+    throw new Error('Staged pressure reduction requires P1 > P2 > floor pressure');
+  }
+
+  if (stagePressures) {
+    const pressures = [P1, ...stagePressures, P2];
+    for (let i = 1; i < pressures.length; i++) {
+      if (!(pressures[i] < pressures[i - 1])) {
+        throw new Error('Interstage pressures must decrease strictly between P1 and P2');
+      }
+    }
+    return pressures;
+  }
+
+  const ratio = Math.pow((P2 - floorPressure) / (P1 - floorPressure), 1 / stages);
+  const pressures = [P1];
+  for (let i = 1; i < stages; i++) {
+    pressures.push(floorPressure + (P1 - floorPressure) * Math.pow(ratio, i));
+  }
+  pressures.push(P2);
+  return pressures;
+}
+
+/**
+ * 多级降压噪音
+ * 逐级按单级方法计算 (声功率比取多级降压值), 各级噪音能量叠加
+ * 中间计算值、峰值频率和流动状态取贡献最大的一级
+ * @param input 噪音计算输入参数 (trim.type 为 multistage 或给定级间压力)
+ * @param calculate 单级噪音计算函数
+ * @param floorPressure 级间压力分配基准 KPa (气体 0, 液体 Pv)
+ */
+export function calculateStagedNoise(
+  input: NoiseInput,
+  calculate: (stageInput: NoiseInput) => NoiseResult,
+  floorPressure: number = 0
+): NoiseResult {
+  const { P1, P2, density: rho1, Kv } = input;
+  const isLiquid = input.fluidType === 'Liquid';
+  const stages = resolveTrimStages(input.trim);
+  const pressures = calcStagePressures(P1, P2, stages, floorPressure, input.trim?.stagePressures);
+
+  const results: NoiseResult[] = [];
+  const stageInfo: NoiseStage[] = [];
+  for (let i = 0; i < stages; i++) {
+    const Pin = pressures[i];
+    const Pout = pressures[i + 1];
+    // 气体按等温过程取级入口密度
+    const rhoIn = isLiquid ? rho1 : rho1 * Pin / P1;
+    const stageKv = Kv * Math.sqrt((P1 - P2) * rho1 / ((Pin - Pout) * rhoIn));
+
+    const result = calculate({
+      ...input,
+      P1: Pin,
+      P2: Pout,
+      deltaP: Pin - Pout,
+      density: rhoIn,
+      density2: i === stages - 1 ? input.density2 : undefined,
+      Kv: stageKv,
+      Cv: input.Cv * stageKv / Kv,
+      xF: undefined,
+      xFz: undefined,
+      trim: { type: 'multistage', holeDiameter: input.trim?.holeDiameter, stages: 1 },
+      distance: undefined,
+      insulation: undefined
+    });
+
+    results.push(result);
+    stageInfo.push({
+      stage: i + 1,
+      P1: Pin,
+      P2: Pout,
+      Kv: stageKv,
+      flowState: result.flowState,
+      noiseLevel: result.noiseLevel,
+      peakFrequency: result.peakFrequency
+    });
+  }
+
+  const dominant = results.reduce((max, r) => (r.noiseLevel > max.noiseLevel ? r : max), results[0]);
+  const noiseLevel = Math.max(
+    NOISE_CONSTANTS.MIN_NOISE,
+    Math.min(NOISE_CONSTANTS.MAX_NOISE, sumSoundLevels(results.map(r => r.noiseLevel)))
+  );
+
+  const spectra = results.map(r => r.spectrum).filter((s): s is NoiseSpectrum => s !== undefined);
+  const spectrum = spectra.length === results.length ? combineSpectra(spectra) : undefined;
+
+  const propagation = spectrum && (input.distance !== undefined || input.insulation)
+    ? calculateNoisePropagation(noiseLevel, spectrum, input.Di + 2 * input.tp, input.distance, input.insulation)
+    : undefined;
+
+  const warnings = results.flatMap((r, i) => (r.warnings ?? []).map(w => `Stage ${i + 1}: ${w}`));
+  if (noiseLevel > 85) {
+    warnings.push(`Noise level ${noiseLevel.toFixed(1)} dBA exceeds 85dBA, noise reduction measures needed`);
+  }
+
+  return {
+    ...dominant,
+    noiseLevel: Math.round(noiseLevel * 10) / 10,
+    spectrum,
+    propagation,
+    stages: stageInfo,
+    warnings: warnings.length > 0 ? warnings : undefined
+  };
+}
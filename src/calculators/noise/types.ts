@@ -19,7 +19,60 @@ export type CavitationState =
   | 'Flashing';
 
 // Pipe Material
-export type PipeMaterial = 'steel' | 'stainless';
+export type PipeMaterial = 'steel' | 'stainless' | 'duplex' | 'copper-nickel' | 'aluminium' | 'grp';
+
+/**
+ * Pipe Material Properties
+ */
+export interface PipeMaterialProperties {
+  name: string;            // Display name
+  density: number;         // Wall density kg/m³
+  soundSpeed: number;      // Longitudinal sound speed in the wall m/s
+}
+
+// Spectrum Band Type
+export type SpectrumBandType = 'octave' | 'third-octave';
+
+// Valve Trim Type (acoustic power ratio, staging)
+export type NoiseTrimType = 'standard' | 'cage' | 'multistage';
+
+/**
+ * Valve Trim Geometry (IEC 60534-8-3 multi-hole / multistage trims)
+ */
+export interface NoiseTrim {
+  type: NoiseTrimType;
+  stages?: number;         // Pressure-reduction stages (multistage, default 3)
+  holeDiameter?: number;   // Flow passage hole diameter mm (jet diameter, overrides N14×Fd×√(Kv×FL))
+  stagePressures?: number[]; // Interstage pressures KPa(A), inlet to outlet (overrides stages and the distribution)
+}
+
+/**
+ * Outlet Expander (valve outlet to a larger downstream pipe, gas)
+ */
+export interface OutletExpander {
+  inletDiameter?: number;  // Expander inlet (valve outlet) diameter mm (default dValve, then d)
+}
+
+/**
+ * Inline Silencer / Diffuser downstream of the valve (gas)
+ */
+export interface InlineSilencer {
+  attenuation: Record<number, number>; // Insertion loss per frequency Hz → dB (log-frequency interpolation)
+  selfNoise?: number;      // Regenerated flow noise at 1m dBA (manufacturer data)
+}
+
+// Insulation Jacket Material
+export type InsulationJacket = 'aluminium' | 'stainless' | 'steel' | 'mass-loaded';
+
+/**
+ * Acoustic Pipe Insulation (porous layer with an impervious jacket)
+ */
+export interface PipeInsulation {
+  thickness: number;       // Porous layer thickness mm
+  jacket?: InsulationJacket; // Jacket material class (default aluminium)
+  jacketMass?: number;     // Jacket surface density kg/m² (overrides jacket)
+  attenuation?: Record<number, number>; // Measured insertion loss per band centre Hz → dB (overrides the model)
+}
 
 /**
  * Noise Calculation Input Parameters
@@ -65,6 +118,20 @@ export interface NoiseInput {
   // Valve diameter
   d: number;               // Seat diameter mm
   dValve?: number;         // Valve body/nominal diameter mm (for reduced trim, defaults to d)
+
+  // Valve trim
+  trim?: NoiseTrim;        // Trim type and geometry (default standard)
+
+  // Outlet devices (gas)
+  expander?: OutletExpander; // Outlet expander noise
+  silencer?: InlineSilencer; // Inline silencer / diffuser
+
+  // Spectrum
+  spectrumBands?: SpectrumBandType; // Band type of the spectrum (default octave)
+
+  // Propagation
+  distance?: number;       // Observer distance from the pipe surface m (default 1)
+  insulation?: PipeInsulation; // Acoustic insulation on the downstream pipe
 }
 
 /**
@@ -144,6 +211,80 @@ export interface LiquidNoiseIntermediate {
   xFz: number;             // Cavitation inception pressure ratio
 }
 
+/**
+ * Noise Spectrum Band
+ */
+export interface NoiseSpectrumBand {
+  frequency: number;       // Nominal band centre frequency Hz
+  Lpi: number;             // Internal sound pressure level dB
+  TL: number;              // Transmission loss dB
+  Lpe: number;             // External sound pressure level at 1m dB
+  aWeighting: number;      // A-weighting correction dB
+  LpeA: number;            // External A-weighted sound pressure level at 1m dB(A)
+}
+
+/**
+ * Noise Spectrum (IEC 60534-8-3 / 8-4 frequency distribution)
+ */
+export interface NoiseSpectrum {
+  bandType: SpectrumBandType;
+  bands: NoiseSpectrumBand[];
+  totalLpe: number;        // Energy sum of band Lpe dB
+  totalLpeA: number;       // Energy sum of band LpeA dB(A)
+}
+
+/**
+ * Noise at the Observer Position
+ */
+export interface NoisePropagation {
+  distance: number;        // Distance from the pipe surface m
+  distanceCorrection: number; // Level reduction from 1m to distance dB
+  insulationLoss: number;  // Overall A-weighted insulation insertion loss dB
+  noiseLevel: number;      // Noise level at distance with insulation dBA
+  bands: {
+    frequency: number;     // Band centre frequency Hz
+    insulationLoss: number; // Insertion loss dB
+    LpeA: number;          // A-weighted level at distance dB(A)
+  }[];
+}
+
+/**
+ * Outlet Expander Noise
+ */
+export interface ExpanderNoise {
+  inletDiameter: number;   // Expander inlet diameter mm
+  Mach: number;            // Mach number at the expander inlet
+  velocity: number;        // Velocity at the expander inlet m/s
+  eta: number;             // Acoustic efficiency
+  Wm: number;              // Stream power W
+  Wa: number;              // Acoustic power W
+  Lpi: number;             // Internal sound pressure level dB
+  fp: number;              // Peak frequency Hz
+  noiseLevel: number;      // Expander noise at 1m dBA (before the silencer)
+}
+
+/**
+ * Inline Silencer Effect
+ */
+export interface SilencerEffect {
+  insertionLoss: number;   // Overall A-weighted insertion loss dB
+  selfNoise?: number;      // Regenerated flow noise at 1m dBA
+  unsilencedLevel: number; // Valve and expander noise without the silencer dBA
+}
+
+/**
+ * Noise of One Pressure-reduction Stage
+ */
+export interface NoiseStage {
+  stage: number;           // Stage number, 1 = inlet
+  P1: number;              // Stage inlet pressure KPa(A)
+  P2: number;              // Stage outlet pressure KPa(A)
+  Kv: number;              // Stage flow coefficient passing the full flow
+  flowState: string;       // Stage flow state description
+  noiseLevel: number;      // Stage noise level at 1m dBA
+  peakFrequency: number;   // Hz
+}
+
 /**
  * Noise Calculation Result
  */
@@ -161,6 +302,19 @@ export interface NoiseResult {
   // Peak frequency
   peakFrequency: number;   // Hz
 
+  // Frequency spectrum (63 Hz - 16 kHz)
+  spectrum?: NoiseSpectrum;
+
+  // Noise at the observer distance / with insulation (when given)
+  propagation?: NoisePropagation;
+
+  // Stage contributions (multistage trim)
+  stages?: NoiseStage[];
+
+  // Outlet devices (gas, when given)
+  expander?: ExpanderNoise;
+  silencer?: SilencerEffect;
+
   // Warning messages
   warnings?: string[];
 }
@@ -74,7 +74,7 @@ export function calcSteamKvChokedWithFitting(
 
 /**
  * Steam Kv calculation - Laminar flow
- * C = W / (N18×FR) × √(T1/(ΔP×(P1+P2)×M))
+ * C = W / (N27×FR) × √(T1/(ΔP×(P1+P2)×M))
  * Steam molecular weight M = 18.0152
  */
 export function calcSteamKvLaminar(
@@ -86,7 +86,7 @@ export function calcSteamKvLaminar(
   P2: number
 ): number {
   const M = 18.0152; // Water vapor molecular weight
-  return W / (CONSTANTS.N18 * FR) * Math.sqrt(T1 / (deltaP * (P1 + P2) * M));
+  return W / (CONSTANTS.N27 * FR) * Math.sqrt(T1 / (deltaP * (P1 + P2) * M));
 }
 
 /**
@@ -105,6 +105,7 @@ export interface SteamKvParams {
   D2: number;             // Downstream pipe inner diameter mm
   ratedKv: number;        // Rated Kv
   FR?: number;            // Reynolds number correction factor
+  Ci?: number;            // Assumed flow coefficient (default 1.3 × ratedKv)
 }
 
 /**
@@ -135,7 +136,7 @@ export interface SteamKvResult {
  * Steam Kv comprehensive calculation
  */
 export function calculateSteamKv(params: SteamKvParams): SteamKvResult {
-  const { W, P1, P2, T1, rho1, gamma, xT, d, D1, D2, ratedKv, FR = 1 } = params;
+  const { W, P1, P2, T1, rho1, gamma, xT, d, D1, D2, ratedKv, FR = 1, Ci = ratedKv * 1.3 } = params;
 
   // Basic calculations
   const deltaP = P1 - P2;
@@ -145,7 +146,6 @@ export function calculateSteamKv(params: SteamKvParams): SteamKvResult {
 
   // Piping coefficient calculations
   const sumK = calcSumK(d, D1, D2);
-  const Ci = ratedKv * 1.3;
   const FP = calcFP(sumK, Ci, d);
 
   // Calculate K1 + KB1
@@ -0,0 +1,185 @@
+/**
+ * Two-phase Kv Calculation Module
+ * Liquid+Gas and Liquid+Steam mixtures, sized on a single mixture density
+ * with the IEC 60534-2-1 liquid/gas choked-flow limits applied per phase
+ */
+
+import { CONSTANTS } from '../constants/index.js';
+import type { FlowState, TwoPhaseMethod } from '../types/index.js';
+import { calcFF, calcFP, calcFLP, calcSumK } from './liquid.js';
+import { calcFgamma, calcX, calcY } from './gas.js';
+
+/**
+ * Calculate mixture quality (gas/vapor mass fraction)
+ * x = Wg / (Wf + Wg)
+ *
+ * @param Wf Liquid mass flow rate Kg/h
+ * @param Wg Gas/vapor mass flow rate Kg/h
+ */
+export function calcMixtureQuality(Wf: number, Wg: number): number {
+  const W = Wf + Wg;
+  return W > 0 ? Wg / W : 0;
+}
+
+/**
+ * Calculate homogeneous mixture density
+ * ρh = 1 / (x/ρg + (1-x)/ρf)
+ *
+ * @param quality Gas/vapor mass fraction
+ * @param rhoF Liquid density Kg/m³
+ * @param rhoG Gas/vapor inlet density Kg/m³
+ */
+export function calcHomogeneousDensity(quality: number, rhoF: number, rhoG: number): number {
+  return 1 / (quality / rhoG + (1 - quality) / rhoF);
+}
+
+/**
+ * Calculate effective mixture density (gas phase corrected by expansion factor)
+ * ρe = 1 / (x/(ρg×Y²) + (1-x)/ρf)
+ *
+ * @param quality Gas/vapor mass fraction
+ * @param rhoF Liquid density Kg/m³
+ * @param rhoG Gas/vapor inlet density Kg/m³
+ * @param Y Gas phase expansion factor
+ */
+export function calcEffectiveDensity(
+  quality: number,
+  rhoF: number,
+  rhoG: number,
+  Y: number
+): number {
+  return 1 / (quality / (rhoG * Y * Y) + (1 - quality) / rhoF);
+}
+
+/**
+ * Two-phase Kv calculation
+ * C = W / (N6×FP×√(ΔPs×ρe))
+ *
+ * @param W Total mass flow rate Kg/h
+ * @param FP Piping geometry factor
+ * @param deltaPs Sizing pressure differential KPa
+ * @param rhoE Mixture density Kg/m³
+ */
+export function calcTwoPhaseKv(W: number, FP: number, deltaPs: number, rhoE: number): number {
+  return W / (CONSTANTS.N6 * FP * Math.sqrt(deltaPs * rhoE));
+}
+
+/**
+ * Two-phase Kv calculation parameters
+ */
+export interface TwoPhaseKvParams {
+  Wf: number;             // Liquid mass flow rate Kg/h
+  Wg: number;             // Gas/vapor mass flow rate Kg/h
+  P1: number;             // Inlet absolute pressure KPa
+  P2: number;             // Outlet absolute pressure KPa
+  rhoF: number;           // Liquid density Kg/m³
+  rhoG: number;           // Gas/vapor inlet density Kg/m³
+  Pv: number;             // Liquid vapor pressure KPa
+  Pc: number;             // Liquid critical pressure MPa
+  FL: number;             // Pressure recovery factor
+  gamma: number;          // Gas/vapor specific heat ratio
+  xT: number;             // Pressure differential ratio factor
+  d: number;              // Valve nominal diameter mm
+  D1: number;             // Upstream pipe inner diameter mm
+  D2: number;             // Downstream pipe inner diameter mm
+  ratedKv: number;        // Rated Kv
+  method?: TwoPhaseMethod; // Sizing method
+  Ci?: number;            // Assumed flow coefficient (default 1.3 × ratedKv)
+}
+
+/**
+ * Two-phase Kv calculation result
+ */
+export interface TwoPhaseKvResult {
+  kv: number;
+  flowState: FlowState;
+  hasFittings: boolean;
+  usedFormula: string;
+  method: TwoPhaseMethod;
+  intermediate: {
+    deltaP: number;
+    deltaPSizing: number;       // Pressure differential used for sizing KPa
+    deltaPChokedLiquid: number; // Liquid phase choked pressure differential KPa
+    deltaPChokedGas: number;    // Gas phase choked pressure differential KPa
+    quality: number;
+    rhoE: number;
+    x: number;
+    Fgamma: number;
+    Y: number;
+    FF: number;
+    sumK: number;
+    FP: number;
+    FLP: number;
+  };
+}
+
+/**
+ * Two-phase Kv comprehensive calculation
+ *
+ * Effective Density: gas phase density is reduced by Y² (IEC gas expansion),
+ * Homogeneous: both phases are treated as incompressible at inlet density.
+ * The sizing ΔP is limited by whichever phase chokes first.
+ */
+export function calculateTwoPhaseKv(params: TwoPhaseKvParams): TwoPhaseKvResult {
+  const {
+    Wf, Wg, P1, P2, rhoF, rhoG, Pv, Pc, FL, gamma, xT, d, D1, D2, ratedKv,
+    method = 'Effective Density', Ci = ratedKv * 1.3
+  } = params;
+
+  // Basic calculations
+  const deltaP = P1 - P2;
+  const W = Wf + Wg;
+  const quality = calcMixtureQuality(Wf, Wg);
+  const FF = calcFF(Pv, Pc);
+  const Fgamma = calcFgamma(gamma);
+
+  // Fitting coefficient calculations
+  const hasFittings = d !== D1 || d !== D2;
+  const sumK = calcSumK(d, D1, D2);
+  const FP = calcFP(sumK, Ci, d);
+  const FLP = calcFLP(FL, sumK, Ci, d);
+
+  // Choked pressure differentials of each phase
+  const FLeff = hasFittings ? FLP / FP : FL;
+  const deltaPChokedLiquid = FLeff * FLeff * (P1 - FF * Pv);
+  const deltaPChokedGas = Fgamma * xT * P1;
+  const deltaPChoked = quality > 0 ? Math.min(deltaPChokedLiquid, deltaPChokedGas) : deltaPChokedLiquid;
+
+  const flowState: FlowState = deltaP < deltaPChoked ? 'Non-choked' : 'Choked';
+  const deltaPSizing = Math.min(deltaP, deltaPChoked);
+
+  // Gas phase expansion at the sizing pressure ratio
+  const x = calcX(deltaPSizing, P1);
+  const Y = method === 'Effective Density' ? calcY(x, Fgamma, xT) : 1;
+
+  const rhoE = method === 'Effective Density'
+    ? calcEffectiveDensity(quality, rhoF, rhoG, Y)
+    : calcHomogeneousDensity(quality, rhoF, rhoG);
+
+  const kv = calcTwoPhaseKv(W, hasFittings ? FP : 1, deltaPSizing, rhoE);
+
+  const usedFormula = `Two-phase ${method.toLowerCase()} ${flowState === 'Choked' ? 'choked' : 'non-choked'} flow ${hasFittings ? 'with' : 'without'} fittings`;
+
+  return {
+    kv,
+    flowState,
+    hasFittings,
+    usedFormula,
+    method,
+    intermediate: {
+      deltaP,
+      deltaPSizing,
+      deltaPChokedLiquid,
+      deltaPChokedGas,
+      quality,
+      rhoE,
+      x,
+      Fgamma,
+      Y,
+      FF,
+      sumK,
+      FP,
+      FLP
+    }
+  };
+}
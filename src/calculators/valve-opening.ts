@@ -2,7 +2,9 @@
  * Valve Opening Calculation Module
  */
 
-import type { FlowCharacteristic } from '../types/index.js';
+import { CONSTANTS } from '../constants/index.js';
+import type { FlowCharacteristic, CharacteristicPoint } from '../types/index.js';
+import { calcTabulatedKvPercent, calcTabulatedTravel } from './characteristic-table.js';
 
 /**
  * Calculate equal percentage opening
@@ -36,26 +38,41 @@ export function calcLinearOpening(m: number, R: number): number {
  * @param R Inherent rangeability
  */
 export function calcQuickOpeningOpening(m: number, R: number): number {
-  if (m <= 1 || R <= 1) return NaN;
+  if (m < 1 || R <= 1) return NaN;
   const innerTerm = R * (m - 1) / ((R - 1) * m);
   if (innerTerm < 0) return NaN;
   return (1 - Math.sqrt(innerTerm)) * 100;
 }
 
+/**
+ * Get the characteristic table required by the Tabulated characteristic
+ */
+function requireTable(table?: CharacteristicPoint[]): CharacteristicPoint[] {
+  if (!table) {
+    throw new Error('Tabulated flow characteristic requires a characteristic table');
+  }
+  return table;
+}
+
 /**
  * Calculate valve opening
  *
  * @param calculatedKv Calculated Kv
  * @param ratedKv Rated Kv
- * @param rangeability Inherent rangeability R
+ * @param rangeability Inherent rangeability R (not used by Tabulated)
  * @param flowChar Flow characteristic
+ * @param table Kv%-vs-travel% table (Tabulated only)
  */
 export function calcValveOpening(
   calculatedKv: number,
   ratedKv: number,
   rangeability: number,
-  flowChar: FlowCharacteristic
+  flowChar: FlowCharacteristic,
+  table?: CharacteristicPoint[]
 ): number {
+  // Zero flow: valve closed
+  if (calculatedKv === 0) return 0;
+
   const m = ratedKv / calculatedKv;
 
   switch (flowChar) {
@@ -65,14 +82,142 @@ export function calcValveOpening(
       return calcLinearOpening(m, rangeability);
     case 'Quick Opening':
       return calcQuickOpeningOpening(m, rangeability);
+    case 'Tabulated':
+      return calcTabulatedTravel(100 / m, requireTable(table));
+    default:
+      throw new Error(`Unsupported flow characteristic: ${flowChar}`);
+  }
+}
+
+/**
+ * Equal percentage relative Kv at opening
+ * Kv/Kv100 = R^(h - 1)
+ *
+ * @param h Relative opening (0 - 1)
+ * @param R Inherent rangeability
+ */
+export function calcEqualPercentageKvRatio(h: number, R: number): number {
+  if (R <= 1) return NaN;
+  return Math.pow(R, h - 1);
+}
+
+/**
+ * Linear relative Kv at opening
+ * Kv/Kv100 = (1 + (R - 1) × h) / R
+ *
+ * @param h Relative opening (0 - 1)
+ * @param R Inherent rangeability
+ */
+export function calcLinearKvRatio(h: number, R: number): number {
+  if (R <= 1) return NaN;
+  return (1 + (R - 1) * h) / R;
+}
+
+/**
+ * Quick opening relative Kv at opening
+ * Kv/Kv100 = 1 - (1 - h)² × (R - 1) / R
+ *
+ * @param h Relative opening (0 - 1)
+ * @param R Inherent rangeability
+ */
+export function calcQuickOpeningKvRatio(h: number, R: number): number {
+  if (R <= 1) return NaN;
+  return 1 - Math.pow(1 - h, 2) * (R - 1) / R;
+}
+
+/**
+ * Calculate relative Kv (Kv/Kv100) at a valve opening for any characteristic
+ * The ideal curves start at 1/R just above 0%, the smallest controllable Kv;
+ * a closed valve (opening ≤ 0%) passes no flow. Openings above 100% are
+ * held at full opening.
+ *
+ * @param opening Valve opening %
+ * @param rangeability Inherent rangeability R (not used by Tabulated)
+ * @param flowChar Flow characteristic
+ * @param table Kv%-vs-travel% table (Tabulated only)
+ */
+export function calcKvRatioAtOpening(
+  opening: number,
+  rangeability: number,
+  flowChar: FlowCharacteristic,
+  table?: CharacteristicPoint[]
+): number {
+  if (opening <= 0) return 0;
+  const h = Math.min(opening, 100) / 100;
+
+  switch (flowChar) {
+    case 'Equal Percentage':
+      return calcEqualPercentageKvRatio(h, rangeability);
+    case 'Linear':
+      return calcLinearKvRatio(h, rangeability);
+    case 'Quick Opening':
+      return calcQuickOpeningKvRatio(h, rangeability);
+    case 'Tabulated':
+      return calcTabulatedKvPercent(h * 100, requireTable(table)) / 100;
     default:
       throw new Error(`Unsupported flow characteristic: ${flowChar}`);
   }
 }
 
+/**
+ * Calculate Kv at a given valve opening (inverse of calcValveOpening)
+ * A closed valve (opening ≤ 0%) passes no flow.
+ *
+ * @param opening Valve opening %
+ * @param ratedKv Rated Kv
+ * @param rangeability Inherent rangeability R (not used by Tabulated)
+ * @param flowChar Flow characteristic
+ * @param table Kv%-vs-travel% table (Tabulated only)
+ */
+export function calcKvAtOpening(
+  opening: number,
+  ratedKv: number,
+  rangeability: number,
+  flowChar: FlowCharacteristic,
+  table?: CharacteristicPoint[]
+): number {
+  return ratedKv * calcKvRatioAtOpening(opening, rangeability, flowChar, table);
+}
+
+/**
+ * Characteristic curve point
+ */
+export interface CharacteristicCurvePoint {
+  opening: number;          // Valve opening %
+  kvRatio: number;          // Kv / Kv100
+  Kv: number;               // Kv at opening
+}
+
+/**
+ * Generate the inherent characteristic curve over 0-100% opening
+ *
+ * @param ratedKv Rated Kv
+ * @param rangeability Inherent rangeability R (not used by Tabulated)
+ * @param flowChar Flow characteristic
+ * @param table Kv%-vs-travel% table (Tabulated only)
+ * @param steps Opening increments (default 20, i.e. every 5%)
+ */
+export function generateCharacteristicCurve(
+  ratedKv: number,
+  rangeability: number,
+  flowChar: FlowCharacteristic,
+  table?: CharacteristicPoint[],
+  steps: number = 20
+): CharacteristicCurvePoint[] {
+  if (steps < 1) {
+    throw new Error('At least 1 opening step is required');
+  }
+
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const opening = i * 100 / steps;
+    const kvRatio = calcKvRatioAtOpening(opening, rangeability, flowChar, table);
+    return { opening, kvRatio, Kv: ratedKv * kvRatio };
+  });
+}
+
 /**
  * Validate if opening is within reasonable range
- * Typically opening should be between 10% - 90%
+ * Typically opening should be between MIN_OPENING and MAX_OPENING (10% - 90%)
  */
 export function validateOpening(opening: number): {
   valid: boolean;
@@ -90,12 +235,14 @@ export function validateOpening(opening: number): {
     return { valid: false, warning: 'Opening exceeds 100%, valve undersized' };
   }
 
-  if (opening < 10) {
-    return { valid: true, warning: 'Opening less than 10%, consider selecting a smaller valve' };
+  const { MIN_OPENING, MAX_OPENING } = CONSTANTS.THRESHOLD;
+
+  if (opening < MIN_OPENING) {
+    return { valid: true, warning: `Opening less than ${MIN_OPENING}%, consider selecting a smaller valve` };
   }
 
-  if (opening > 90) {
-    return { valid: true, warning: 'Opening greater than 90%, consider selecting a larger valve' };
+  if (opening > MAX_OPENING) {
+    return { valid: true, warning: `Opening greater than ${MAX_OPENING}%, consider selecting a larger valve` };
   }
 
   return { valid: true };
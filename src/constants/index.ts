@@ -58,15 +58,17 @@ export const CONSTANTS = {
    */
   N18: 17.3,
 
-  // ===== Antoine Equation Constants (Water) =====
-  // log10(Pv) = A - B/(C + T)
-  // Pv: Saturation vapor pressure (KPa)
-  // T: Temperature (℃)
-  ANTOINE: {
-    A: 7.07406,
-    B: 1657.46,
-    C: 227.02
-  },
+  /**
+   * N27: Laminar mass flow Kv calculation constant
+   * Used in: C = W/(N27*FR) * sqrt(T1/(ΔP*(P1+P2)*M))
+   */
+  N27: 0.775,
+
+  /**
+   * N34: Incipient cavitation constant (Kv)
+   * Used in: xFz = 0.9/sqrt(1 + 3*Fd*sqrt(C/(N34*FL))) (IEC 60534-8-4)
+   */
+  N34: 1.17,
 
   // ===== Reference Values =====
   /** Water standard density kg/m³ */
@@ -94,6 +96,10 @@ export const CONSTANTS = {
     RANGEABILITY: 50,
     /** Default viscosity cP */
     VISCOSITY: 1,
+    /** Default gas viscosity cP (air, 20℃) */
+    GAS_VISCOSITY: 0.018,
+    /** Default steam viscosity cP (saturated steam, ~1 MPa) */
+    STEAM_VISCOSITY: 0.015,
     /** Default Fd value */
     FD: 0.42
   },
@@ -103,7 +109,49 @@ export const CONSTANTS = {
     /** Turbulent flow threshold */
     TURBULENT_RE: 10000,
     /** Error tolerance (0.1%) */
-    TOLERANCE: 0.001
+    TOLERANCE: 0.001,
+    /** Allowed deviation of supplied steam density from IAPWS-IF97 (5%) */
+    DENSITY_DEVIATION: 0.05,
+    /** Inlet pressure above which ideal gas Z = 1 is flagged KPa */
+    IDEAL_GAS_PRESSURE: 1000,
+    /** Lower bound of the recommended opening band % */
+    MIN_OPENING: 10,
+    /** Upper bound of the recommended opening band % */
+    MAX_OPENING: 90
+  },
+
+  // ===== Valve Selection =====
+  SELECTION: {
+    /** Preferred opening at normal flow % */
+    TARGET_OPENING: 65,
+    /** External noise limit dB(A) */
+    NOISE_LIMIT: 85,
+    /** Outlet velocity limit for liquids m/s */
+    LIQUID_VELOCITY: 10,
+    /** Outlet velocity limit for gas, steam and two-phase m/s (≈ Mach 0.3) */
+    GAS_VELOCITY: 100
+  },
+
+  // ===== Actuator Sizing =====
+  ACTUATOR: {
+    /** Safety factor on the valve load */
+    SAFETY_FACTOR: 1.25,
+    /** Seat load per mm of seat circumference N/mm (leakage class IV) */
+    SEAT_LOAD: 7.1,
+    /** Shaft bearing friction coefficient (rotary valves) */
+    BEARING_FRICTION: 0.15,
+    /** Seat friction coefficient of the disc/ball at the seat radius (rotary valves, PTFE seat) */
+    SEAT_FRICTION: 0.1
+  },
+
+  // ===== Cavitation Assessment =====
+  CAVITATION: {
+    /** Constant cavitation onset Kc = factor × FL² (no manufacturer data) */
+    CONSTANT_FACTOR: 0.8,
+    /** Reference inlet pressure of the xFz correction KPa (6×10⁵ Pa) */
+    REFERENCE_PRESSURE: 600,
+    /** Upper limit of pressure-reduction stages */
+    MAX_STAGES: 6
   }
 };
 
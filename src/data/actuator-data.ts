@@ -9,6 +9,21 @@ export interface ActuatorSpec {
   torque04: number | null; // 0.4MPa扭矩 Nm
   torque05: number | null; // 0.5MPa扭矩 Nm
   handwheel?: string;      // 手轮型号
+  // 单作用弹簧/气动行程扭矩 (有厂家数据时给出)
+  springStart?: number;    // 弹簧行程起点扭矩 Nm (弹簧压缩)
+  springEnd?: number;      // 弹簧行程终点扭矩 Nm (弹簧释放)
+  airTorquePerMPa?: number; // 活塞气动扭矩系数 Nm/MPa (不计弹簧)
+}
+
+/**
+ * 给定气源压力下的输出扭矩 Nm
+ * 双作用只有气动行程, 弹簧扭矩不给出
+ */
+export interface ActuatorTorques {
+  airStart: number;        // 气动行程起点扭矩
+  airEnd: number;          // 气动行程终点扭矩
+  springStart?: number;    // 弹簧行程起点扭矩
+  springEnd?: number;      // 弹簧行程终点扭矩
 }
 
 export interface ActuatorType {
@@ -184,10 +199,77 @@ export function getActuatorSpec(brand: string, type: string, model: string): Act
 }
 
 /**
- * 判断型号是单作用还是双作用
+ * 型号所在列表的作用方式 (单作用/双作用列表)
+ * @returns 品牌/类型/型号不存在时返回 null
+ */
+export function getActuatorAction(brand: string, type: string, model: string): 'single' | 'double' | null {
+  const typeData = actuatorBrandData.find(b => b.brand === brand)?.types.find(t => t.type === type);
+  if (!typeData) return null;
+  if (typeData.singleAction.some(s => s.model === model)) return 'single';
+  if (typeData.doubleAction.some(s => s.model === model)) return 'double';
+  return null;
+}
+
+/**
+ * 按型号命名 (SR/DA) 推测单作用还是双作用
+ * 导入目录不一定遵循该命名, 作用方式以所在列表为准 (getActuatorAction), 此处仅用于导入校验提示
  */
 export function getActionMode(model: string): '单作用' | '双作用' | null {
   if (model.includes('SR') || model.includes('sr')) return '单作用';
   if (model.includes('DA') || model.includes('da')) return '双作用';
   return null;
 }
+
+/**
+ * 按 0.4/0.5MPa 额定扭矩线性插值 (双作用扭矩与气源压力成正比, 可外推)
+ * 只有一个额定值时按比例换算
+ */
+function interpolateRatedTorque(spec: ActuatorSpec, supplyPressure: number): number | null {
+  const { torque04, torque05 } = spec;
+  if (torque04 !== null && torque05 !== null) {
+    return torque04 + (torque05 - torque04) * (supplyPressure - 0.4) / 0.1;
+  }
+  if (torque05 !== null) return torque05 * supplyPressure / 0.5;
+  if (torque04 !== null) return torque04 * supplyPressure / 0.4;
+  return null;
+}
+
+/**
+ * 计算任意气源压力下的执行机构扭矩
+ * - 双作用: 额定扭矩线性插值/外推, 起点 = 终点
+ * - 单作用 (有弹簧数据): 气动起点 = k×P - 弹簧终点, 气动终点 = k×P - 弹簧起点
+ * - 单作用 (无弹簧数据): 额定扭矩视为两个方向的最小输出;
+ *   0.4~0.5MPa 之间插值, 高于 0.5MPa 取 0.5MPa 值 (受弹簧限制), 低于 0.4MPa 无数据
+ * @param spec 执行机构规格
+ * @param supplyPressure 气源压力 MPa(G)
+ * @param action 作用方式, 取型号所在列表 (getActuatorAction)
+ * @returns 无法输出扭矩时返回 null
+ */
+export function getActuatorTorques(spec: ActuatorSpec, supplyPressure: number, action: 'single' | 'double'): ActuatorTorques | null {
+  if (supplyPressure <= 0) return null;
+
+  if (action === 'double') {
+    const torque = interpolateRatedTorque(spec, supplyPressure);
+    return torque !== null ? { airStart: torque, airEnd: torque } : null;
+  }
+
+  if (spec.springStart !== undefined && spec.springEnd !== undefined && spec.airTorquePerMPa !== undefined) {
+    const air = spec.airTorquePerMPa * supplyPressure;
+    const airStart = air - spec.springEnd;
+    const airEnd = air - spec.springStart;
+    if (airStart <= 0 || airEnd <= 0) return null;
+    return { airStart, airEnd, springStart: spec.springStart, springEnd: spec.springEnd };
+  }
+
+  let rated: number | null;
+  if (supplyPressure >= 0.5) {
+    rated = spec.torque05;
+  } else if (supplyPressure >= 0.4) {
+    rated = spec.torque04 !== null && spec.torque05 !== null
+      ? interpolateRatedTorque(spec, supplyPressure)
+      : spec.torque04;
+  } else {
+    rated = null;
+  }
+  return rated !== null ? { airStart: rated, airEnd: rated, springStart: rated, springEnd: rated } : null;
+}
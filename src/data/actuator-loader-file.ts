@@ -0,0 +1,36 @@
+/**
+ * 执行机构目录文件读取 (仅 Node 环境)
+ * 依赖 fs, 不从主入口导出; Node 中经 'kv-calculator/node' 引入
+ */
+
+import * as fs from 'fs';
+import {
+  parseActuatorCatalogXml,
+  parseActuatorCatalogJson,
+  registerActuatorBrands
+} from './actuator-loader.js';
+import type { ActuatorCatalogLoadResult } from './actuator-loader.js';
+
+/**
+ * 读取目录文件 (按扩展名 .xml / .json 识别格式)
+ */
+export function loadActuatorCatalogFile(filePath: string): ActuatorCatalogLoadResult {
+  const content = fs.readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, '');
+  const extension = filePath.slice(filePath.lastIndexOf('.')).toLowerCase();
+  switch (extension) {
+    case '.xml':
+      return parseActuatorCatalogXml(content);
+    case '.json':
+      return parseActuatorCatalogJson(content);
+    default:
+      throw new Error(`Unsupported actuator catalog file: ${filePath}`);
+  }
+}
+
+/**
+ * 读取目录文件并并入 actuatorBrandData
+ */
+export function importActuatorCatalog(filePath: string): ActuatorCatalogLoadResult {
+  const result = loadActuatorCatalogFile(filePath);
+  return { ...result, errors: [...result.errors, ...registerActuatorBrands(result.brands)] };
+}
@@ -0,0 +1,244 @@
+/**
+ * 执行机构目录导入
+ * 从 XML / JSON 目录文件读取执行机构数据, 校验后并入 actuatorBrandData
+ *
+ * XML 格式 (字段可写成属性或同名子元素, 根元素可为 ActuatorCatalog 或单个 Brand):
+ *   <ActuatorCatalog>
+ *     <Brand name="华尔式">
+ *       <Type name="拨叉气缸">
+ *         <SingleAction>
+ *           <Actuator model="HG0-P180-SR2" airConnection='1/4"NPT' torque04="340" torque05="340"/>
+ *         </SingleAction>
+ *         <DoubleAction>...</DoubleAction>
+ *       </Type>
+ *     </Brand>
+ *   </ActuatorCatalog>
+ *
+ * JSON 格式: ActuatorBrand 或 ActuatorBrand[] (缺少的扭矩写 null)
+ *
+ * 本模块只处理字符串, 可在浏览器中使用; 读取文件见 actuator-loader-file.ts (仅 Node)
+ */
+
+import { parseXml } from '../utils/xml-parser.js';
+import type { XmlElement } from '../utils/xml-parser.js';
+import { actuatorBrandData, getActionMode } from './actuator-data.js';
+import type { ActuatorBrand, ActuatorSpec, ActuatorType } from './actuator-data.js';
+
+export interface ActuatorCatalogLoadResult {
+  brands: ActuatorBrand[];  // 校验通过的品牌数据
+  errors: string[];         // 被跳过的条目
+  warnings: string[];       // 已导入但需要注意的条目
+}
+
+type ActionSection = 'singleAction' | 'doubleAction';
+
+// 未经校验的型号记录
+interface RawActuator {
+  brand: string;
+  type: string;
+  section: ActionSection;
+  fields: Record<string, unknown>;
+}
+
+const NUMERIC_FIELDS = ['springStart', 'springEnd', 'airTorquePerMPa'] as const;
+
+/**
+ * 解析数值字段: 缺省/空/null 为 null, 非数值或负数报错
+ */
+function parseNumber(value: unknown, label: string): number | null {
+  if (value === undefined || value === null || value === '' || value === 'null') return null;
+  const num = typeof value === 'number' ? value : Number(String(value).trim());
+  if (!Number.isFinite(num) || num < 0) {
+    throw new Error(`${label}: invalid value "${value}"`);
+  }
+  return num;
+}
+
+/**
+ * 校验单个型号记录
+ */
+function buildSpec(raw: RawActuator, warnings: string[]): ActuatorSpec {
+  const { fields } = raw;
+  const model = String(fields.model ?? '').trim();
+  if (!model) {
+    throw new Error(`${raw.brand} ${raw.type}: actuator without model`);
+  }
+  const label = `${raw.brand} ${model}`;
+
+  const spec: ActuatorSpec = {
+    model,
+    airConnection: String(fields.airConnection ?? '').trim(),
+    torque04: parseNumber(fields.torque04, `${label} torque04`),
+    torque05: parseNumber(fields.torque05, `${label} torque05`)
+  };
+  if (fields.handwheel !== undefined && fields.handwheel !== null && fields.handwheel !== '') {
+    spec.handwheel = String(fields.handwheel);
+  }
+  for (const key of NUMERIC_FIELDS) {
+    const value = parseNumber(fields[key], `${label} ${key}`);
+    if (value !== null) spec[key] = value;
+  }
+
+  const hasSpring = spec.springStart !== undefined && spec.springEnd !== undefined && spec.airTorquePerMPa !== undefined;
+  if (spec.torque04 === null && spec.torque05 === null && !hasSpring) {
+    throw new Error(`${label}: missing torque (torque04 and torque05 both empty)`);
+  }
+  if (spec.torque04 === null || spec.torque05 === null) {
+    warnings.push(`${label}: no torque at ${spec.torque04 === null ? '0.4' : '0.5'} MPa`);
+  }
+
+  const expected = raw.section === 'singleAction' ? '单作用' : '双作用';
+  const mode = getActionMode(model);
+  if (mode && mode !== expected) {
+    warnings.push(`${label}: model name suggests ${mode} but listed as ${expected}`);
+  }
+  return spec;
+}
+
+/**
+ * 校验记录并组装品牌结构, 同一品牌内型号重复时跳过后者
+ */
+function buildBrands(records: RawActuator[]): ActuatorCatalogLoadResult {
+  const brands: ActuatorBrand[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const seen = new Set<string>();
+
+  for (const raw of records) {
+    let spec: ActuatorSpec;
+    try {
+      spec = buildSpec(raw, warnings);
+    } catch (error) {
+      errors.push((error as Error).message);
+      continue;
+    }
+
+    const key = `${raw.brand}\u0000${spec.model}`;
+    if (seen.has(key)) {
+      errors.push(`${raw.brand} ${spec.model}: duplicate model`);
+      continue;
+    }
+    seen.add(key);
+
+    let brand = brands.find(b => b.brand === raw.brand);
+    if (!brand) {
+      brand = { brand: raw.brand, types: [] };
+      brands.push(brand);
+    }
+    let type = brand.types.find(t => t.type === raw.type);
+    if (!type) {
+      type = { type: raw.type, singleAction: [], doubleAction: [] };
+      brand.types.push(type);
+    }
+    type[raw.section].push(spec);
+  }
+
+  return { brands, errors, warnings };
+}
+
+/**
+ * 读取 XML 元素字段: 属性优先, 其次同名子元素文本
+ */
+function xmlFields(element: XmlElement): Record<string, unknown> {
+  const fields: Record<string, unknown> = { ...element.attributes };
+  for (const child of element.children) {
+    if (!(child.name in fields)) fields[child.name] = child.text;
+  }
+  return fields;
+}
+
+/**
+ * 解析 XML 执行机构目录
+ */
+export function parseActuatorCatalogXml(xml: string): ActuatorCatalogLoadResult {
+  const root = parseXml(xml);
+  const brandElements = root.name === 'Brand' ? [root] : root.children.filter(c => c.name === 'Brand');
+  if (brandElements.length === 0) {
+    throw new Error('Actuator catalog contains no <Brand> element');
+  }
+
+  const records: RawActuator[] = [];
+  for (const brandElement of brandElements) {
+    const brand = String(xmlFields(brandElement).name ?? '').trim();
+    if (!brand) throw new Error('<Brand> without name');
+
+    for (const typeElement of brandElement.children.filter(c => c.name === 'Type')) {
+      const type = String(xmlFields(typeElement).name ?? '').trim();
+      if (!type) throw new Error(`${brand}: <Type> without name`);
+
+      for (const sectionElement of typeElement.children) {
+        const section: ActionSection | null = sectionElement.name === 'SingleAction' ? 'singleAction'
+          : sectionElement.name === 'DoubleAction' ? 'doubleAction' : null;
+        if (!section) continue;
+        for (const actuator of sectionElement.children.filter(c => c.name === 'Actuator')) {
+          records.push({ brand, type, section, fields: xmlFields(actuator) });
+        }
+      }
+    }
+  }
+  return buildBrands(records);
+}
+
+/**
+ * 解析 JSON 执行机构目录
+ */
+export function parseActuatorCatalogJson(json: string): ActuatorCatalogLoadResult {
+  const data = JSON.parse(json) as ActuatorBrand | ActuatorBrand[];
+  const brandList = Array.isArray(data) ? data : [data];
+
+  const records: RawActuator[] = [];
+  for (const brandData of brandList) {
+    const brand = String(brandData?.brand ?? '').trim();
+    if (!brand || !Array.isArray(brandData.types)) {
+      throw new Error('Actuator catalog brand needs "brand" and "types"');
+    }
+    for (const typeData of brandData.types as ActuatorType[]) {
+      const type = String(typeData?.type ?? '').trim();
+      if (!type) throw new Error(`${brand}: type without name`);
+
+      for (const section of ['singleAction', 'doubleAction'] as const) {
+        for (const fields of typeData[section] ?? []) {
+          records.push({ brand, type, section, fields: { ...fields } });
+        }
+      }
+    }
+  }
+  return buildBrands(records);
+}
+
+/**
+ * 将品牌数据并入 actuatorBrandData
+ * 已有品牌/类型合并, 与已有型号重复的跳过
+ * @returns 被跳过型号的错误信息
+ */
+export function registerActuatorBrands(brands: ActuatorBrand[]): string[] {
+  const errors: string[] = [];
+
+  for (const incoming of brands) {
+    let brand = actuatorBrandData.find(b => b.brand === incoming.brand);
+    if (!brand) {
+      brand = { brand: incoming.brand, types: [] };
+      actuatorBrandData.push(brand);
+    }
+    const existing = new Set(brand.types.flatMap(t => [...t.singleAction, ...t.doubleAction].map(s => s.model)));
+
+    for (const incomingType of incoming.types) {
+      let type = brand.types.find(t => t.type === incomingType.type);
+      if (!type) {
+        type = { type: incomingType.type, singleAction: [], doubleAction: [] };
+        brand.types.push(type);
+      }
+      for (const section of ['singleAction', 'doubleAction'] as const) {
+        for (const spec of incomingType[section]) {
+          if (existing.has(spec.model)) {
+            errors.push(`${incoming.brand} ${spec.model}: duplicate model`);
+            continue;
+          }
+          existing.add(spec.model);
+          type[section].push(spec);
+        }
+      }
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,421 @@
+/**
+ * 流体物性数据库
+ * 临界参数、偏心因子: Poling, The Properties of Gases and Liquids (5th ed.)
+ * 液体密度: 20℃参考密度 + Rackett 温度修正 (水: IAPWS-IF97, 无压力时 Kell 公式)
+ * 水蒸气: IAPWS-IF97 密度与比热比
+ * 液体粘度: Andrade 公式 ln μ = A + B/T
+ * 饱和蒸汽压: Antoine 公式 (水: IAPWS-IF97, 无常数时 Lee-Kesler 对比态关联式)
+ * 气体粘度: Sutherland 公式
+ */
+
+import { CONSTANTS } from '../constants/index.js';
+import {
+  calcIF97Region1,
+  calcIF97SaturationPressure,
+  calcIF97SaturationTemperature,
+  calcSteamProperties
+} from '../utils/iapws-if97.js';
+import { solveBisection } from '../utils/solver.js';
+import type { DensityUnit, FluidType } from '../types/index.js';
+
+/** 通用气体常数 J/(mol·K) */
+const R = 8.314462;
+
+/** 标准状态摩尔体积 Nm³/kmol (与 M = ρN × 22.4 一致) */
+const MOLAR_VOLUME = 22.4;
+
+export interface LiquidPropertyData {
+  density20: number;       // 20℃液体密度 kg/m³ (低沸点介质为饱和液体)
+  ZRA: number;             // Rackett 压缩因子
+  viscosityA: number;      // Andrade 系数 A (μ单位 cP)
+  viscosityB: number;      // Andrade 系数 B K
+}
+
+export interface AntoineConstants {
+  A: number;               // log10(Pv/KPa) = A - B/(C + t℃)
+  B: number;
+  C: number;
+}
+
+export interface GasPropertyData {
+  mu0: number;             // 参考温度下粘度 cP
+  T0: number;              // 参考温度 K
+  S: number;               // Sutherland 常数 K
+}
+
+export interface FluidData {
+  name: string;            // 名称 (查询键)
+  aliases: string[];       // 别名 (化学式、中文名)
+  M: number;               // 分子量 kg/kmol
+  Tc: number;              // 临界温度 K
+  Pc: number;              // 临界压力 MPa
+  omega: number;           // 偏心因子
+  gamma: number;           // 理想气体比热比 (20℃)
+  liquid?: LiquidPropertyData;
+  antoine?: AntoineConstants; // 饱和蒸汽压 Antoine 常数 (KPa, ℃)
+  gas?: GasPropertyData;
+}
+
+// 流体物性数据
+export const fluidDatabase: FluidData[] = [
+  {
+    name: 'Water', aliases: ['H2O', '水', '蒸汽'],
+    M: 18.015, Tc: 647.096, Pc: 22.064, omega: 0.3449, gamma: 1.33,
+    liquid: { density20: 998.2, ZRA: 0.2338, viscosityA: -6.104, viscosityB: 1790 },
+    gas: { mu0: 0.0123, T0: 373.15, S: 927 }
+  },
+  {
+    name: 'Air', aliases: ['空气'],
+    M: 28.96, Tc: 132.5, Pc: 3.77, omega: 0.035, gamma: 1.4,
+    gas: { mu0: 0.01716, T0: 273.15, S: 110.4 }
+  },
+  {
+    name: 'Nitrogen', aliases: ['N2', '氮气'],
+    M: 28.013, Tc: 126.2, Pc: 3.39, omega: 0.037, gamma: 1.4,
+    gas: { mu0: 0.01663, T0: 273.15, S: 107 }
+  },
+  {
+    name: 'Oxygen', aliases: ['O2', '氧气'],
+    M: 31.999, Tc: 154.58, Pc: 5.043, omega: 0.022, gamma: 1.4,
+    gas: { mu0: 0.01919, T0: 273.15, S: 139 }
+  },
+  {
+    name: 'Hydrogen', aliases: ['H2', '氢气'],
+    M: 2.016, Tc: 33.19, Pc: 1.313, omega: -0.216, gamma: 1.41,
+    gas: { mu0: 0.008411, T0: 273.15, S: 97 }
+  },
+  {
+    name: 'Helium', aliases: ['He', '氦气'],
+    M: 4.003, Tc: 5.19, Pc: 0.227, omega: -0.39, gamma: 1.66,
+    gas: { mu0: 0.0187, T0: 273.15, S: 79.4 }
+  },
+  {
+    name: 'Argon', aliases: ['Ar', '氩气'],
+    M: 39.948, Tc: 150.86, Pc: 4.898, omega: -0.002, gamma: 1.67,
+    gas: { mu0: 0.02099, T0: 273.15, S: 144 }
+  },
+  {
+    name: 'Carbon Dioxide', aliases: ['CO2', '二氧化碳'],
+    M: 44.01, Tc: 304.13, Pc: 7.377, omega: 0.224, gamma: 1.29,
+    liquid: { density20: 773, ZRA: 0.2722, viscosityA: -7.53, viscosityB: 1428 },
+    gas: { mu0: 0.0137, T0: 273.15, S: 222 }
+  },
+  {
+    name: 'Carbon Monoxide', aliases: ['CO', '一氧化碳'],
+    M: 28.01, Tc: 132.85, Pc: 3.494, omega: 0.045, gamma: 1.4,
+    gas: { mu0: 0.01657, T0: 273.15, S: 136 }
+  },
+  {
+    name: 'Ammonia', aliases: ['NH3', '氨', '氨气'],
+    M: 17.031, Tc: 405.4, Pc: 11.333, omega: 0.256, gamma: 1.31,
+    liquid: { density20: 610.2, ZRA: 0.2465, viscosityA: -4.586, viscosityB: 768 },
+    antoine: { A: 6.4854, B: 926.132, C: 240.17 },
+    gas: { mu0: 0.00919, T0: 273.15, S: 370 }
+  },
+  {
+    name: 'Hydrogen Sulfide', aliases: ['H2S', '硫化氢'],
+    M: 34.08, Tc: 373.1, Pc: 8.963, omega: 0.09, gamma: 1.32,
+    gas: { mu0: 0.01166, T0: 273.15, S: 331 }
+  },
+  {
+    name: 'Sulfur Dioxide', aliases: ['SO2', '二氧化硫'],
+    M: 64.06, Tc: 430.8, Pc: 7.884, omega: 0.245, gamma: 1.29,
+    gas: { mu0: 0.0116, T0: 273.15, S: 416 }
+  },
+  {
+    name: 'Chlorine', aliases: ['Cl2', '氯气'],
+    M: 70.9, Tc: 417.15, Pc: 7.991, omega: 0.069, gamma: 1.34,
+    gas: { mu0: 0.0123, T0: 273.15, S: 351 }
+  },
+  {
+    name: 'Methane', aliases: ['CH4', '甲烷'],
+    M: 16.043, Tc: 190.56, Pc: 4.599, omega: 0.011, gamma: 1.31,
+    gas: { mu0: 0.0103, T0: 273.15, S: 164 }
+  },
+  {
+    name: 'Natural Gas', aliases: ['NG', '天然气'],
+    M: 17.4, Tc: 199, Pc: 4.6, omega: 0.02, gamma: 1.3,
+    gas: { mu0: 0.0103, T0: 273.15, S: 164 }
+  },
+  {
+    name: 'Ethane', aliases: ['C2H6', '乙烷'],
+    M: 30.07, Tc: 305.32, Pc: 4.872, omega: 0.099, gamma: 1.19,
+    gas: { mu0: 0.00855, T0: 273.15, S: 252 }
+  },
+  {
+    name: 'Ethylene', aliases: ['C2H4', '乙烯'],
+    M: 28.054, Tc: 282.34, Pc: 5.041, omega: 0.087, gamma: 1.24,
+    gas: { mu0: 0.00935, T0: 273.15, S: 225 }
+  },
+  {
+    name: 'Propane', aliases: ['C3H8', '丙烷'],
+    M: 44.097, Tc: 369.83, Pc: 4.248, omega: 0.152, gamma: 1.13,
+    liquid: { density20: 500, ZRA: 0.2766, viscosityA: -4.994, viscosityB: 789 },
+    antoine: { A: 5.92888, B: 803.81, C: 246.99 },
+    gas: { mu0: 0.0075, T0: 273.15, S: 278 }
+  },
+  {
+    name: 'Propylene', aliases: ['C3H6', '丙烯'],
+    M: 42.08, Tc: 365.57, Pc: 4.665, omega: 0.142, gamma: 1.15,
+    gas: { mu0: 0.0078, T0: 273.15, S: 322 }
+  },
+  {
+    name: 'n-Butane', aliases: ['Butane', 'C4H10', '正丁烷', '丁烷'],
+    M: 58.123, Tc: 425.12, Pc: 3.796, omega: 0.2, gamma: 1.1,
+    liquid: { density20: 578.8, ZRA: 0.273, viscosityA: -3.955, viscosityB: 640 },
+    antoine: { A: 5.93386, B: 935.86, C: 238.73 },
+    gas: { mu0: 0.0068, T0: 273.15, S: 358 }
+  },
+  {
+    name: 'n-Pentane', aliases: ['Pentane', 'C5H12', '正戊烷', '戊烷'],
+    M: 72.15, Tc: 469.7, Pc: 3.37, omega: 0.252, gamma: 1.07,
+    liquid: { density20: 626.2, ZRA: 0.2685, viscosityA: -4.009, viscosityB: 757 },
+    antoine: { A: 6.00122, B: 1075.78, C: 233.205 }
+  },
+  {
+    name: 'n-Hexane', aliases: ['Hexane', 'C6H14', '正己烷', '己烷'],
+    M: 86.18, Tc: 507.6, Pc: 3.025, omega: 0.301, gamma: 1.06,
+    liquid: { density20: 659.4, ZRA: 0.2635, viscosityA: -4.415, viscosityB: 951 },
+    antoine: { A: 6.00091, B: 1171.17, C: 224.408 }
+  },
+  {
+    name: 'n-Heptane', aliases: ['Heptane', 'C7H16', '正庚烷', '庚烷'],
+    M: 100.2, Tc: 540.2, Pc: 2.74, omega: 0.35, gamma: 1.05,
+    liquid: { density20: 683.8, ZRA: 0.2611, viscosityA: -4.293, viscosityB: 997 },
+    antoine: { A: 6.02167, B: 1264.9, C: 216.544 }
+  },
+  {
+    name: 'Benzene', aliases: ['C6H6', '苯'],
+    M: 78.11, Tc: 562.05, Pc: 4.895, omega: 0.21, gamma: 1.1,
+    liquid: { density20: 878.6, ZRA: 0.2698, viscosityA: -4.685, viscosityB: 1247 },
+    antoine: { A: 6.03055, B: 1211.033, C: 220.79 }
+  },
+  {
+    name: 'Toluene', aliases: ['C7H8', '甲苯'],
+    M: 92.14, Tc: 591.75, Pc: 4.108, omega: 0.264, gamma: 1.09,
+    liquid: { density20: 866.9, ZRA: 0.2644, viscosityA: -4.13, viscosityB: 1056 },
+    antoine: { A: 6.07954, B: 1344.8, C: 219.482 }
+  },
+  {
+    name: 'Methanol', aliases: ['CH3OH', '甲醇'],
+    M: 32.04, Tc: 512.6, Pc: 8.097, omega: 0.565, gamma: 1.2,
+    liquid: { density20: 791.8, ZRA: 0.2334, viscosityA: -4.877, viscosityB: 1275 },
+    antoine: { A: 7.20587, B: 1582.271, C: 239.726 }
+  },
+  {
+    name: 'Ethanol', aliases: ['C2H5OH', '乙醇'],
+    M: 46.07, Tc: 513.9, Pc: 6.148, omega: 0.649, gamma: 1.13,
+    liquid: { density20: 789.3, ZRA: 0.2502, viscosityA: -5.73, viscosityB: 1733 },
+    antoine: { A: 7.32907, B: 1642.89, C: 230.3 }
+  }
+];
+
+/**
+ * 获取所有流体名称
+ */
+export function getFluidNames(): string[] {
+  return fluidDatabase.map(f => f.name);
+}
+
+/**
+ * 根据名称或别名获取流体数据 (不区分大小写)
+ */
+export function getFluid(name: string): FluidData | null {
+  const key = name.trim().toLowerCase();
+  return fluidDatabase.find(f =>
+    f.name.toLowerCase() === key || f.aliases.some(a => a.toLowerCase() === key)
+  ) || null;
+}
+
+/**
+ * 水的密度 (Kell 公式, 0~150℃)
+ * @param tempCelsius 温度 ℃
+ * @returns 密度 kg/m³
+ */
+export function calcWaterDensity(tempCelsius: number): number {
+  const t = tempCelsius;
+  return (999.83952 + 16.945176 * t - 7.9870401e-3 * t * t - 46.170461e-6 * Math.pow(t, 3)
+    + 105.56302e-9 * Math.pow(t, 4) - 280.54253e-12 * Math.pow(t, 5)) / (1 + 16.879850e-3 * t);
+}
+
+/**
+ * 液体密度 (Rackett 温度修正)
+ * ρ(T) = ρ20 × ZRA^((1-T20/Tc)^(2/7) - (1-T/Tc)^(2/7))
+ * 水: 给定压力时按 IF97 区域1 (压力低于饱和压力时取饱和液体), 否则 Kell 公式
+ * @param fluid 流体数据
+ * @param T 温度 K
+ * @param P 绝对压力 KPa (可选, 仅水使用)
+ * @returns 密度 kg/m³
+ */
+export function calcLiquidDensity(fluid: FluidData, T: number, P?: number): number {
+  if (!fluid.liquid) {
+    throw new Error(`No liquid property data for fluid: ${fluid.name}`);
+  }
+  if (fluid.name === 'Water') {
+    if (P !== undefined && P > 0 && T >= CONSTANTS.STD_TEMP && T <= 623.15) {
+      return calcIF97Region1(Math.max(P, calcIF97SaturationPressure(T)), T).density;
+    }
+    return calcWaterDensity(T - CONSTANTS.STD_TEMP);
+  }
+  const T20 = CONSTANTS.STD_TEMP + 20;
+  const tau = (temp: number) => Math.pow(Math.max(1 - temp / fluid.Tc, 0), 2 / 7);
+  return fluid.liquid.density20 * Math.pow(fluid.liquid.ZRA, tau(T20) - tau(T));
+}
+
+/**
+ * 液体动力粘度 (Andrade 公式)
+ * ln μ = A + B/T
+ * @returns 粘度 cP
+ */
+export function calcLiquidViscosity(fluid: FluidData, T: number): number {
+  if (!fluid.liquid) {
+    throw new Error(`No liquid property data for fluid: ${fluid.name}`);
+  }
+  return Math.exp(fluid.liquid.viscosityA + fluid.liquid.viscosityB / T);
+}
+
+/**
+ * 饱和蒸汽压
+ * 水: IAPWS-IF97; 有 Antoine 常数: log10(Pv) = A - B/(C + t);
+ * 其他: Lee-Kesler 关联式 ln Pr = f0(Tr) + ω×f1(Tr)
+ * 超过临界温度时返回临界压力
+ * @param fluid 流体数据
+ * @param T 温度 K
+ * @returns 饱和蒸汽压 KPa
+ */
+export function calcVaporPressure(fluid: FluidData, T: number): number {
+  if (fluid.name === 'Water') {
+    return calcIF97SaturationPressure(T);
+  }
+  if (T >= fluid.Tc) {
+    return fluid.Pc * 1000;
+  }
+  if (fluid.antoine) {
+    const { A, B, C } = fluid.antoine;
+    return Math.pow(10, A - B / (C + T - CONSTANTS.STD_TEMP));
+  }
+  const Tr = T / fluid.Tc;
+  const lnTr = Math.log(Tr);
+  const f0 = 5.92714 - 6.09648 / Tr - 1.28862 * lnTr + 0.169347 * Math.pow(Tr, 6);
+  const f1 = 15.2518 - 15.6875 / Tr - 13.4721 * lnTr + 0.43577 * Math.pow(Tr, 6);
+  return fluid.Pc * 1000 * Math.exp(f0 + fluid.omega * f1);
+}
+
+/**
+ * 饱和温度 (饱和蒸汽压的反函数)
+ * 水: IAPWS-IF97; 其他流体在 0.3Tc ~ Tc 之间二分求解 calcVaporPressure(T) = P
+ * @param fluid 流体数据
+ * @param P 绝对压力 KPa
+ * @returns 饱和温度 K, 压力不低于临界压力时无饱和温度
+ */
+export function calcFluidSaturationTemperature(fluid: FluidData, P: number): number | undefined {
+  if (P >= fluid.Pc * 1000) {
+    return undefined;
+  }
+  if (fluid.name === 'Water') {
+    return calcIF97SaturationTemperature(P);
+  }
+  return solveBisection(T => calcVaporPressure(fluid, T), P, 0.3 * fluid.Tc, fluid.Tc, { tolerance: 1e-9 }).root;
+}
+
+/**
+ * 气体动力粘度 (Sutherland 公式)
+ * μ = μ0 × (T0 + S)/(T + S) × (T/T0)^1.5
+ * @returns 粘度 cP, 无数据时返回默认值
+ */
+export function calcGasViscosity(fluid: FluidData, T: number): number {
+  if (!fluid.gas) {
+    return CONSTANTS.DEFAULT.GAS_VISCOSITY;
+  }
+  const { mu0, T0, S } = fluid.gas;
+  return mu0 * (T0 + S) / (T + S) * Math.pow(T / T0, 1.5);
+}
+
+/**
+ * 理想气体密度
+ * ρ = P×M / (Z×R×T)
+ * @param M 分子量 kg/kmol
+ * @param P 绝对压力 KPa
+ * @param T 温度 K
+ * @param Z 压缩因子
+ * @returns 密度 kg/m³
+ */
+export function calcGasDensity(M: number, P: number, T: number, Z: number = 1): number {
+  return P * M / (Z * R * T);
+}
+
+/**
+ * 工况下的流体物性
+ */
+export interface FluidProperties {
+  density: number;         // 密度
+  densityUnit: DensityUnit; // 密度单位 (气体为标准状态 Kg/Nm3)
+  viscosity: number;       // 动力粘度 cP
+  molecularWeight: number; // 分子量 kg/kmol
+  gamma: number;           // 比热比
+  Pc: number;              // 临界压力 MPa
+  Tc: number;              // 临界温度 K
+  omega: number;           // 偏心因子
+  vaporPressure?: number;  // 饱和蒸汽压 KPa (液体)
+}
+
+/**
+ * 计算流体在入口工况下的物性
+ * @param fluid 流体数据
+ * @param fluidType 计算类型 (液体/两相按液相, 气体/蒸汽按气相)
+ * @param P1 入口绝对压力 KPa
+ * @param T1 入口温度 K
+ * @param Z 压缩因子 (蒸汽密度用)
+ */
+export function calcFluidProperties(
+  fluid: FluidData,
+  fluidType: FluidType,
+  P1: number,
+  T1: number,
+  Z: number = 1
+): FluidProperties {
+  const common = {
+    molecularWeight: fluid.M,
+    gamma: fluid.gamma,
+    Pc: fluid.Pc,
+    Tc: fluid.Tc,
+    omega: fluid.omega
+  };
+
+  switch (fluidType) {
+    case 'Gas':
+      // 气体按标准状态密度给出, 与 M = ρN × 22.4 保持一致
+      return {
+        ...common,
+        density: fluid.M / MOLAR_VOLUME,
+        densityUnit: 'Kg/Nm3',
+        viscosity: calcGasViscosity(fluid, T1)
+      };
+    case 'Steam':
+      // 水蒸气按 IF97 计算密度与比热比, 其他介质按理想气体
+      if (fluid.name === 'Water') {
+        const steam = calcSteamProperties(P1, T1);
+        return {
+          ...common,
+          gamma: steam.gamma,
+          density: steam.density,
+          densityUnit: 'Kg/m3',
+          viscosity: calcGasViscosity(fluid, T1)
+        };
+      }
+      return {
+        ...common,
+        density: calcGasDensity(fluid.M, P1, T1, Z),
+        densityUnit: 'Kg/m3',
+        viscosity: calcGasViscosity(fluid, T1)
+      };
+    default:
+      return {
+        ...common,
+        density: calcLiquidDensity(fluid, T1, P1),
+        densityUnit: 'Kg/m3',
+        viscosity: calcLiquidViscosity(fluid, T1),
+        vaporPressure: calcVaporPressure(fluid, T1)
+      };
+  }
+}
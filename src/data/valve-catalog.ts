@@ -0,0 +1,151 @@
+/**
+ * 阀门选型目录
+ * 系列 → 公称通径 → 阀座(阀芯)尺寸 → 额定Kv
+ * FL/XT/Fd/可调比按流量特性给出 (IEC 60534-2-1 附录典型值)
+ */
+
+import type { FlowCharacteristic, ValveCandidate } from '../types/index.js';
+
+export interface ValveCoefficients {
+  FL: number;              // 压力恢复系数
+  XT: number;              // 压差比系数
+  Fd: number;              // 阀门类型修正系数
+  rangeability: number;    // 固有可调比
+}
+
+export interface ValveTrim {
+  trimSize: number;        // 阀座尺寸 mm
+  ratedKv: number;         // 额定Kv
+}
+
+export interface ValveBodySize {
+  DN: number;              // 公称通径 mm
+  trims: ValveTrim[];      // 可选阀座 (缩径 ~ 全通径)
+}
+
+export interface ValveSeries {
+  series: string;          // 系列代号 (查询键)
+  name: string;            // 名称
+  characteristics: Partial<Record<FlowCharacteristic, ValveCoefficients>>;
+  sizes: ValveBodySize[];
+}
+
+// 单座调节阀 (柱塞阀芯, 顶导向)
+const singleSeatGlobe: ValveSeries = {
+  series: 'GS',
+  name: '单座调节阀',
+  characteristics: {
+    'Equal Percentage': { FL: 0.9, XT: 0.72, Fd: 0.46, rangeability: 50 },
+    'Linear': { FL: 0.9, XT: 0.75, Fd: 0.46, rangeability: 50 }
+  },
+  sizes: [
+    { DN: 20, trims: [{ trimSize: 10, ratedKv: 1.8 }, { trimSize: 12, ratedKv: 2.8 }, { trimSize: 15, ratedKv: 4.4 }, { trimSize: 20, ratedKv: 6.9 }] },
+    { DN: 25, trims: [{ trimSize: 12, ratedKv: 2.8 }, { trimSize: 15, ratedKv: 4.4 }, { trimSize: 20, ratedKv: 6.9 }, { trimSize: 25, ratedKv: 11 }] },
+    { DN: 32, trims: [{ trimSize: 20, ratedKv: 6.9 }, { trimSize: 25, ratedKv: 11 }, { trimSize: 32, ratedKv: 17.6 }] },
+    { DN: 40, trims: [{ trimSize: 25, ratedKv: 11 }, { trimSize: 32, ratedKv: 17.6 }, { trimSize: 40, ratedKv: 27.5 }] },
+    { DN: 50, trims: [{ trimSize: 32, ratedKv: 17.6 }, { trimSize: 40, ratedKv: 27.5 }, { trimSize: 50, ratedKv: 44 }] },
+    { DN: 65, trims: [{ trimSize: 40, ratedKv: 27.5 }, { trimSize: 50, ratedKv: 44 }, { trimSize: 65, ratedKv: 69 }] },
+    { DN: 80, trims: [{ trimSize: 50, ratedKv: 44 }, { trimSize: 65, ratedKv: 69 }, { trimSize: 80, ratedKv: 110 }] },
+    { DN: 100, trims: [{ trimSize: 65, ratedKv: 69 }, { trimSize: 80, ratedKv: 110 }, { trimSize: 100, ratedKv: 176 }] },
+    { DN: 125, trims: [{ trimSize: 80, ratedKv: 110 }, { trimSize: 100, ratedKv: 176 }, { trimSize: 125, ratedKv: 275 }] },
+    { DN: 150, trims: [{ trimSize: 100, ratedKv: 176 }, { trimSize: 125, ratedKv: 275 }, { trimSize: 150, ratedKv: 440 }] },
+    { DN: 200, trims: [{ trimSize: 125, ratedKv: 275 }, { trimSize: 150, ratedKv: 440 }, { trimSize: 200, ratedKv: 690 }] },
+    { DN: 250, trims: [{ trimSize: 150, ratedKv: 440 }, { trimSize: 200, ratedKv: 690 }, { trimSize: 250, ratedKv: 1100 }] },
+    { DN: 300, trims: [{ trimSize: 200, ratedKv: 690 }, { trimSize: 250, ratedKv: 1100 }, { trimSize: 300, ratedKv: 1760 }] }
+  ]
+};
+
+// 套筒调节阀 (笼式导向, 平衡阀芯)
+const cageGuidedGlobe: ValveSeries = {
+  series: 'CG',
+  name: '套筒调节阀',
+  characteristics: {
+    'Equal Percentage': { FL: 0.9, XT: 0.7, Fd: 0.4, rangeability: 50 },
+    'Linear': { FL: 0.85, XT: 0.65, Fd: 0.4, rangeability: 50 }
+  },
+  sizes: [
+    { DN: 25, trims: [{ trimSize: 20, ratedKv: 6.3 }, { trimSize: 25, ratedKv: 10 }] },
+    { DN: 40, trims: [{ trimSize: 32, ratedKv: 16 }, { trimSize: 40, ratedKv: 25 }] },
+    { DN: 50, trims: [{ trimSize: 40, ratedKv: 25 }, { trimSize: 50, ratedKv: 40 }] },
+    { DN: 80, trims: [{ trimSize: 65, ratedKv: 63 }, { trimSize: 80, ratedKv: 100 }] },
+    { DN: 100, trims: [{ trimSize: 80, ratedKv: 100 }, { trimSize: 100, ratedKv: 160 }] },
+    { DN: 150, trims: [{ trimSize: 125, ratedKv: 250 }, { trimSize: 150, ratedKv: 400 }] },
+    { DN: 200, trims: [{ trimSize: 150, ratedKv: 400 }, { trimSize: 200, ratedKv: 630 }] },
+    { DN: 250, trims: [{ trimSize: 200, ratedKv: 630 }, { trimSize: 250, ratedKv: 1000 }] },
+    { DN: 300, trims: [{ trimSize: 250, ratedKv: 1000 }, { trimSize: 300, ratedKv: 1600 }] }
+  ]
+};
+
+// 蝶阀 (中线, 70° 开度额定)
+const butterfly: ValveSeries = {
+  series: 'BF',
+  name: '调节蝶阀',
+  characteristics: {
+    'Equal Percentage': { FL: 0.7, XT: 0.42, Fd: 0.57, rangeability: 30 }
+  },
+  sizes: [
+    { DN: 50, trims: [{ trimSize: 50, ratedKv: 95 }] },
+    { DN: 80, trims: [{ trimSize: 80, ratedKv: 240 }] },
+    { DN: 100, trims: [{ trimSize: 100, ratedKv: 400 }] },
+    { DN: 150, trims: [{ trimSize: 150, ratedKv: 900 }] },
+    { DN: 200, trims: [{ trimSize: 200, ratedKv: 1650 }] },
+    { DN: 250, trims: [{ trimSize: 250, ratedKv: 2600 }] },
+    { DN: 300, trims: [{ trimSize: 300, ratedKv: 3800 }] }
+  ]
+};
+
+// 阀门系列目录
+export const valveCatalog: ValveSeries[] = [singleSeatGlobe, cageGuidedGlobe, butterfly];
+
+/**
+ * 获取所有系列代号
+ */
+export function getValveSeriesNames(): string[] {
+  return valveCatalog.map(s => s.series);
+}
+
+/**
+ * 按系列代号查找 (不区分大小写)
+ */
+export function getValveSeries(series: string): ValveSeries | null {
+  const key = series.toLowerCase();
+  return valveCatalog.find(s => s.series.toLowerCase() === key) || null;
+}
+
+/**
+ * 展开候选阀门: 系列 × 通径 × 阀座 × 流量特性
+ * @param series 限定系列 (不给时为全部)
+ * @param flowChar 限定流量特性 (不给时为系列支持的全部特性)
+ */
+export function getValveCandidates(series?: string[], flowChar?: FlowCharacteristic): ValveCandidate[] {
+  const seriesList = series
+    ? series.map(name => {
+        const found = getValveSeries(name);
+        if (!found) {
+          throw new Error(`Unknown valve series: ${name}`);
+        }
+        return found;
+      })
+    : valveCatalog;
+
+  const candidates: ValveCandidate[] = [];
+  for (const s of seriesList) {
+    const characteristics = Object.entries(s.characteristics) as [FlowCharacteristic, ValveCoefficients][];
+    for (const [char, coefficients] of characteristics) {
+      if (flowChar && char !== flowChar) continue;
+      for (const size of s.sizes) {
+        for (const trim of size.trims) {
+          candidates.push({
+            series: s.series,
+            DN: size.DN,
+            trimSize: trim.trimSize,
+            ratedKv: trim.ratedKv,
+            flowChar: char,
+            ...coefficients
+          });
+        }
+      }
+    }
+  }
+  return candidates;
+}
@@ -5,11 +5,25 @@
 export * from './types/index.js';
 export * from './constants/index.js';
 export * from './utils/unit-converter.js';
+export * from './utils/solver.js';
+export * from './utils/iapws-if97.js';
+export * from './utils/xml-parser.js';
 export { getPipeSpec, getAvailableSchStandards } from './utils/pipe-spec-static.js';
 export * from './calculators/liquid.js';
 export * from './calculators/gas.js';
 export * from './calculators/steam.js';
+export * from './calculators/two-phase.js';
+export * from './calculators/flow-rate.js';
 export * from './calculators/reynolds.js';
+export * from './calculators/compressibility.js';
+export * from './calculators/gas-mixture.js';
+export * from './calculators/characteristic-table.js';
+export * from './calculators/installed-characteristic.js';
+export * from './calculators/actuator-sizing.js';
+export * from './calculators/cavitation.js';
 export * from './calculators/valve-opening.js';
 export { KvCalculator, kvCalculator } from './kv-calculator.js';
 export * from './data/actuator-data.js';
+export * from './data/actuator-loader.js';
+export * from './data/fluid-data.js';
+export * from './data/valve-catalog.js';
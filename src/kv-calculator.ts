@@ -7,19 +7,41 @@ import { CONSTANTS, PIPE_SPECS } from './constants/index.js';
 import type {
   KvInput,
   KvResult,
+  FlowRateInput,
+  FlowRateResult,
+  PressureDropInput,
+  PressureDropResult,
+  FluidType,
   IntermediateValues,
   FlowState,
+  CiIterationResult,
+  CiIterationStep,
+  CavitationAssessment,
   TurbulenceState,
-  FluidState
+  FluidState,
+  DensityUnit,
+  ValveCandidate,
+  ValveEvaluation,
+  ValveSelectionField,
+  ValveSelectionInput,
+  ValveSelectionResult,
+  MultiCaseInput,
+  MultiCaseResult,
+  MultiCaseSummary,
+  CaseResult
 } from './types/index.js';
 import {
   convertPressureToKPaAbs,
+  convertPressureFromKPaAbs,
   convertTemperatureToK,
   convertTemperatureToCelsius,
   convertDensityToKgM3,
   convertLiquidFlowToM3h,
   convertGasFlowToNm3h,
   convertSteamFlowToKgh,
+  convertLiquidFlowFromM3h,
+  convertGasFlowFromNm3h,
+  convertSteamFlowFromKgh,
   convertViscosityToM2S,
   convertGasDensityToActual,
   getPipeInnerDiameter,
@@ -32,11 +54,57 @@ import {
 import { calculateLiquidKv, calcFF, calcSumK, calcFP, calcFLP, calcXF, calcXFz, determineFluidState } from './calculators/liquid.js';
 import { calculateGasKv, calcFgamma, calcX } from './calculators/gas.js';
 import { calculateSteamKv } from './calculators/steam.js';
+import { calculateTwoPhaseKv } from './calculators/two-phase.js';
 import { calculateReynolds } from './calculators/reynolds.js';
-import { calcValveOpening, validateOpening } from './calculators/valve-opening.js';
+import { calcCompressibilityZ } from './calculators/compressibility.js';
+import { calculateGasMixture } from './calculators/gas-mixture.js';
+import type { ReynoldsResult } from './calculators/reynolds.js';
+import { calculateLiquidFlow, calculateGasFlow, calculateSteamFlow } from './calculators/flow-rate.js';
+import { calcValveOpening, calcKvAtOpening, validateOpening } from './calculators/valve-opening.js';
+import { calcCoefficientsAtTravel } from './calculators/characteristic-table.js';
+import { assessCavitation, isInternalsAdequate } from './calculators/cavitation.js';
 import { calculateGasNoise } from './calculators/gas-noise.js';
 import { calculateLiquidNoise } from './calculators/liquid-noise.js';
-import type { NoiseInput, NoiseResult } from './calculators/noise/types.js';
+import type { NoiseInput, NoiseResult, NoiseTrim } from './calculators/noise/types.js';
+import { solveBisection, solveFixedPoint } from './utils/solver.js';
+import { getFluid, calcFluidProperties, calcFluidSaturationTemperature } from './data/fluid-data.js';
+import type { FluidProperties } from './data/fluid-data.js';
+import { calcSteamProperties } from './utils/iapws-if97.js';
+import { getValveCandidates } from './data/valve-catalog.js';
+import { getPipeSpec } from './utils/pipe-spec-static.js';
+
+/**
+ * Input with density resolved (given explicitly or from the fluid database)
+ */
+type ResolvedInput<T> = T & {
+  density: number;
+  densityUnit: DensityUnit;
+  propertyWarnings?: string[]; // Fluid properties that could not be resolved
+};
+
+/**
+ * Process conditions after unit conversion and defaulting
+ */
+interface ResolvedConditions {
+  P1Abs: number;            // Inlet absolute pressure KPa
+  P2Abs: number;            // Outlet absolute pressure KPa
+  deltaP: number;           // Pressure differential KPa
+  T1: number;               // Inlet absolute temperature K
+  tempCelsius: number;      // Inlet temperature ℃
+  densityKgM3: number;      // Unified density Kg/m3
+  flowingDensityKgM3: number; // Density at inlet conditions Kg/m3 (gas Kg/Nm3 converted)
+  d: number;                // Valve seat diameter mm
+  DN: number;               // Valve nominal diameter mm
+  D1: number;               // Upstream pipe inner diameter mm
+  D2: number;               // Downstream pipe inner diameter mm
+  hasFittings: boolean;     // Pipe differs from valve DN
+  kinematicViscosity: number; // Kinematic viscosity m²/s
+  Fd: number;               // Valve style modifier
+  Z: number;                // Compressibility factor
+  Z2: number;               // Outlet compressibility factor (at T1)
+  gamma: number;            // Specific heat ratio
+  Pc: number;               // Critical pressure MPa
+}
 
 /**
  * Kv Calculator Class
@@ -45,53 +113,20 @@ export class KvCalculator {
   /**
    * Comprehensive Kv calculation
    */
-  calculate(input: KvInput): KvResult {
+  calculate(kvInput: KvInput): KvResult {
+    if (kvInput.travelCoefficients) {
+      return this.iterateTravelCoefficients(kvInput);
+    }
+
+    const input = this.applyFluidData(kvInput);
     const errors: string[] = [];
-    const warnings: string[] = [];
+    const warnings: string[] = [...(input.propertyWarnings ?? [])];
 
     // 1. Unit conversion
-    const P1Abs = convertPressureToKPaAbs(input.P1, input.pressureUnit);
-    const P2Abs = convertPressureToKPaAbs(input.P2, input.pressureUnit);
-    const deltaP = P1Abs - P2Abs;
-    const T1 = convertTemperatureToK(input.temperature, input.tempUnit);
-    const tempCelsius = convertTemperatureToCelsius(input.temperature, input.tempUnit);
-
-    // Pressure validation
-    if (P1Abs <= 0) errors.push('Inlet pressure must be greater than 0');
-    if (P2Abs < 0) errors.push('Outlet pressure cannot be negative');
-    if (deltaP <= 0) errors.push('Inlet pressure must be greater than outlet pressure');
-
-    // Density conversion
-    const densityKgM3 = convertDensityToKgM3(input.density, input.densityUnit);
-
-    // Valve seat diameter (used in noise, Fd, Reynolds calculations)
-    const d = input.seatSize || input.DN;
-
-    // Fitting correction uses DN (valve body diameter), not seatSize.
-    // Excel: sumK/FP/FLP use DN vs pipe inner diameter.
-    // When no pipe specs are provided, D1=D2=DN → no fittings.
-    const DN = input.DN;
-    const D1 = input.D1w && input.D1T ? getPipeInnerDiameter(DN, input.D1w, input.D1T) : DN;
-    const D2 = input.D2w && input.D2T ? getPipeInnerDiameter(DN, input.D2w, input.D2T) : DN;
-
-    // Fittings exist when pipe inner diameter differs from valve DN
-    const hasFittings = DN !== D1 || DN !== D2;
-
-    // Viscosity conversion
-    const kinematicViscosity = input.viscosity
-      ? convertViscosityToM2S(
-          input.viscosity,
-          input.viscosityUnit || 'cP',
-          input.viscosityType || 'Viscosity',
-          densityKgM3
-        )
-      : CONSTANTS.DEFAULT.VISCOSITY / 1000 / densityKgM3; // Default 1cP
-
-    // Default values
-    const Fd = input.Fd ?? CONSTANTS.DEFAULT.FD;
-    const Z = input.Z ?? CONSTANTS.DEFAULT.Z;
-    const gamma = input.gamma ?? CONSTANTS.DEFAULT.GAMMA;
-    const Pc = input.Pc ?? CONSTANTS.WATER_CRITICAL_PRESSURE;
+    const {
+      P1Abs, P2Abs, deltaP, T1, tempCelsius, densityKgM3, flowingDensityKgM3,
+      d, DN, D1, D2, hasFittings, kinematicViscosity, Fd, Z, Z2, gamma, Pc
+    } = this.resolveConditions(input, errors);
 
     // 2. Calculate based on fluid type
     let calculatedKv: number;
@@ -120,17 +155,24 @@ export class KvCalculator {
     let massFlowKgh: number | undefined;
     let normalFlowNm3h: number | undefined;
     let gasIntermediateValues: Partial<IntermediateValues> = {};
+    let twoPhaseIntermediateValues: Partial<IntermediateValues> = {};
+
+    // Iterative mode converges Ci instead of assuming 1.3 × ratedKv
+    const iterative = input.sizingMode === 'Iterative';
+    let ciIteration: CiIterationResult | undefined;
 
     switch (input.fluidType) {
       case 'Liquid': {
         // Liquid calculation
         relativeDensity = calcRelativeDensity(densityKgM3);
-        Pv = calcSaturationPressure(tempCelsius);
+        ({ Pv, saturationTemp } = this.resolveVaporPressure(input, tempCelsius, P1Abs));
         FF = calcFF(Pv, Pc);
-        saturationTemp = calcSaturationTemperature(P1Abs);
+        if (input.vaporPressure !== undefined && input.Pc === undefined) {
+          warnings.push('Critical pressure Pc not given; water critical pressure used for FF');
+        }
 
         // Temperature validation
-        if (tempCelsius > saturationTemp) {
+        if (saturationTemp !== undefined && tempCelsius > saturationTemp) {
           errors.push('Medium temperature is above saturation temperature');
         }
 
@@ -146,39 +188,59 @@ export class KvCalculator {
         // Use simplified calculation for initial Kv for Reynolds number calculation
         const C_initial = volumeFlowM3h / CONSTANTS.N1 * Math.sqrt(relativeDensity / deltaP);
 
-        // Calculate Reynolds number
-        const reynoldsResult = calculateReynolds({
-          Q: volumeFlowM3h,
-          nu: kinematicViscosity,
-          C: C_initial,
-          FL: input.FL,
-          Fd,
-          d,
-          D: D1,
-          sumK
-        });
+        // Reynolds number at C, then liquid Kv — fitting correction uses DN
+        const Q = volumeFlowM3h;
+        const liquidPv = Pv;
+        const sizeLiquid = (C: number, Ci?: number) => {
+          const reynolds = calculateReynolds({
+            Q,
+            nu: kinematicViscosity,
+            C,
+            FL: input.FL,
+            Fd,
+            d,
+            D: D1,
+            sumK
+          });
+          const liquid = calculateLiquidKv({
+            Q,
+            P1: P1Abs,
+            P2: P2Abs,
+            density: densityKgM3,
+            Pv: liquidPv,
+            Pc,
+            FL: input.FL,
+            d: DN,
+            D1,
+            D2,
+            Fd,
+            ratedKv: input.ratedKv,
+            FR: reynolds.FR,
+            Ci
+          });
+          return { reynolds, liquid };
+        };
+
+        let sized = sizeLiquid(C_initial);
+        if (iterative) {
+          // Reynolds number is evaluated at Ci as well
+          ciIteration = this.iterateCi(input, Ci => {
+            sized = sizeLiquid(Ci, Ci);
+            return {
+              FP: sized.liquid.intermediate.FP,
+              FLP: sized.liquid.intermediate.FLP,
+              FR: sized.reynolds.FR,
+              kv: sized.liquid.kv
+            };
+          });
+        }
+
+        const { reynolds: reynoldsResult, liquid: liquidResult } = sized;
         Rev = reynoldsResult.Rev;
         FR = reynoldsResult.FR;
         lambda = reynoldsResult.lambda;
         turbulenceState = reynoldsResult.turbulenceState;
 
-        // Liquid Kv calculation — fitting correction uses DN
-        const liquidResult = calculateLiquidKv({
-          Q: volumeFlowM3h,
-          P1: P1Abs,
-          P2: P2Abs,
-          density: densityKgM3,
-          Pv,
-          Pc,
-          FL: input.FL,
-          d: DN,
-          D1,
-          D2,
-          Fd,
-          ratedKv: input.ratedKv,
-          FR
-        });
-
         calculatedKv = liquidResult.kv;
         flowState = liquidResult.flowState;
         fluidState = liquidResult.fluidState;
@@ -193,10 +255,7 @@ export class KvCalculator {
 
       case 'Gas': {
         // Gas standard density: convert actual Kg/m3 → standard Kg/Nm3
-        // Excel formula: ρ_Nm3 = ρ_actual × T1 × 101.325 / P1 / 273.15
-        const rhoN = input.densityUnit === 'Kg/Nm3'
-          ? input.density
-          : input.density * T1 * CONSTANTS.STD_PRESSURE / (P1Abs * CONSTANTS.STD_TEMP);
+        const rhoN = this.calcStandardGasDensity(input, P1Abs, T1, Z);
 
         // Flow conversion
         normalFlowNm3h = convertGasFlowToNm3h(
@@ -204,14 +263,15 @@ export class KvCalculator {
           input.flowUnit,
           rhoN,
           P1Abs,
-          T1
+          T1,
+          Z
         );
 
         // Molecular weight
         const M = input.molecularWeight || (rhoN * 22.4);
 
         // Gas Kv calculation — fitting correction uses DN
-        const gasResult = calculateGasKv({
+        const gasParams = {
           Qn: normalFlowNm3h,
           P1: P1Abs,
           P2: P2Abs,
@@ -224,7 +284,39 @@ export class KvCalculator {
           D1,
           D2,
           ratedKv: input.ratedKv
-        });
+        };
+
+        // Reynolds number uses the actual volume flow at inlet conditions
+        const actualFlowM3h = normalFlowNm3h * rhoN / flowingDensityKgM3;
+        const sizeGas = (Ci?: number) => {
+          const turbulent = calculateGasKv({ ...gasParams, Ci });
+          const reynolds = calculateReynolds({
+            Q: actualFlowM3h,
+            nu: kinematicViscosity,
+            C: Ci ?? turbulent.kv,
+            FL: input.FL,
+            Fd,
+            d,
+            D: D1,
+            sumK
+          });
+          const gas = reynolds.FR < 1 ? calculateGasKv({ ...gasParams, Ci, FR: reynolds.FR }) : turbulent;
+          return { reynolds, gas };
+        };
+
+        let sizedGas = sizeGas();
+        if (iterative) {
+          ciIteration = this.iterateCi(input, Ci => {
+            sizedGas = sizeGas(Ci);
+            return { FP: sizedGas.gas.intermediate.FP, FR: sizedGas.reynolds.FR, kv: sizedGas.gas.kv };
+          });
+        }
+
+        const { reynolds: gasReynolds, gas: gasResult } = sizedGas;
+        Rev = gasReynolds.Rev;
+        FR = gasReynolds.FR;
+        lambda = gasReynolds.lambda;
+        turbulenceState = gasReynolds.turbulenceState;
 
         calculatedKv = gasResult.kv;
         flowState = gasResult.flowState;
@@ -243,16 +335,27 @@ export class KvCalculator {
           kvChokedWithFitting: gasResult.intermediate.kvChokedWithFitting,
           kvLaminar: gasResult.intermediate.kvLaminar,
           M,
+          Z,
+          Z2
         };
+
+        if (input.Z === undefined && (input.Tc === undefined || input.Pc === undefined) && P1Abs > CONSTANTS.THRESHOLD.IDEAL_GAS_PRESSURE) {
+          warnings.push(
+            `Compressibility factor defaults to Z = ${Z} at P1 = ${P1Abs.toFixed(0)} KPa; ` +
+            'give Z or critical properties (Tc, Pc) for real-gas sizing'
+          );
+        }
         break;
       }
 
       case 'Steam': {
+        warnings.push(...this.checkSteamDensity(P1Abs, T1, densityKgM3, kvInput.density !== undefined));
+
         // Flow conversion
         massFlowKgh = convertSteamFlowToKgh(input.flowRate, input.flowUnit, densityKgM3);
 
         // Steam Kv calculation — fitting correction uses DN
-        const steamResult = calculateSteamKv({
+        const steamParams = {
           W: massFlowKgh,
           P1: P1Abs,
           P2: P2Abs,
@@ -264,7 +367,39 @@ export class KvCalculator {
           D1,
           D2,
           ratedKv: input.ratedKv
-        });
+        };
+
+        // Reynolds number uses the actual volume flow at inlet conditions
+        const steamFlowM3h = massFlowKgh / densityKgM3;
+        const sizeSteam = (Ci?: number) => {
+          const turbulent = calculateSteamKv({ ...steamParams, Ci });
+          const reynolds = calculateReynolds({
+            Q: steamFlowM3h,
+            nu: kinematicViscosity,
+            C: Ci ?? turbulent.kv,
+            FL: input.FL,
+            Fd,
+            d,
+            D: D1,
+            sumK
+          });
+          const steam = reynolds.FR < 1 ? calculateSteamKv({ ...steamParams, Ci, FR: reynolds.FR }) : turbulent;
+          return { reynolds, steam };
+        };
+
+        let sizedSteam = sizeSteam();
+        if (iterative) {
+          ciIteration = this.iterateCi(input, Ci => {
+            sizedSteam = sizeSteam(Ci);
+            return { FP: sizedSteam.steam.intermediate.FP, FR: sizedSteam.reynolds.FR, kv: sizedSteam.steam.kv };
+          });
+        }
+
+        const { reynolds: steamReynolds, steam: steamResult } = sizedSteam;
+        Rev = steamReynolds.Rev;
+        FR = steamReynolds.FR;
+        lambda = steamReynolds.lambda;
+        turbulenceState = steamReynolds.turbulenceState;
 
         calculatedKv = steamResult.kv;
         flowState = steamResult.flowState;
@@ -276,16 +411,109 @@ export class KvCalculator {
         break;
       }
 
+      case 'Two-phase (Liquid+Gas)':
+      case 'Two-phase (Liquid+Steam)': {
+        if (input.gasFlowRate === undefined || input.gasDensity === undefined) {
+          throw new Error('Two-phase calculation requires gasFlowRate and gasDensity');
+        }
+        const isSteam = input.fluidType === 'Two-phase (Liquid+Steam)';
+
+        // Liquid phase
+        relativeDensity = calcRelativeDensity(densityKgM3);
+        Pv = this.resolveVaporPressure(input, tempCelsius, P1Abs).Pv;
+        FF = calcFF(Pv, Pc);
+        volumeFlowM3h = convertLiquidFlowToM3h(input.flowRate, input.flowUnit, densityKgM3);
+        const liquidMassFlowKgh = volumeFlowM3h * densityKgM3;
+
+        // Gas/vapor phase: standard density Kg/Nm3 → actual inlet density
+        const gasDensityUnit = input.gasDensityUnit || 'Kg/m3';
+        const gasDensityKgM3 = gasDensityUnit === 'Kg/Nm3'
+          ? convertGasDensityToActual(input.gasDensity, P1Abs, T1)
+          : convertDensityToKgM3(input.gasDensity, gasDensityUnit);
+
+        const gasFlowUnit = input.gasFlowUnit || 'Kg/h';
+        let gasMassFlowKgh: number;
+        if (isSteam) {
+          gasMassFlowKgh = convertSteamFlowToKgh(input.gasFlowRate, gasFlowUnit, gasDensityKgM3);
+        } else {
+          const rhoN = gasDensityUnit === 'Kg/Nm3'
+            ? input.gasDensity
+            : gasDensityKgM3 * T1 * CONSTANTS.STD_PRESSURE / (P1Abs * CONSTANTS.STD_TEMP);
+          normalFlowNm3h = convertGasFlowToNm3h(input.gasFlowRate, gasFlowUnit, rhoN, P1Abs, T1);
+          gasMassFlowKgh = normalFlowNm3h * rhoN;
+        }
+        massFlowKgh = liquidMassFlowKgh + gasMassFlowKgh;
+
+        // Two-phase Kv calculation — fitting correction uses DN
+        const twoPhasePv = Pv;
+        const sizeTwoPhase = (Ci?: number) => calculateTwoPhaseKv({
+          Wf: liquidMassFlowKgh,
+          Wg: gasMassFlowKgh,
+          P1: P1Abs,
+          P2: P2Abs,
+          rhoF: densityKgM3,
+          rhoG: gasDensityKgM3,
+          Pv: twoPhasePv,
+          Pc,
+          FL: input.FL,
+          gamma,
+          xT: input.XT || 0.72,
+          d: DN,
+          D1,
+          D2,
+          ratedKv: input.ratedKv,
+          method: input.twoPhaseMethod,
+          Ci
+        });
+
+        let twoPhaseResult = sizeTwoPhase();
+        if (iterative) {
+          ciIteration = this.iterateCi(input, Ci => {
+            twoPhaseResult = sizeTwoPhase(Ci);
+            return {
+              FP: twoPhaseResult.intermediate.FP,
+              FLP: twoPhaseResult.intermediate.FLP,
+              FR: 1,
+              kv: twoPhaseResult.kv
+            };
+          });
+        }
+
+        calculatedKv = twoPhaseResult.kv;
+        flowState = twoPhaseResult.flowState;
+        usedFormula = twoPhaseResult.usedFormula;
+        x = twoPhaseResult.intermediate.x;
+        Fgamma = twoPhaseResult.intermediate.Fgamma;
+        Y = twoPhaseResult.intermediate.Y;
+        FP = twoPhaseResult.intermediate.FP;
+        FLP = twoPhaseResult.intermediate.FLP;
+
+        twoPhaseIntermediateValues = {
+          twoPhaseMethod: twoPhaseResult.method,
+          mixtureQuality: twoPhaseResult.intermediate.quality,
+          effectiveDensity: twoPhaseResult.intermediate.rhoE,
+          gasDensityKgM3,
+          liquidMassFlowKgh,
+          gasMassFlowKgh
+        };
+        break;
+      }
+
       default:
         throw new Error(`Unsupported fluid type: ${input.fluidType}`);
     }
 
+    if (ciIteration && !ciIteration.converged) {
+      warnings.push(`Ci iteration did not converge within ${ciIteration.iterations} iterations`);
+    }
+
     // 3. Calculate valve opening
     const valveOpening = calcValveOpening(
       calculatedKv,
       input.ratedKv,
       input.rangeability,
-      input.flowChar
+      input.flowChar,
+      input.characteristicTable
     );
 
     const openingValidation = validateOpening(valveOpening);
@@ -293,20 +521,28 @@ export class KvCalculator {
       warnings.push(openingValidation.warning);
     }
 
-    // 4. Calculate outlet velocity (through outlet pipe, use DN not seat diameter)
-    let outletVelocity = 0;
-    if (input.fluidType === 'Liquid' && volumeFlowM3h) {
-      outletVelocity = calcVelocity(volumeFlowM3h, input.DN);
-    } else if (input.fluidType === 'Gas' && normalFlowNm3h) {
-      // Gas actual volume flow rate
-      const actualFlowM3h = normalFlowNm3h * CONSTANTS.STD_PRESSURE * T1 / (P2Abs * CONSTANTS.STD_TEMP);
-      outletVelocity = calcVelocity(actualFlowM3h, input.DN);
-    } else if (input.fluidType === 'Steam' && massFlowKgh) {
-      const volumeFlow = massFlowKgh / densityKgM3;
-      outletVelocity = calcVelocity(volumeFlow, input.DN);
+    // Cavitation assessment and internals recommendation (liquid)
+    let cavitation: CavitationAssessment | undefined;
+    if (input.fluidType === 'Liquid' && Pv !== undefined && P1Abs > P2Abs && P1Abs > Pv) {
+      try {
+        cavitation = assessCavitation({
+          P1: P1Abs,
+          P2: P2Abs,
+          Pv,
+          FL: input.FL,
+          Fd,
+          C: calculatedKv,
+          limits: input.cavitationLimits
+        });
+        if (!isInternalsAdequate(input.valveInternalsType ?? 'Standard', cavitation.recommendedInternals)) {
+          warnings.push(cavitation.message);
+        }
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
     }
 
-    // 5. Assemble result
+    // 4. Assemble result
     const intermediate: IntermediateValues = {
       P1Abs,
       P2Abs,
@@ -333,9 +569,13 @@ export class KvCalculator {
       Rev,
       FR,
       lambda,
-      ...gasIntermediateValues
+      ...gasIntermediateValues,
+      ...twoPhaseIntermediateValues
     };
 
+    // 5. Calculate outlet velocity (through outlet pipe, use DN not seat diameter)
+    const outletVelocity = this.calcOutletVelocity(input.fluidType, input.DN, intermediate);
+
     return {
       calculatedKv,
       calculatedCv: kvToCv(calculatedKv),
@@ -344,81 +584,409 @@ export class KvCalculator {
       turbulenceState,
       fluidState,
       outletVelocity,
+      cavitation,
       intermediate,
       usedFormula,
       hasFittings,
+      ciIteration,
+      coefficients: { FL: input.FL, XT: input.XT, Fd },
       errors: errors.length > 0 ? errors : undefined,
       warnings: warnings.length > 0 ? warnings : undefined
     };
   }
 
   /**
-   * Calculate noise
-   * @param input Original input parameters
-   * @param result Calculated Kv result
-   * @returns Noise level dBA
+   * Inverse sizing: achievable flow rate at a given valve opening
+   * Kv at the opening follows the inherent characteristic; choked flow
+   * limits the flow exactly as in calculate().
    */
-  calculateNoise(input: KvInput, result: KvResult): NoiseResult | null {
-    try {
-      // Get pipe specification: prefer user-specified D2w/D2T, fallback to PIPE_SPECS[DN]
-      let outerDiameter: number;
-      let wallThickness: number;
-      if (input.D2w && input.D2T) {
-        outerDiameter = input.D2w;
-        wallThickness = input.D2T;
-      } else {
-        const pipeSpec = PIPE_SPECS[input.DN];
-        if (!pipeSpec) {
-          return null;
+  calculateFlow(flowInput: FlowRateInput): FlowRateResult {
+    // Coefficients at the given opening, no iteration needed
+    const input = this.applyFluidData(this.applyTravelCoefficients(flowInput, flowInput.opening));
+    const errors: string[] = [];
+    const warnings: string[] = [...(input.propertyWarnings ?? [])];
+
+    // 1. Unit conversion
+    const {
+      P1Abs, P2Abs, deltaP, T1, tempCelsius, densityKgM3, flowingDensityKgM3,
+      d, DN, D1, D2, hasFittings, kinematicViscosity, Fd, Z, gamma, Pc
+    } = this.resolveConditions(input, errors);
+
+    if (input.opening < 0 || input.opening > 100) {
+      errors.push('Valve opening must be between 0% and 100%');
+    }
+
+    // 2. Available Kv at the given opening
+    const availableKv = calcKvAtOpening(
+      input.opening, input.ratedKv, input.rangeability, input.flowChar, input.characteristicTable
+    );
+
+    // Reynolds number at an actual volume flow m³/h through the available Kv
+    const reynoldsAt = (Q: number) => calculateReynolds({
+      Q,
+      nu: kinematicViscosity,
+      C: availableKv,
+      FL: input.FL,
+      Fd,
+      d,
+      D: D1,
+      sumK: calcSumK(DN, D1, D2)
+    });
+
+    let flowRate: number;
+    let flowState: FlowState = 'Non-choked';
+    let turbulenceState: TurbulenceState = 'Turbulent';
+    let fluidState: FluidState | undefined;
+    let usedFormula: string;
+    let FP: number;
+    let FLP = calcFLP(input.FL, calcSumK(DN, D1, D2), input.ratedKv * 1.3, DN);
+    let sumK: number;
+    let Rev = 0;
+    let FR = 1;
+    let lambda = 0;
+    let relativeDensity: number | undefined;
+    let FF: number | undefined;
+    let Pv: number | undefined;
+    let xF: number | undefined;
+    let x: number | undefined;
+    let Fgamma: number | undefined;
+    let Y: number | undefined;
+    let xTP: number | undefined;
+    let saturationTemp: number | undefined;
+    let volumeFlowM3h: number | undefined;
+    let massFlowKgh: number | undefined;
+    let normalFlowNm3h: number | undefined;
+    let M: number | undefined;
+
+    switch (input.fluidType) {
+      case 'Liquid': {
+        relativeDensity = calcRelativeDensity(densityKgM3);
+        ({ Pv, saturationTemp } = this.resolveVaporPressure(input, tempCelsius, P1Abs));
+        FF = calcFF(Pv, Pc);
+
+        if (saturationTemp !== undefined && tempCelsius > saturationTemp) {
+          errors.push('Medium temperature is above saturation temperature');
+        }
+        if (P1Abs <= Pv) {
+          errors.push('Inlet pressure is below vapor pressure');
         }
-        [outerDiameter, wallThickness] = pipeSpec;
-      }
 
-      const tp = wallThickness;  // Wall thickness mm
-      const d = input.seatSize || input.DN;  // Seat diameter mm
-      // Noise pipe inner diameter: when seat size equals DN (no reducer),
-      // use d as Di to match Excel behavior; otherwise use actual pipe ID
-      const seatEqualsNominal = !input.seatSize || input.seatSize === input.DN;
-      const Di = seatEqualsNominal ? d : (outerDiameter - 2 * wallThickness);
+        const liquidParams = {
+          kv: availableKv,
+          P1: P1Abs,
+          P2: P2Abs,
+          density: densityKgM3,
+          Pv,
+          Pc,
+          FL: input.FL,
+          d: DN,
+          D1,
+          D2,
+          Fd,
+          ratedKv: input.ratedKv
+        };
 
-      // Calculate mass flow
-      let massFlow = result.intermediate.massFlowKgh || 0;
+        const { result: liquidResult, reynolds } = this.settleReynolds(
+          liquidFR => calculateLiquidFlow({ ...liquidParams, FR: liquidFR }),
+          result => result.Q,
+          reynoldsAt
+        );
+        Rev = reynolds.Rev;
+        FR = reynolds.FR;
+        lambda = reynolds.lambda;
+        turbulenceState = reynolds.turbulenceState;
 
-      // For gas, calculate mass flow from standard volume flow
-      if (input.fluidType === 'Gas' && result.intermediate.normalFlowNm3h) {
-        // At standard density: massFlow = Qn * rhoN
-        // Convert actual Kg/m3 → standard Kg/Nm3: ρ_Nm3 = ρ_actual × T1 × STD_P / (P1 × STD_T)
-        const rhoN = input.densityUnit === 'Kg/Nm3'
-          ? input.density
-          : input.density * result.intermediate.T1 * CONSTANTS.STD_PRESSURE / (result.intermediate.P1Abs * CONSTANTS.STD_TEMP);
-        massFlow = result.intermediate.normalFlowNm3h * rhoN;
+        volumeFlowM3h = liquidResult.Q;
+        massFlowKgh = volumeFlowM3h * densityKgM3;
+        flowRate = convertLiquidFlowFromM3h(volumeFlowM3h, input.flowUnit, densityKgM3);
+        flowState = liquidResult.flowState;
+        fluidState = liquidResult.fluidState;
+        usedFormula = liquidResult.usedFormula;
+        xF = liquidResult.intermediate.xF;
+        FP = liquidResult.intermediate.FP;
+        FLP = liquidResult.intermediate.FLP;
+        sumK = liquidResult.intermediate.sumK;
+        break;
       }
 
-      // For liquid, calculate from volume flow
-      if (input.fluidType === 'Liquid' && result.intermediate.volumeFlowM3h && massFlow === 0) {
-        massFlow = result.intermediate.volumeFlowM3h * result.intermediate.densityKgM3;
-      }
+      case 'Gas': {
+        const rhoN = this.calcStandardGasDensity(input, P1Abs, T1, Z);
+        M = input.molecularWeight || (rhoN * 22.4);
 
-      // For gas/steam noise calculation, convert standard density to operating density
-      // ρ_operating = ρ_standard × P1 × T_std / (P_std × T1)
-      let noiseDensity = result.intermediate.densityKgM3;
-      if ((input.fluidType === 'Gas' || input.fluidType === 'Steam') && input.densityUnit === 'Kg/Nm3') {
-        noiseDensity = convertGasDensityToActual(
-          result.intermediate.densityKgM3,
-          result.intermediate.P1Abs,
-          result.intermediate.T1
+        const gasParams = {
+          kv: availableKv,
+          P1: P1Abs,
+          P2: P2Abs,
+          T1,
+          M,
+          Z,
+          gamma,
+          xT: input.XT || 0.72,
+          d: DN,
+          D1,
+          D2
+        };
+
+        // Reynolds number uses the actual volume flow at inlet conditions
+        const { result: gasResult, reynolds } = this.settleReynolds(
+          gasFR => calculateGasFlow({ ...gasParams, FR: gasFR }),
+          result => result.Qn * rhoN / flowingDensityKgM3,
+          reynoldsAt
         );
+        Rev = reynolds.Rev;
+        FR = reynolds.FR;
+        lambda = reynolds.lambda;
+        turbulenceState = reynolds.turbulenceState;
+
+        normalFlowNm3h = gasResult.Qn;
+        flowRate = convertGasFlowFromNm3h(normalFlowNm3h, input.flowUnit, rhoN, P1Abs, T1, Z);
+        flowState = gasResult.flowState;
+        usedFormula = gasResult.usedFormula;
+        x = gasResult.intermediate.x;
+        Fgamma = gasResult.intermediate.Fgamma;
+        Y = gasResult.intermediate.Y;
+        xTP = gasResult.intermediate.xTP;
+        FP = gasResult.intermediate.FP;
+        sumK = gasResult.intermediate.sumK;
+        break;
       }
 
-      // Determine molecular weight for noise calculation
-      // Steam: M = 18.015 (water vapor)
-      // Gas: from intermediate (calculated as rhoN * 22.4) or user input
-      const noiseM = input.noiseMolecularWeight
-        || result.intermediate.M
-        || input.molecularWeight
-        || (input.fluidType === 'Steam' ? 18.015 : undefined);
+      case 'Steam': {
+        warnings.push(...this.checkSteamDensity(P1Abs, T1, densityKgM3, flowInput.density !== undefined));
 
-      // Build noise calculation input
+        const steamParams = {
+          kv: availableKv,
+          P1: P1Abs,
+          P2: P2Abs,
+          T1,
+          rho1: densityKgM3,
+          gamma,
+          xT: input.XT || 0.72,
+          d: DN,
+          D1,
+          D2,
+          ratedKv: input.ratedKv
+        };
+
+        // Reynolds number uses the actual volume flow at inlet conditions
+        const { result: steamResult, reynolds } = this.settleReynolds(
+          steamFR => calculateSteamFlow({ ...steamParams, FR: steamFR }),
+          result => result.W / densityKgM3,
+          reynoldsAt
+        );
+        Rev = reynolds.Rev;
+        FR = reynolds.FR;
+        lambda = reynolds.lambda;
+        turbulenceState = reynolds.turbulenceState;
+
+        massFlowKgh = steamResult.W;
+        flowRate = convertSteamFlowFromKgh(massFlowKgh, input.flowUnit, densityKgM3);
+        flowState = steamResult.flowState;
+        usedFormula = steamResult.usedFormula;
+        x = steamResult.intermediate.x;
+        Fgamma = steamResult.intermediate.Fgamma;
+        Y = steamResult.intermediate.Y;
+        xTP = steamResult.intermediate.xTP;
+        FP = steamResult.intermediate.FP;
+        sumK = steamResult.intermediate.sumK;
+        break;
+      }
+
+      default:
+        throw new Error(`Flow rate calculation does not support fluid type: ${input.fluidType}`);
+    }
+
+    const openingValidation = validateOpening(input.opening);
+    if (openingValidation.warning) {
+      warnings.push(openingValidation.warning);
+    }
+
+    // 3. Assemble result
+    const intermediate: IntermediateValues = {
+      P1Abs,
+      P2Abs,
+      deltaP,
+      T1,
+      saturationTemp,
+      densityKgM3,
+      relativeDensity,
+      volumeFlowM3h,
+      massFlowKgh,
+      normalFlowNm3h,
+      kinematicViscosity,
+      Pv,
+      FF,
+      xF,
+      x,
+      Fgamma,
+      Y,
+      xTP,
+      M,
+      D1,
+      D2,
+      FP,
+      FLP,
+      sumK,
+      Rev,
+      FR,
+      lambda
+    };
+
+    return {
+      flowRate,
+      flowUnit: input.flowUnit,
+      calculatedKv: availableKv,
+      calculatedCv: kvToCv(availableKv),
+      valveOpening: input.opening,
+      flowState,
+      turbulenceState,
+      fluidState,
+      outletVelocity: this.calcOutletVelocity(input.fluidType, input.DN, intermediate),
+      intermediate,
+      usedFormula,
+      hasFittings,
+      coefficients: {
+        FL: input.FL,
+        XT: input.XT,
+        Fd,
+        travel: flowInput.travelCoefficients ? input.opening : undefined
+      },
+      errors: errors.length > 0 ? errors : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  /**
+   * Inverse sizing: outlet pressure at a given flow and valve opening
+   * Y, FP, FR and the choked limit all depend on ΔP, so P2 is solved by
+   * bisection on calculate() until the required Kv equals the Kv available
+   * at the opening. Required Kv falls monotonically as P2 drops and levels
+   * off once the flow chokes; if that plateau is still above the available
+   * Kv the flow cannot be passed and the result is flagged non-converged.
+   */
+  calculatePressureDrop(input: PressureDropInput): PressureDropResult {
+    // Coefficients at the given opening, no iteration needed
+    const { opening, maxIterations, tolerance, ...processInput } = this.applyTravelCoefficients(input, input.opening);
+    const P1Abs = convertPressureToKPaAbs(input.P1, input.pressureUnit);
+    const targetKv = calcKvAtOpening(
+      opening, input.ratedKv, input.rangeability, input.flowChar, input.characteristicTable
+    );
+    const solverTolerance = tolerance ?? CONSTANTS.THRESHOLD.TOLERANCE;
+
+    const evaluate = (P2Abs: number): KvResult => this.calculate({
+      ...processInput,
+      P2: convertPressureFromKPaAbs(P2Abs, input.pressureUnit)
+    });
+
+    // Search between full vacuum downstream and (almost) no pressure drop
+    const solution = solveBisection(
+      P2Abs => evaluate(P2Abs).calculatedKv,
+      targetKv,
+      0,
+      P1Abs * (1 - 1e-9),
+      { tolerance: solverTolerance, maxIterations }
+    );
+
+    const result = evaluate(solution.root);
+    const warnings = result.warnings ? [...result.warnings] : [];
+    if (!solution.converged) {
+      warnings.push(result.calculatedKv > targetKv
+        ? 'Flow exceeds valve capacity at this opening, even at the choked pressure drop'
+        : 'Pressure drop solver did not converge');
+    }
+
+    return {
+      ...result,
+      coefficients: input.travelCoefficients ? { ...result.coefficients!, travel: opening } : result.coefficients,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      P2: convertPressureFromKPaAbs(solution.root, input.pressureUnit),
+      requiredDeltaP: P1Abs - solution.root,
+      convergence: {
+        converged: solution.converged,
+        iterations: solution.iterations,
+        residual: solution.residual,
+        tolerance: solverTolerance,
+        method: 'Bisection'
+      }
+    };
+  }
+
+  /**
+   * Calculate noise
+   * @param input Original input parameters
+   * @param result Calculated Kv result
+   * @returns Noise level dBA
+   */
+  calculateNoise(kvInput: KvInput, result: KvResult): NoiseResult | null {
+    try {
+      const input = this.applyFluidData(kvInput);
+
+      // Get pipe specification: prefer user-specified D2w/D2T, then the schedule table, fallback to PIPE_SPECS[DN]
+      let outerDiameter: number;
+      let wallThickness: number;
+      if (input.D2w && input.D2T) {
+        outerDiameter = input.D2w;
+        wallThickness = input.D2T;
+      } else if (input.pipeSchedule) {
+        const scheduleSpec = getPipeSpec(input.DN, input.pipeSchedule, input.pipeStandard);
+        if (!scheduleSpec) {
+          return null;
+        }
+        ({ outerDiameter, wallThickness } = scheduleSpec);
+      } else {
+        const pipeSpec = PIPE_SPECS[input.DN];
+        if (!pipeSpec) {
+          return null;
+        }
+        [outerDiameter, wallThickness] = pipeSpec;
+      }
+
+      const tp = wallThickness;  // Wall thickness mm
+      const d = input.seatSize || input.DN;  // Seat diameter mm
+      // Noise pipe inner diameter: when seat size equals DN (no reducer),
+      // use d as Di to match Excel behavior; otherwise, or with an outlet
+      // expander, use actual pipe ID
+      const seatEqualsNominal = !input.seatSize || input.seatSize === input.DN;
+      const pipeID = outerDiameter - 2 * wallThickness;
+      const Di = seatEqualsNominal && !input.outletExpander ? d : pipeID;
+
+      // Calculate mass flow
+      let massFlow = result.intermediate.massFlowKgh || 0;
+
+      // For gas, calculate mass flow from standard volume flow
+      if (input.fluidType === 'Gas' && result.intermediate.normalFlowNm3h) {
+        // At standard density: massFlow = Qn * rhoN
+        const { P1Abs, T1, Z } = result.intermediate;
+        const rhoN = this.calcStandardGasDensity(input, P1Abs, T1, Z ?? CONSTANTS.DEFAULT.Z);
+        massFlow = result.intermediate.normalFlowNm3h * rhoN;
+      }
+
+      // For liquid, calculate from volume flow
+      if (input.fluidType === 'Liquid' && result.intermediate.volumeFlowM3h && massFlow === 0) {
+        massFlow = result.intermediate.volumeFlowM3h * result.intermediate.densityKgM3;
+      }
+
+      // For gas/steam noise calculation, convert standard density to operating density
+      // ρ_operating = ρ_standard × P1 × T_std / (P_std × T1)
+      let noiseDensity = result.intermediate.densityKgM3;
+      if ((input.fluidType === 'Gas' || input.fluidType === 'Steam') && input.densityUnit === 'Kg/Nm3') {
+        noiseDensity = convertGasDensityToActual(
+          result.intermediate.densityKgM3,
+          result.intermediate.P1Abs,
+          result.intermediate.T1,
+          result.intermediate.Z
+        );
+      }
+
+      // Determine molecular weight for noise calculation
+      // Steam: M = 18.015 (water vapor)
+      // Gas: from intermediate (calculated as rhoN * 22.4) or user input
+      const noiseM = input.noiseMolecularWeight
+        || result.intermediate.M
+        || input.molecularWeight
+        || (input.fluidType === 'Steam' ? 18.015 : undefined);
+
+      // Build noise calculation input
       const noiseInput: NoiseInput = {
         fluidType: input.fluidType === 'Steam' ? 'Steam' : (input.fluidType === 'Gas' ? 'Gas' : 'Liquid'),
         P1: result.intermediate.P1Abs,
@@ -428,24 +996,33 @@ export class KvCalculator {
         massFlow,
         volumeFlow: result.intermediate.volumeFlowM3h,
         density: noiseDensity,
+        // Isothermal expansion with real-gas correction: ρ2 = ρ1 × (P2/P1) × (Z1/Z2)
         density2: input.fluidType === 'Gas'
-          ? noiseDensity * Math.pow(result.intermediate.P2Abs / result.intermediate.P1Abs, 1 / (input.gamma || 1.4))
+          ? noiseDensity * result.intermediate.P2Abs / result.intermediate.P1Abs
+            * (result.intermediate.Z ?? 1) / (result.intermediate.Z2 ?? 1)
           : undefined,
         gamma: input.gamma || CONSTANTS.DEFAULT.GAMMA,
         molecularWeight: noiseM,
         Pv: result.intermediate.Pv,
         Kv: result.calculatedKv,
         Cv: result.calculatedCv,
-        FL: input.FL,
-        xT: input.XT,
-        Fd: input.Fd || CONSTANTS.DEFAULT.FD,
+        // Coefficients used in sizing (looked up at the opening with travelCoefficients)
+        FL: result.coefficients?.FL ?? input.FL,
+        xT: result.coefficients?.XT ?? input.XT,
+        Fd: result.coefficients?.Fd || input.Fd || CONSTANTS.DEFAULT.FD,
         xFz: undefined,  // Will be calculated automatically
         xF: result.intermediate.xF,
         Di,
         tp,
         d,
         dValve: input.DN,
-        pipeMaterial: 'steel'
+        pipeMaterial: input.pipeMaterial ?? 'steel',
+        trim: this.resolveNoiseTrim(input, result),
+        expander: input.outletExpander && input.DN < pipeID ? { inletDiameter: input.DN } : undefined,
+        silencer: input.silencer,
+        spectrumBands: input.noiseSpectrumBands,
+        distance: input.noiseDistance,
+        insulation: input.pipeInsulation
       };
 
       // Select noise calculation method based on fluid type
@@ -481,6 +1058,562 @@ export class KvCalculator {
 
     return result;
   }
+
+  /**
+   * Multi-case calculation
+   * Sizes one valve at several operating points (e.g. min / normal / max)
+   * and summarizes controllability over all of them.
+   */
+  calculateMultiCase(input: MultiCaseInput): MultiCaseResult {
+    if (input.cases.length === 0) {
+      throw new Error('At least one operating case is required');
+    }
+
+    const { MIN_OPENING, MAX_OPENING } = CONSTANTS.THRESHOLD;
+    const cases: CaseResult[] = input.cases.map(({ name, ...process }, i) => ({
+      name: name ?? `Case ${i + 1}`,
+      result: this.calculateWithNoise({ ...process, ...input.valve }, input.includeNoise ?? true)
+    }));
+
+    const kvs = cases.map(c => c.result.calculatedKv);
+    const openings = cases.map(c => c.result.valveOpening);
+    const minKv = Math.min(...kvs);
+    const maxKv = Math.max(...kvs);
+    const minOpening = Math.min(...openings);
+    const maxOpening = Math.max(...openings);
+
+    // Kv ratio is only meaningful when every case has a finite positive Kv
+    const warnings: string[] = [];
+    const invalid = cases.find(c => !(c.result.calculatedKv > 0 && Number.isFinite(c.result.calculatedKv)));
+    const kvRatio = invalid ? undefined : maxKv / minKv;
+    if (invalid) {
+      warnings.push(`Kv ratio undefined: calculated Kv of ${invalid.name} is ${invalid.result.calculatedKv}`);
+    }
+
+    const summary: MultiCaseSummary = {
+      minKv,
+      maxKv,
+      kvRatio,
+      minOpening,
+      maxOpening,
+      openingSpan: maxOpening - minOpening,
+      withinRange: openings.every(o => !isNaN(o) && o >= MIN_OPENING && o <= MAX_OPENING),
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+
+    for (const c of cases) {
+      if (c.result.noise !== undefined && (summary.maxNoise === undefined || c.result.noise > summary.maxNoise)) {
+        summary.maxNoise = c.result.noise;
+        summary.maxNoiseCase = c.name;
+      }
+    }
+
+    return { cases, summary };
+  }
+
+  /**
+   * Valve selection from the catalog
+   * Every candidate is sized at normal (and min/max) flow and ranked by
+   * opening, noise and outlet velocity. Suitable candidates rank first.
+   */
+  selectValve(input: ValveSelectionInput): ValveSelectionResult {
+    const { minFlowRate, maxFlowRate, series, flowChar, ...process } = input;
+
+    const candidates = getValveCandidates(series, flowChar)
+      .map(candidate => this.evaluateCandidate(process, candidate, minFlowRate, maxFlowRate))
+      .sort((a, b) =>
+        Number(b.suitable) - Number(a.suitable)
+        || a.score - b.score
+        || a.candidate.DN - b.candidate.DN
+        || a.candidate.ratedKv - b.candidate.ratedKv
+      );
+
+    return {
+      recommended: candidates.find(c => c.suitable) ?? null,
+      candidates
+    };
+  }
+
+  /**
+   * Size one catalog candidate at each operating point and score it
+   * Score = |normal opening - TARGET_OPENING| plus penalties for openings
+   * outside the MIN/MAX_OPENING band, noise above NOISE_LIMIT and velocity
+   * above the outlet velocity limit.
+   */
+  private evaluateCandidate(
+    process: Omit<KvInput, ValveSelectionField>,
+    candidate: ValveCandidate,
+    minFlowRate?: number,
+    maxFlowRate?: number
+  ): ValveEvaluation {
+    const { MIN_OPENING, MAX_OPENING } = CONSTANTS.THRESHOLD;
+    const { TARGET_OPENING, NOISE_LIMIT, LIQUID_VELOCITY, GAS_VELOCITY } = CONSTANTS.SELECTION;
+    const valveInput: KvInput = {
+      ...process,
+      DN: candidate.DN,
+      seatSize: candidate.trimSize,
+      ratedKv: candidate.ratedKv,
+      flowChar: candidate.flowChar,
+      FL: candidate.FL,
+      XT: candidate.XT,
+      Fd: candidate.Fd,
+      rangeability: candidate.rangeability
+    };
+
+    const issues: string[] = [];
+    let score = 0;
+    let noise: number | undefined;
+    let outletVelocity = 0;
+
+    // A candidate whose sizing throws is reported unsuitable instead of aborting the selection
+    const size = (label: string, flowRate: number): KvResult | undefined => {
+      try {
+        const result = this.calculate({ ...valveInput, flowRate });
+        issues.push(...(result.errors ?? []).map(error => `${label}: ${error}`));
+
+        const opening = result.valveOpening;
+        if (!validateOpening(opening).valid) {
+          issues.push(`${label}: opening ${opening.toFixed(1)}% outside 0-100%`);
+          score += 1000;
+        } else if (opening < MIN_OPENING || opening > MAX_OPENING) {
+          issues.push(`${label}: opening ${opening.toFixed(1)}% outside ${MIN_OPENING}-${MAX_OPENING}%`);
+          score += 2 * Math.max(MIN_OPENING - opening, opening - MAX_OPENING);
+        }
+
+        // Noise only for candidates that can pass the flow
+        if (opening >= 0 && opening <= 100) {
+          result.noise = this.calculateNoise(valveInput, result)?.noiseLevel;
+          if (result.noise !== undefined && (noise === undefined || result.noise > noise)) noise = result.noise;
+        }
+        outletVelocity = Math.max(outletVelocity, result.outletVelocity);
+        return result;
+      } catch (error) {
+        issues.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+        score += 1000;
+        return undefined;
+      }
+    };
+
+    const result = size('Normal', process.flowRate);
+    const minResult = minFlowRate !== undefined ? size('Min', minFlowRate) : undefined;
+    const maxResult = maxFlowRate !== undefined ? size('Max', maxFlowRate) : undefined;
+    if (result) score += Math.abs(result.valveOpening - TARGET_OPENING);
+
+    if (noise !== undefined && noise > NOISE_LIMIT) {
+      issues.push(`Noise ${noise.toFixed(1)} dB(A) above ${NOISE_LIMIT} dB(A)`);
+      score += 2 * (noise - NOISE_LIMIT);
+    }
+
+    const velocityLimit = process.fluidType === 'Liquid' ? LIQUID_VELOCITY : GAS_VELOCITY;
+    if (outletVelocity > velocityLimit) {
+      issues.push(`Outlet velocity ${outletVelocity.toFixed(1)} m/s above ${velocityLimit} m/s`);
+      score += 50 * (outletVelocity / velocityLimit - 1);
+    }
+
+    return {
+      candidate,
+      minOpening: minResult?.valveOpening,
+      normalOpening: result?.valveOpening ?? NaN,
+      maxOpening: maxResult?.valveOpening,
+      noise,
+      outletVelocity,
+      score,
+      suitable: issues.length === 0,
+      issues,
+      result
+    };
+  }
+
+  /**
+   * Fill properties missing from the input from the fluid database
+   * (single fluid by name, or a gas mixture by composition).
+   * Explicit input values always take precedence over database values.
+   */
+  private applyFluidData<T extends Omit<KvInput, 'flowRate' | 'P2'>>(input: T): ResolvedInput<T> {
+    if (input.composition) {
+      if (input.fluidName) {
+        throw new Error('Give either fluidName or composition, not both');
+      }
+      if (input.fluidType !== 'Gas') {
+        throw new Error('Composition is only supported for gas');
+      }
+    }
+
+    // Steam is always water: its properties come from IAPWS-IF97
+    const fluidName = input.fluidName ?? (input.fluidType === 'Steam' ? 'Water' : undefined);
+    if (!fluidName && !input.composition) {
+      if (input.density === undefined) {
+        throw new Error('density is required when fluidName is not given');
+      }
+      if (input.densityUnit === undefined) {
+        throw new Error('densityUnit is required with density when fluidName is not given');
+      }
+      return input as ResolvedInput<T>;
+    }
+
+    // IF97 only gives steam density and gamma: nothing to resolve when both are given
+    const hasDensity = input.density !== undefined;
+    const isSteam = input.fluidType === 'Steam';
+    if (isSteam && !input.fluidName && hasDensity && input.densityUnit !== undefined && input.gamma !== undefined) {
+      return input as ResolvedInput<T>;
+    }
+
+    const P1Abs = convertPressureToKPaAbs(input.P1, input.pressureUnit);
+    const T1 = convertTemperatureToK(input.temperature, input.tempUnit);
+    let properties: FluidProperties;
+    if (input.composition) {
+      properties = calculateGasMixture(input.composition, P1Abs, T1);
+    } else {
+      const fluid = getFluid(fluidName!);
+      if (!fluid) {
+        throw new Error(`Unknown fluid: ${fluidName}`);
+      }
+      try {
+        properties = calcFluidProperties(fluid, input.fluidType, P1Abs, T1, input.Z);
+      } catch (error) {
+        // Outside the IF97 range: size with the given steam density instead
+        if (!isSteam || !hasDensity) throw error;
+        const reason = error instanceof Error ? error.message : String(error);
+        return {
+          ...input,
+          densityUnit: input.densityUnit ?? 'Kg/m3',
+          propertyWarnings: [
+            `IAPWS-IF97 steam properties unavailable (${reason}); ` +
+            `using the given density${input.gamma !== undefined ? ' and gamma' : ' and default gamma'}`
+          ]
+        } as ResolvedInput<T>;
+      }
+    }
+
+    const hasViscosity = input.viscosity !== undefined;
+
+    return {
+      ...input,
+      density: hasDensity ? input.density : properties.density,
+      densityUnit: hasDensity ? input.densityUnit ?? 'Kg/m3' : properties.densityUnit,
+      viscosity: hasViscosity ? input.viscosity : properties.viscosity,
+      viscosityUnit: hasViscosity ? input.viscosityUnit : 'cP',
+      viscosityType: hasViscosity ? input.viscosityType : 'Dynamic Viscosity',
+      molecularWeight: input.molecularWeight ?? properties.molecularWeight,
+      noiseMolecularWeight: input.noiseMolecularWeight ?? properties.molecularWeight,
+      gamma: input.gamma ?? properties.gamma,
+      Pc: input.Pc ?? properties.Pc,
+      Tc: input.Tc ?? properties.Tc,
+      vaporPressure: input.vaporPressure ?? properties.vaporPressure,
+      vaporPressureUnit: input.vaporPressure !== undefined ? input.vaporPressureUnit : 'KPa(A)',
+      acentricFactor: input.acentricFactor ?? properties.omega
+    } as ResolvedInput<T>;
+  }
+
+  /**
+   * Unit conversion and defaults shared by all calculation directions
+   */
+  private resolveConditions(input: ResolvedInput<Omit<KvInput, 'flowRate'>>, errors: string[]): ResolvedConditions {
+    const P1Abs = convertPressureToKPaAbs(input.P1, input.pressureUnit);
+    const P2Abs = convertPressureToKPaAbs(input.P2, input.pressureUnit);
+    const deltaP = P1Abs - P2Abs;
+    const T1 = convertTemperatureToK(input.temperature, input.tempUnit);
+    const tempCelsius = convertTemperatureToCelsius(input.temperature, input.tempUnit);
+
+    // Pressure validation
+    if (P1Abs <= 0) errors.push('Inlet pressure must be greater than 0');
+    if (P2Abs < 0) errors.push('Outlet pressure cannot be negative');
+    if (deltaP <= 0) errors.push('Inlet pressure must be greater than outlet pressure');
+
+    // Density conversion
+    const densityKgM3 = convertDensityToKgM3(input.density, input.densityUnit);
+
+    // Valve seat diameter (used in noise, Fd, Reynolds calculations)
+    const d = input.seatSize || input.DN;
+
+    // Fitting correction uses DN (valve body diameter), not seatSize.
+    // Excel: sumK/FP/FLP use DN vs pipe inner diameter.
+    // When no pipe specs are provided, D1=D2=DN → no fittings.
+    const DN = input.DN;
+    const D1 = input.D1w && input.D1T ? getPipeInnerDiameter(DN, input.D1w, input.D1T) : DN;
+    const D2 = input.D2w && input.D2T ? getPipeInnerDiameter(DN, input.D2w, input.D2T) : DN;
+
+    // Fittings exist when pipe inner diameter differs from valve DN
+    const hasFittings = DN !== D1 || DN !== D2;
+
+    // Gas compressibility: given Z, else Peng–Robinson when critical properties are known
+    const realGas = input.fluidType === 'Gas' && input.Z === undefined
+      && input.Tc !== undefined && input.Pc !== undefined;
+    const Z = realGas
+      ? calcCompressibilityZ(P1Abs, T1, input.Tc!, input.Pc!, input.acentricFactor)
+      : input.Z ?? CONSTANTS.DEFAULT.Z;
+    const Z2 = realGas && P2Abs > 0
+      ? calcCompressibilityZ(P2Abs, T1, input.Tc!, input.Pc!, input.acentricFactor)
+      : Z;
+
+    // Gas standard density must be brought to inlet conditions for viscosity conversion
+    const flowingDensityKgM3 = input.densityUnit === 'Kg/Nm3'
+      ? convertGasDensityToActual(input.density, P1Abs, T1, Z)
+      : densityKgM3;
+
+    // Viscosity conversion
+    const kinematicViscosity = input.viscosity
+      ? convertViscosityToM2S(
+          input.viscosity,
+          input.viscosityUnit || 'cP',
+          input.viscosityType || 'Viscosity',
+          flowingDensityKgM3
+        )
+      : this.defaultViscosity(input.fluidType) / 1000 / flowingDensityKgM3;
+
+    // Default values
+    const Fd = input.Fd ?? CONSTANTS.DEFAULT.FD;
+    const gamma = input.gamma ?? CONSTANTS.DEFAULT.GAMMA;
+    const Pc = input.Pc ?? CONSTANTS.WATER_CRITICAL_PRESSURE;
+
+    return {
+      P1Abs, P2Abs, deltaP, T1, tempCelsius, densityKgM3, flowingDensityKgM3,
+      d, DN, D1, D2, hasFittings, kinematicViscosity, Fd, Z, Z2, gamma, Pc
+    };
+  }
+
+  /**
+   * Reynolds correction for inverse sizing
+   * Turbulent flow first, then correct for Reynolds number until the flow settles
+   *
+   * @param solve Flow calculation at a Reynolds number factor
+   * @param actualFlowM3h Actual volume flow of a flow result m³/h
+   * @param reynoldsAt Reynolds number at an actual volume flow
+   */
+  private settleReynolds<T>(
+    solve: (FR?: number) => T,
+    actualFlowM3h: (result: T) => number,
+    reynoldsAt: (Q: number) => ReynoldsResult
+  ): { result: T; reynolds: ReynoldsResult } {
+    let result = solve();
+    let reynolds = reynoldsAt(actualFlowM3h(result));
+
+    for (let i = 0; i < 20 && reynolds.FR < 1; i++) {
+      const previousQ = actualFlowM3h(result);
+      result = solve(reynolds.FR);
+      const Q = actualFlowM3h(result);
+      if (Math.abs(Q - previousQ) <= CONSTANTS.THRESHOLD.TOLERANCE * previousQ) break;
+      reynolds = reynoldsAt(Q);
+    }
+
+    return { result, reynolds };
+  }
+
+  /**
+   * Liquid vapor pressure and saturation temperature
+   * A vapor pressure given in the input (or filled from the fluid database)
+   * takes precedence over water (IAPWS-IF97). Saturation temperature at P1
+   * comes from the named fluid, else the water default; it is not evaluated
+   * for a bare vapor pressure without fluidName.
+   */
+  private resolveVaporPressure(
+    input: Pick<KvInput, 'fluidName' | 'vaporPressure' | 'vaporPressureUnit' | 'pressureUnit'>,
+    tempCelsius: number,
+    P1Abs: number
+  ): { Pv: number; saturationTemp?: number } {
+    if (input.vaporPressure !== undefined) {
+      const fluid = input.fluidName ? getFluid(input.fluidName) : null;
+      const saturationK = fluid ? calcFluidSaturationTemperature(fluid, P1Abs) : undefined;
+      return {
+        Pv: convertPressureToKPaAbs(input.vaporPressure, input.vaporPressureUnit ?? input.pressureUnit),
+        saturationTemp: saturationK !== undefined ? saturationK - CONSTANTS.STD_TEMP : undefined
+      };
+    }
+    return {
+      Pv: calcSaturationPressure(tempCelsius),
+      saturationTemp: calcSaturationTemperature(P1Abs)
+    };
+  }
+
+  /**
+   * Check steam conditions against IAPWS-IF97
+   * Warns when the inlet is below saturation and, if a density was supplied,
+   * when it deviates from the IF97 density by more than DENSITY_DEVIATION.
+   */
+  private checkSteamDensity(P1Abs: number, T1: number, densityKgM3: number, supplied: boolean): string[] {
+    const warnings: string[] = [];
+    let steam: ReturnType<typeof calcSteamProperties>;
+    try {
+      steam = calcSteamProperties(P1Abs, T1);
+    } catch (error) {
+      warnings.push(`Steam density not checked: ${error instanceof Error ? error.message : String(error)}`);
+      return warnings;
+    }
+
+    if (steam.saturated) {
+      warnings.push('Steam temperature is below saturation temperature at P1, saturated vapor properties used');
+    }
+    const deviation = (densityKgM3 - steam.density) / steam.density;
+    if (supplied && Math.abs(deviation) > CONSTANTS.THRESHOLD.DENSITY_DEVIATION) {
+      warnings.push(
+        `Steam density ${densityKgM3.toFixed(3)} Kg/m3 differs from IAPWS-IF97 value ` +
+        `${steam.density.toFixed(3)} Kg/m3 by ${(deviation * 100).toFixed(1)}%`
+      );
+    }
+    return warnings;
+  }
+
+  /**
+   * Default dynamic viscosity cP when none is given
+   */
+  private defaultViscosity(fluidType: FluidType): number {
+    switch (fluidType) {
+      case 'Gas':
+        return CONSTANTS.DEFAULT.GAS_VISCOSITY;
+      case 'Steam':
+        return CONSTANTS.DEFAULT.STEAM_VISCOSITY;
+      default:
+        return CONSTANTS.DEFAULT.VISCOSITY;
+    }
+  }
+
+  /**
+   * Replace FL/XT/Fd by the travel coefficient table values at a travel
+   * Coefficients the table does not give keep their scalar input values.
+   */
+  private applyTravelCoefficients<T extends Omit<KvInput, 'flowRate' | 'P2'>>(input: T, travel: number): T {
+    if (!input.travelCoefficients) return input;
+
+    const { FL, XT, Fd } = calcCoefficientsAtTravel(travel, input.travelCoefficients);
+    return {
+      ...input,
+      FL: FL ?? input.FL,
+      XT: XT ?? input.XT,
+      Fd: Fd ?? input.Fd,
+      travelCoefficients: undefined
+    };
+  }
+
+  /**
+   * Size with travel-dependent FL/XT/Fd
+   * The opening from one sizing selects the coefficients for the next until
+   * the opening settles. Starts from the opening at the scalar coefficients.
+   */
+  private iterateTravelCoefficients(input: KvInput): KvResult {
+    const tolerance = CONSTANTS.THRESHOLD.TOLERANCE;
+    const initial = this.calculate({ ...input, travelCoefficients: undefined });
+    const x0 = Number.isFinite(initial.valveOpening) && initial.valveOpening > 0 ? initial.valveOpening : 50;
+
+    let result = initial;
+    let travel = x0;
+    const solution = solveFixedPoint(opening => {
+      travel = opening;
+      result = this.calculate(this.applyTravelCoefficients(input, opening));
+      return result.valveOpening;
+    }, x0, { tolerance });
+
+    const warnings = result.warnings ? [...result.warnings] : [];
+    if (!solution.converged) {
+      warnings.push(`Travel coefficient iteration did not converge within ${solution.iterations} iterations`);
+    }
+
+    return {
+      ...result,
+      coefficients: { ...result.coefficients!, travel },
+      travelIteration: {
+        converged: solution.converged,
+        iterations: solution.iterations,
+        residual: solution.residual,
+        tolerance,
+        method: 'Fixed-point'
+      },
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  /**
+   * Iterate the assumed flow coefficient Ci until it equals the calculated Kv
+   * Starts from the Excel assumption Ci = 1.3 × ratedKv; FP, FLP and FR are
+   * re-evaluated at every step. size() is called once per step.
+   */
+  private iterateCi(
+    input: KvInput,
+    size: (Ci: number) => Omit<CiIterationStep, 'iteration' | 'Ci'>
+  ): CiIterationResult {
+    const tolerance = input.ciTolerance ?? CONSTANTS.THRESHOLD.TOLERANCE;
+    const history: CiIterationStep[] = [];
+
+    const solution = solveFixedPoint(Ci => {
+      const step = size(Ci);
+      history.push({ iteration: history.length + 1, Ci, ...step });
+      return step.kv;
+    }, input.ratedKv * 1.3, { tolerance, maxIterations: input.ciMaxIterations });
+
+    return {
+      converged: solution.converged,
+      iterations: solution.iterations,
+      residual: solution.residual,
+      tolerance,
+      method: 'Fixed-point',
+      history
+    };
+  }
+
+  /**
+   * Gas standard density: convert actual Kg/m3 → standard Kg/Nm3
+   * ρ_Nm3 = ρ_actual × Z × T1 × 101.325 / P1 / 273.15 (Excel formula with Z = 1),
+   * the inverse of convertGasDensityToActual so both density units size alike
+   */
+  private calcStandardGasDensity(
+    input: Pick<ResolvedInput<KvInput>, 'density' | 'densityUnit'>,
+    P1Abs: number,
+    T1: number,
+    Z: number
+  ): number {
+    return input.densityUnit === 'Kg/Nm3'
+      ? input.density
+      : input.density * Z * T1 * CONSTANTS.STD_PRESSURE / (P1Abs * CONSTANTS.STD_TEMP);
+  }
+
+  /**
+   * Noise trim from the valve internals type and trim specification
+   * Multi-stage trims default to the stage count of the cavitation assessment.
+   */
+  private resolveNoiseTrim(input: KvInput, result: KvResult): NoiseTrim | undefined {
+    const spec = input.trimSpec;
+    let trim: NoiseTrim;
+    switch (input.valveInternalsType) {
+      case 'Anti-cavitation Trim':
+        trim = { type: 'cage' };
+        break;
+      case 'Multi-stage Pressure Reduction':
+        trim = { type: 'multistage', stages: spec?.stages ?? result.cavitation?.stages };
+        break;
+      default:
+        if (!spec) return undefined;
+        trim = { type: 'standard' };
+    }
+
+    return {
+      ...trim,
+      holeDiameter: spec?.holeDiameter,
+      stagePressures: spec?.stagePressures?.map(p => convertPressureToKPaAbs(p, input.pressureUnit))
+    };
+  }
+
+  /**
+   * Outlet velocity through the outlet pipe (uses DN, not seat diameter)
+   */
+  private calcOutletVelocity(fluidType: FluidType, DN: number, intermediate: IntermediateValues): number {
+    const { volumeFlowM3h, normalFlowNm3h, massFlowKgh, densityKgM3, T1, P1Abs, P2Abs } = intermediate;
+
+    if (fluidType === 'Liquid' && volumeFlowM3h) {
+      return calcVelocity(volumeFlowM3h, DN);
+    } else if (fluidType === 'Gas' && normalFlowNm3h) {
+      // Gas actual volume flow rate
+      const actualFlowM3h = normalFlowNm3h * CONSTANTS.STD_PRESSURE * T1 / (P2Abs * CONSTANTS.STD_TEMP);
+      return calcVelocity(actualFlowM3h, DN);
+    } else if (fluidType === 'Steam' && massFlowKgh) {
+      const volumeFlow = massFlowKgh / densityKgM3;
+      return calcVelocity(volumeFlow, DN);
+    } else if (intermediate.gasDensityKgM3 && volumeFlowM3h !== undefined) {
+      // Two-phase: liquid volume + gas volume expanded to outlet pressure
+      const gasDensityOutlet = intermediate.gasDensityKgM3 * P2Abs / P1Abs;
+      const volumeFlow = volumeFlowM3h + (intermediate.gasMassFlowKgh || 0) / gasDensityOutlet;
+      return calcVelocity(volumeFlow, DN);
+    }
+    return 0;
+  }
 }
 
 // Export default calculator instance
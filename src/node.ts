@@ -0,0 +1,7 @@
+/**
+ * Kv计算系统 Node 入口
+ * 在主入口基础上增加依赖 fs 的文件读取功能, 浏览器打包请使用主入口
+ */
+
+export * from './index.js';
+export * from './data/actuator-loader-file.js';
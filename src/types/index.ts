@@ -2,6 +2,9 @@
  * Kv Calculation System Type Definitions
  */
 
+import type { InlineSilencer, PipeInsulation, PipeMaterial, SpectrumBandType } from '../calculators/noise/types.js';
+import type { PipeStandard } from '../utils/pipe-spec-static.js';
+
 // Fluid Type
 export type FluidType =
   | 'Liquid'
@@ -11,7 +14,36 @@ export type FluidType =
   | 'Two-phase (Liquid+Steam)';
 
 // Flow Characteristic
-export type FlowCharacteristic = 'Equal Percentage' | 'Linear' | 'Quick Opening';
+export type FlowCharacteristic = 'Equal Percentage' | 'Linear' | 'Quick Opening' | 'Tabulated';
+
+/**
+ * Valve coefficients at one travel (manufacturer data)
+ * Coefficients left out of a point are interpolated from the other points.
+ */
+export interface TravelCoefficientPoint {
+  travel: number;           // Valve travel %
+  FL?: number;              // Pressure recovery factor
+  XT?: number;              // Pressure differential ratio factor
+  Fd?: number;              // Valve style modifier
+}
+
+/**
+ * Valve coefficients used in a calculation
+ */
+export interface ValveCoefficientsUsed {
+  FL: number;               // Pressure recovery factor
+  XT?: number;              // Pressure differential ratio factor
+  Fd: number;               // Valve style modifier
+  travel?: number;          // Travel % the coefficients were looked up at
+}
+
+/**
+ * Characteristic table point (manufacturer Kv-vs-travel data)
+ */
+export interface CharacteristicPoint {
+  travel: number;           // Valve travel %
+  kv: number;               // Kv as % of rated Kv
+}
 
 // Pressure Unit
 export type PressureUnit =
@@ -53,7 +85,24 @@ export type TurbulenceState = 'Turbulent' | 'Laminar';
 export type FluidState = 'No Cavitation' | 'Incipient Cavitation' | 'Cavitation' | 'Flashing';
 
 // Valve Internals Type
-export type ValveInternalsType = 'Standard' | 'Multi-stage Pressure Reduction';
+export type ValveInternalsType = 'Standard' | 'Anti-cavitation Trim' | 'Multi-stage Pressure Reduction';
+
+// Cavitation Level (σ against the cavitation limits)
+export type CavitationLevel = 'None' | 'Incipient' | 'Constant' | 'Damage' | 'Flashing';
+
+// Two-phase Sizing Method
+export type TwoPhaseMethod = 'Effective Density' | 'Homogeneous';
+
+// Sizing Mode (Excel: fixed Ci = 1.3 × ratedKv, Iterative: Ci converged per IEC 60534-2-1)
+export type SizingMode = 'Excel' | 'Iterative';
+
+/**
+ * Gas Mixture Component
+ */
+export interface GasComponent {
+  fluid: string;            // Fluid database name or alias
+  fraction: number;         // Mole fraction (normalized over all components)
+}
 
 /**
  * Kv Calculation Input Parameters
@@ -61,6 +110,8 @@ export type ValveInternalsType = 'Standard' | 'Multi-stage Pressure Reduction';
 export interface KvInput {
   // Fluid properties
   fluidType: FluidType;
+  fluidName?: string;       // Fluid database name or alias; fills missing properties
+  composition?: GasComponent[]; // Gas mixture by mole fraction; fills missing properties
 
   // Temperature parameters
   temperature: number;
@@ -79,9 +130,10 @@ export interface KvInput {
   P2: number;               // Outlet pressure
   pressureUnit: PressureUnit;
 
-  // Density parameters
-  density: number;          // Primary density (liquid/gas/steam)
-  densityUnit: DensityUnit;
+  // Density parameters: density and densityUnit go together, required unless fluidName or
+  // composition is given (densityUnit then defaults to Kg/m3); steam defaults to IAPWS-IF97
+  density?: number;         // Primary density (liquid/gas/steam)
+  densityUnit?: DensityUnit;
   gasDensity?: number;      // Two-phase gas density
   gasDensityUnit?: DensityUnit;
 
@@ -93,11 +145,22 @@ export interface KvInput {
   // Gas-specific parameters
   molecularWeight?: number; // Molecular weight M (for Kv calculation)
   noiseMolecularWeight?: number; // Molecular weight for noise calculation (from fluid database)
-  Z?: number;               // Compressibility factor
+  noiseSpectrumBands?: SpectrumBandType; // Noise spectrum bands (default octave)
+  noiseDistance?: number;   // Noise observer distance from the pipe surface m (default 1)
+  pipeInsulation?: PipeInsulation; // Acoustic insulation on the downstream pipe
+  outletExpander?: boolean; // Valve outlet (DN) expands into the larger downstream pipe (gas noise)
+  silencer?: InlineSilencer; // Inline silencer / diffuser downstream of the valve (gas noise)
+  Z?: number;               // Compressibility factor (gas: Peng–Robinson from Tc/Pc when omitted)
   gamma?: number;           // Specific heat ratio γ
 
-  // Critical parameters (liquid)
+  // Critical parameters (liquid FF, gas compressibility)
   Pc?: number;              // Critical pressure MPa
+  Tc?: number;              // Critical temperature K
+  acentricFactor?: number;  // Acentric factor ω
+
+  // Vapor pressure (liquid; defaults to the fluid database, else water IAPWS-IF97)
+  vaporPressure?: number;   // Saturation vapor pressure at inlet temperature
+  vaporPressureUnit?: PressureUnit; // Defaults to pressureUnit
 
   // Valve parameters
   DN: number;               // Valve nominal diameter mm
@@ -110,15 +173,30 @@ export interface KvInput {
   flowChar: FlowCharacteristic;
   rangeability: number;     // Inherent rangeability R
   ratedKv: number;          // Rated Kv
+  characteristicTable?: CharacteristicPoint[]; // Kv%-vs-travel% table (flowChar 'Tabulated')
+  travelCoefficients?: TravelCoefficientPoint[]; // FL/XT/Fd vs travel (overrides the scalars)
 
   // Piping parameters
   D1w?: number;             // Upstream pipe outer diameter mm
   D1T?: number;             // Upstream pipe wall thickness mm
   D2w?: number;             // Downstream pipe outer diameter mm
   D2T?: number;             // Downstream pipe wall thickness mm
+  pipeMaterial?: PipeMaterial; // Downstream pipe material (noise transmission loss, default steel)
+  pipeSchedule?: string;    // Downstream pipe schedule when D2w/D2T are not given (noise, e.g. '40', '80S')
+  pipeStandard?: PipeStandard; // Pipe table for pipeSchedule (default metric)
 
   // Valve internals type
   valveInternalsType?: ValveInternalsType;
+  trimSpec?: TrimSpec;      // Trim geometry for noise prediction
+  cavitationLimits?: CavitationLimits; // Manufacturer σ limits (liquid)
+
+  // Two-phase sizing method (default: Effective Density)
+  twoPhaseMethod?: TwoPhaseMethod;
+
+  // Sizing mode (default: Excel)
+  sizingMode?: SizingMode;
+  ciMaxIterations?: number; // Ci iteration limit (default 50)
+  ciTolerance?: number;     // Relative Ci tolerance (default CONSTANTS.THRESHOLD.TOLERANCE)
 }
 
 /**
@@ -162,6 +240,16 @@ export interface IntermediateValues {
   kvChokedWithFitting?: number; // Gas choked Kv with fittings
   kvLaminar?: number;       // Gas laminar Kv
   M?: number;               // Molecular weight
+  Z?: number;               // Inlet compressibility factor
+  Z2?: number;              // Outlet compressibility factor (at T1)
+
+  // Two-phase-specific
+  twoPhaseMethod?: TwoPhaseMethod;  // Two-phase sizing method used
+  mixtureQuality?: number;  // Gas/vapor mass fraction of the mixture
+  effectiveDensity?: number; // Mixture effective density Kg/m³
+  gasDensityKgM3?: number;  // Gas/vapor phase inlet density Kg/m³
+  liquidMassFlowKgh?: number; // Liquid phase mass flow rate Kg/h
+  gasMassFlowKgh?: number;  // Gas/vapor phase mass flow rate Kg/h
 
   // Piping coefficients
   D1?: number;              // Upstream pipe inner diameter mm
@@ -208,6 +296,9 @@ export interface KvResult {
   // Noise
   noise?: number;           // Noise level dBA
 
+  // Cavitation assessment (liquid)
+  cavitation?: CavitationAssessment;
+
   // Intermediate values
   intermediate: IntermediateValues;
 
@@ -217,11 +308,229 @@ export interface KvResult {
   // Has fittings
   hasFittings: boolean;
 
+  // Ci iteration (Iterative sizing mode only)
+  ciIteration?: CiIterationResult;
+
+  // Valve coefficients used (looked up at the opening with travelCoefficients)
+  coefficients?: ValveCoefficientsUsed;
+  travelIteration?: ConvergenceInfo; // Opening iteration (travelCoefficients only)
+
   // Error messages
   errors?: string[];
   warnings?: string[];
 }
 
+/**
+ * Low-noise Trim Specification (noise prediction, IEC 60534-8-3 multi-hole / multistage)
+ */
+export interface TrimSpec {
+  stages?: number;          // Pressure-reduction stages (default: cavitation assessment, else 3)
+  holeDiameter?: number;    // Cage hole diameter mm
+  stagePressures?: number[]; // Interstage pressures in pressureUnit, inlet to outlet
+}
+
+/**
+ * Manufacturer Cavitation Limits
+ * σ = (P1 - Pv) / (P1 - P2); cavitation gets more severe as σ falls.
+ */
+export interface CavitationLimits {
+  incipient?: number;       // σi onset of cavitation (default 1/xFz, IEC 60534-8-4)
+  constant?: number;        // σc constant cavitation (default 1/(0.8×FL²))
+  damage?: number;          // σmv manufacturer damage limit (default 1/FL², choked)
+}
+
+/**
+ * Cavitation Assessment
+ */
+export interface CavitationAssessment {
+  sigma: number;            // Cavitation index σ = (P1 - Pv) / ΔP
+  xFz: number;              // Incipient cavitation ratio (N34 = 1.17)
+  xFzp1: number;            // xFz corrected to inlet pressure
+  limits: Required<CavitationLimits>; // σ limits used
+  level: CavitationLevel;
+  recommendedInternals: ValveInternalsType;
+  stages?: number;          // Pressure-reduction stages (multi-stage only)
+  message: string;          // Recommendation text
+}
+
+/**
+ * Flow Rate Calculation Input (inverse sizing)
+ * Same as KvInput, with a known valve opening instead of a flow rate.
+ * flowUnit selects the unit of the returned flow rate.
+ */
+export interface FlowRateInput extends Omit<KvInput, 'flowRate'> {
+  opening: number;          // Valve opening %
+}
+
+/**
+ * Flow Rate Calculation Result
+ * calculatedKv is the valve Kv available at the given opening.
+ */
+export interface FlowRateResult extends KvResult {
+  flowRate: number;         // Achievable flow rate (in input flowUnit)
+  flowUnit: FlowUnit;       // Unit of flowRate
+}
+
+/**
+ * Iterative Solver Convergence Diagnostics
+ */
+export interface ConvergenceInfo {
+  converged: boolean;       // Tolerance reached
+  iterations: number;       // Iterations performed
+  residual: number;         // Final relative residual
+  tolerance: number;        // Relative tolerance used
+  method: string;           // Solver method
+}
+
+/**
+ * Single Step of the Ci Iteration
+ */
+export interface CiIterationStep {
+  iteration: number;        // Iteration number (1-based)
+  Ci: number;               // Assumed flow coefficient
+  FP: number;               // Piping geometry factor at Ci
+  FLP?: number;             // Combined liquid pressure recovery factor at Ci
+  FR: number;               // Reynolds number factor at Ci
+  kv: number;               // Calculated Kv
+}
+
+/**
+ * Ci Iteration Result
+ */
+export interface CiIterationResult extends ConvergenceInfo {
+  history: CiIterationStep[];
+}
+
+/**
+ * Pressure Drop Calculation Input (inverse sizing)
+ * Same as KvInput, with a known valve opening instead of an outlet pressure.
+ */
+export interface PressureDropInput extends Omit<KvInput, 'P2'> {
+  opening: number;          // Valve opening %
+  maxIterations?: number;   // Solver iteration limit (default 100)
+  tolerance?: number;       // Relative Kv tolerance (default CONSTANTS.THRESHOLD.TOLERANCE)
+}
+
+/**
+ * Pressure Drop Calculation Result
+ * The KvResult fields are those of calculate() at the solved outlet pressure.
+ */
+export interface PressureDropResult extends KvResult {
+  P2: number;               // Solved outlet pressure (in input pressureUnit)
+  requiredDeltaP: number;   // Pressure differential taken by the valve KPa
+  convergence: ConvergenceInfo;
+}
+
+/**
+ * Valve Catalog Candidate (series, body size and trim)
+ */
+export interface ValveCandidate {
+  series: string;           // Catalog series
+  DN: number;               // Valve nominal diameter mm
+  trimSize: number;         // Valve seat size mm
+  ratedKv: number;          // Rated Kv
+  flowChar: FlowCharacteristic;
+  FL: number;               // Pressure recovery factor
+  XT: number;               // Pressure differential ratio factor
+  Fd: number;               // Valve style modifier
+  rangeability: number;     // Inherent rangeability
+}
+
+/**
+ * Valve parameters chosen by selection instead of given in the input
+ */
+export type ValveSelectionField =
+  'DN' | 'seatSize' | 'ratedKv' | 'FL' | 'XT' | 'Fd' | 'flowChar' | 'rangeability'
+  | 'characteristicTable' | 'travelCoefficients';
+
+/**
+ * Valve Selection Input
+ * Process conditions at normal flow (flowRate), with optional min/max flow.
+ */
+export interface ValveSelectionInput extends Omit<KvInput, ValveSelectionField> {
+  minFlowRate?: number;     // Minimum flow rate (in flowUnit)
+  maxFlowRate?: number;     // Maximum flow rate (in flowUnit)
+  series?: string[];        // Restrict to catalog series
+  flowChar?: FlowCharacteristic; // Restrict to one flow characteristic
+}
+
+/**
+ * Evaluation of one catalog candidate
+ */
+export interface ValveEvaluation {
+  candidate: ValveCandidate;
+  minOpening?: number;      // Opening at minimum flow %
+  normalOpening: number;    // Opening at normal flow % (NaN when sizing failed)
+  maxOpening?: number;      // Opening at maximum flow %
+  noise?: number;           // Highest external noise LpAe,1m dB(A)
+  outletVelocity: number;   // Highest outlet velocity m/s
+  score: number;            // Ranking penalty, lower is better
+  suitable: boolean;        // Openings, noise and velocity all within limits
+  issues: string[];         // Reasons the candidate is penalized
+  result?: KvResult;        // Result at normal flow (undefined when sizing failed)
+}
+
+/**
+ * Valve Selection Result
+ */
+export interface ValveSelectionResult {
+  recommended: ValveEvaluation | null; // Best suitable candidate
+  candidates: ValveEvaluation[];       // All candidates, best first
+}
+
+/**
+ * Valve definition shared by all operating cases
+ */
+export type ValveDefinition = Pick<KvInput, ValveSelectionField>;
+
+/**
+ * One operating point (process conditions without valve parameters)
+ */
+export interface OperatingCase extends Omit<KvInput, ValveSelectionField> {
+  name?: string;            // Case label, e.g. 'Min' / 'Normal' / 'Max'
+}
+
+/**
+ * Multi-Case Input
+ */
+export interface MultiCaseInput {
+  valve: ValveDefinition;   // Valve definition
+  cases: OperatingCase[];   // Operating points
+  includeNoise?: boolean;   // Calculate noise per case (default true)
+}
+
+/**
+ * Result of one operating case
+ */
+export interface CaseResult {
+  name: string;             // Case label (defaults to 'Case n')
+  result: KvResult;         // Sizing result (noise included when calculated)
+}
+
+/**
+ * Controllability summary over all operating cases
+ */
+export interface MultiCaseSummary {
+  minKv: number;            // Smallest calculated Kv
+  maxKv: number;            // Largest calculated Kv
+  kvRatio?: number;         // maxKv / minKv (undefined unless every Kv is finite and > 0)
+  minOpening: number;       // Smallest opening %
+  maxOpening: number;       // Largest opening %
+  openingSpan: number;      // maxOpening - minOpening %
+  withinRange: boolean;     // All openings within MIN_OPENING-MAX_OPENING
+  maxNoise?: number;        // Worst-case noise dB(A)
+  maxNoiseCase?: string;    // Case with the worst noise
+  warnings?: string[];
+}
+
+/**
+ * Multi-Case Result
+ */
+export interface MultiCaseResult {
+  cases: CaseResult[];
+  summary: MultiCaseSummary;
+}
+
 /**
  * Excel Comparison Result
  */
@@ -0,0 +1,247 @@
+/**
+ * IAPWS-IF97 Water and Steam Properties
+ * Region 1 (compressed liquid), Region 2 (superheated vapor),
+ * Region 4 (saturation line) and the Region 2/3 boundary (B23).
+ * Pressures are absolute KPa and temperatures K, as elsewhere in the calculator.
+ */
+
+/** Specific gas constant of water kJ/(kg·K) */
+const R = 0.461526;
+
+/** Critical point */
+const TC = 647.096;   // K
+const PC = 22064;     // KPa
+
+// ===== Region 4: saturation line =====
+const N4 = [
+  0.11670521452767e4, -0.72421316703206e6, -0.17073846940092e2,
+  0.12020824702470e5, -0.32325550322333e7, 0.14915108613530e2,
+  -0.48232657361591e4, 0.40511340542057e6, -0.23855557567849,
+  0.65017534844798e3
+];
+
+// ===== Region 1: [I, J, n] =====
+const REGION1: [number, number, number][] = [
+  [0, -2, 0.14632971213167], [0, -1, -0.84548187169114], [0, 0, -0.37563603672040e1],
+  [0, 1, 0.33855169168385e1], [0, 2, -0.95791963387872], [0, 3, 0.15772038513228],
+  [0, 4, -0.16616417199501e-1], [0, 5, 0.81214629983568e-3], [1, -9, 0.28319080123804e-3],
+  [1, -7, -0.60706301565874e-3], [1, -1, -0.18990068218419e-1], [1, 0, -0.32529748770505e-1],
+  [1, 1, -0.21841717175414e-1], [1, 3, -0.52838357969930e-4], [2, -3, -0.47184321073267e-3],
+  [2, 0, -0.30001780793026e-3], [2, 1, 0.47661393906987e-4], [2, 3, -0.44141845330846e-5],
+  [2, 17, -0.72694996297594e-15], [3, -4, -0.31679644845054e-4], [3, 0, -0.28270797985312e-5],
+  [3, 6, -0.85205128120103e-9], [4, -5, -0.22425281908000e-5], [4, -2, -0.65171222895601e-6],
+  [4, 10, -0.14341729937924e-12], [5, -8, -0.40516996860117e-6], [8, -11, -0.12734301741641e-8],
+  [8, -6, -0.17424871230634e-9], [21, -29, -0.68762131295531e-18], [23, -31, 0.14478307828521e-19],
+  [29, -38, 0.26335781662795e-22], [30, -39, -0.11947622640071e-22], [31, -40, 0.18228094581404e-23],
+  [32, -41, -0.93537087292458e-25]
+];
+
+// ===== Region 2 ideal-gas part: [J, n] =====
+const REGION2_IDEAL: [number, number][] = [
+  [0, -0.96927686500217e1], [1, 0.10086655968018e2], [-5, -0.56087911283020e-2],
+  [-4, 0.71452738081455e-1], [-3, -0.40710498223928], [-2, 0.14240819171444e1],
+  [-1, -0.43839511319450e1], [2, -0.28408632460772], [3, 0.21268463753307e-1]
+];
+
+// ===== Region 2 residual part: [I, J, n] =====
+const REGION2_RESIDUAL: [number, number, number][] = [
+  [1, 0, -0.17731742473213e-2], [1, 1, -0.17834862292358e-1], [1, 2, -0.45996013696365e-1],
+  [1, 3, -0.57581259083432e-1], [1, 6, -0.50325278727930e-1], [2, 1, -0.33032641670203e-4],
+  [2, 2, -0.18948987516315e-3], [2, 4, -0.39392777243355e-2], [2, 7, -0.43797295650573e-1],
+  [2, 36, -0.26674547914087e-4], [3, 0, 0.20481737692309e-7], [3, 1, 0.43870667284435e-6],
+  [3, 3, -0.32277677238570e-4], [3, 6, -0.15033924542148e-2], [3, 35, -0.40668253562649e-1],
+  [4, 1, -0.78847309559367e-9], [4, 2, 0.12790717852285e-7], [4, 3, 0.48225372718507e-6],
+  [5, 7, 0.22922076337661e-5], [6, 3, -0.16714766451061e-10], [6, 16, -0.21171472321355e-2],
+  [6, 35, -0.23895741934104e2], [7, 0, -0.59059564324270e-17], [7, 11, -0.12621808899101e-5],
+  [7, 25, -0.38946842435739e-1], [8, 8, 0.11256211360459e-10], [8, 36, -0.82311340897998e1],
+  [9, 13, 0.19809712802088e-7], [10, 4, 0.10406965210174e-18], [10, 10, -0.10234747095929e-12],
+  [10, 14, -0.10018179379511e-8], [16, 29, -0.80882908646985e-10], [16, 50, 0.10693031879409],
+  [18, 57, -0.33662250574171], [20, 20, 0.89185845355421e-24], [20, 35, 0.30629316876232e-12],
+  [20, 48, -0.42002467698208e-5], [21, 21, -0.59056029685639e-25], [22, 53, 0.37826947613457e-5],
+  [23, 39, -0.12768608934681e-14], [24, 26, 0.73087610595061e-28], [24, 40, 0.55414715350778e-16],
+  [24, 58, -0.94369707241210e-6]
+];
+
+// ===== B23 boundary =====
+const B23 = [0.34805185628969e3, -0.11671859879975e1, 0.10192970039326e-2, 0.57254459862746e3, 0.13918839778870e2];
+
+/**
+ * IF97 region
+ * 1: compressed liquid, 2: superheated vapor, 3: near-critical (not implemented)
+ */
+export type IF97Region = 1 | 2 | 3;
+
+/**
+ * Water/steam properties at a state point
+ */
+export interface IF97Properties {
+  region: IF97Region;
+  density: number;          // Density Kg/m³
+  v: number;                // Specific volume m³/Kg
+  cp: number;               // Isobaric specific heat kJ/(Kg·K)
+  cv: number;               // Isochoric specific heat kJ/(Kg·K)
+  gamma: number;            // Specific heat ratio cp/cv
+}
+
+/**
+ * Saturation pressure (Region 4)
+ * @param T Temperature K (273.15 ~ 647.096)
+ * @returns Saturation pressure KPa
+ */
+export function calcIF97SaturationPressure(T: number): number {
+  if (T >= TC) return PC;
+  const theta = T + N4[8] / (T - N4[9]);
+  const A = theta * theta + N4[0] * theta + N4[1];
+  const B = N4[2] * theta * theta + N4[3] * theta + N4[4];
+  const C = N4[5] * theta * theta + N4[6] * theta + N4[7];
+  return Math.pow(2 * C / (-B + Math.sqrt(B * B - 4 * A * C)), 4) * 1000;
+}
+
+/**
+ * Saturation temperature (Region 4)
+ * @param P Absolute pressure KPa (0.611 ~ 22064)
+ * @returns Saturation temperature K
+ */
+export function calcIF97SaturationTemperature(P: number): number {
+  if (P <= 0) return NaN;
+  if (P >= PC) return TC;
+  const beta = Math.pow(P / 1000, 0.25);
+  const E = beta * beta + N4[2] * beta + N4[5];
+  const F = N4[0] * beta * beta + N4[3] * beta + N4[6];
+  const G = N4[1] * beta * beta + N4[4] * beta + N4[7];
+  const D = 2 * G / (-F - Math.sqrt(F * F - 4 * E * G));
+  return (N4[9] + D - Math.sqrt(Math.pow(N4[9] + D, 2) - 4 * (N4[8] + N4[9] * D))) / 2;
+}
+
+/**
+ * Region 2/3 boundary pressure (B23)
+ * @param T Temperature K (623.15 ~ 863.15)
+ * @returns Pressure KPa
+ */
+export function calcB23Pressure(T: number): number {
+  return (B23[0] + B23[1] * T + B23[2] * T * T) * 1000;
+}
+
+/**
+ * Region 2/3 boundary temperature (B23)
+ * @param P Absolute pressure KPa (16529 ~ 100000)
+ * @returns Temperature K
+ */
+export function calcB23Temperature(P: number): number {
+  return B23[3] + Math.sqrt((P / 1000 - B23[4]) / B23[2]);
+}
+
+/**
+ * Determine the IF97 region of a state point
+ * States exactly on the saturation line are assigned to Region 2 (vapor).
+ *
+ * @param P Absolute pressure KPa
+ * @param T Temperature K
+ */
+export function getIF97Region(P: number, T: number): IF97Region {
+  if (P <= 0 || P > 100000 || T < 273.15 || T > 1073.15) {
+    throw new Error(`State outside IAPWS-IF97 range: P=${P} KPa, T=${T} K`);
+  }
+  if (T <= 623.15) {
+    return P > calcIF97SaturationPressure(T) ? 1 : 2;
+  }
+  if (T <= 863.15 && P > calcB23Pressure(T)) {
+    return 3;
+  }
+  return 2;
+}
+
+/**
+ * Region 1 properties (compressed liquid)
+ * γ = Σ n×(7.1-π)^I×(τ-1.222)^J, π = p/16.53 MPa, τ = 1386 K/T
+ *
+ * @param P Absolute pressure KPa
+ * @param T Temperature K
+ */
+export function calcIF97Region1(P: number, T: number): IF97Properties {
+  const pi = P / 1000 / 16.53;
+  const tau = 1386 / T;
+  const a = 7.1 - pi;
+  const b = tau - 1.222;
+
+  let gPi = 0;
+  let gPiPi = 0;
+  let gTauTau = 0;
+  let gPiTau = 0;
+  for (const [I, J, n] of REGION1) {
+    gPi -= n * I * Math.pow(a, I - 1) * Math.pow(b, J);
+    gPiPi += n * I * (I - 1) * Math.pow(a, I - 2) * Math.pow(b, J);
+    gTauTau += n * Math.pow(a, I) * J * (J - 1) * Math.pow(b, J - 2);
+    gPiTau -= n * I * Math.pow(a, I - 1) * J * Math.pow(b, J - 1);
+  }
+
+  const v = R * T / P * pi * gPi;
+  const cp = -R * tau * tau * gTauTau;
+  const cv = R * (-tau * tau * gTauTau + Math.pow(gPi - tau * gPiTau, 2) / gPiPi);
+
+  return { region: 1, density: 1 / v, v, cp, cv, gamma: cp / cv };
+}
+
+/**
+ * Region 2 properties (superheated vapor)
+ * γ = γ° + γʳ, π = p/1 MPa, τ = 540 K/T
+ *
+ * @param P Absolute pressure KPa
+ * @param T Temperature K
+ */
+export function calcIF97Region2(P: number, T: number): IF97Properties {
+  const pi = P / 1000;
+  const tau = 540 / T;
+  const b = tau - 0.5;
+
+  let g0TauTau = 0;
+  for (const [J, n] of REGION2_IDEAL) {
+    g0TauTau += n * J * (J - 1) * Math.pow(tau, J - 2);
+  }
+
+  let grPi = 0;
+  let grPiPi = 0;
+  let grTauTau = 0;
+  let grPiTau = 0;
+  for (const [I, J, n] of REGION2_RESIDUAL) {
+    grPi += n * I * Math.pow(pi, I - 1) * Math.pow(b, J);
+    grPiPi += n * I * (I - 1) * Math.pow(pi, I - 2) * Math.pow(b, J);
+    grTauTau += n * Math.pow(pi, I) * J * (J - 1) * Math.pow(b, J - 2);
+    grPiTau += n * I * Math.pow(pi, I - 1) * J * Math.pow(b, J - 1);
+  }
+
+  const v = R * T / P * pi * (1 / pi + grPi);
+  const cp = -R * tau * tau * (g0TauTau + grTauTau);
+  const cv = cp - R * Math.pow(1 + pi * grPi - tau * pi * grPiTau, 2) / (1 - pi * pi * grPiPi);
+
+  return { region: 2, density: 1 / v, v, cp, cv, gamma: cp / cv };
+}
+
+/**
+ * Water/steam properties at a state point (Region 1 or 2)
+ * @param P Absolute pressure KPa
+ * @param T Temperature K
+ */
+export function calcIF97Properties(P: number, T: number): IF97Properties {
+  const region = getIF97Region(P, T);
+  if (region === 3) {
+    throw new Error(`IAPWS-IF97 Region 3 is not supported: P=${P} KPa, T=${T} K`);
+  }
+  return region === 1 ? calcIF97Region1(P, T) : calcIF97Region2(P, T);
+}
+
+/**
+ * Steam properties for valve sizing
+ * Below the saturation temperature the steam is taken as saturated vapor at P.
+ *
+ * @param P Absolute pressure KPa
+ * @param T Temperature K
+ * @returns Properties and whether saturated vapor was substituted
+ */
+export function calcSteamProperties(P: number, T: number): IF97Properties & { saturated: boolean } {
+  const Ts = calcIF97SaturationTemperature(P);
+  if (T < Ts) {
+    return { ...calcIF97Region2(P, Ts), saturated: true };
+  }
+  return { ...calcIF97Properties(P, T), saturated: false };
+}
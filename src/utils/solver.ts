@@ -0,0 +1,139 @@
+/**
+ * Numerical Solver Utilities
+ */
+
+import { CONSTANTS } from '../constants/index.js';
+
+/**
+ * Solver options
+ */
+export interface SolverOptions {
+  tolerance?: number;       // Relative tolerance on the target value
+  maxIterations?: number;   // Maximum number of iterations
+}
+
+/**
+ * Bisection solver result
+ */
+export interface BisectionResult {
+  root: number;             // Best estimate of x
+  value: number;            // f(root)
+  iterations: number;       // Iterations performed
+  converged: boolean;       // |f(root) - target| within tolerance
+  residual: number;         // Relative residual |f(root) - target| / |target|
+}
+
+/**
+ * Solve f(x) = target on [lo, hi] by bisection
+ * f must be monotonic on the interval (plateaus are allowed). When the target
+ * is not bracketed the closest end point is returned with converged = false.
+ *
+ * @param f Function to solve
+ * @param target Target value
+ * @param lo Lower bound of x
+ * @param hi Upper bound of x
+ * @param options Tolerance and iteration limit
+ */
+export function solveBisection(
+  f: (x: number) => number,
+  target: number,
+  lo: number,
+  hi: number,
+  options: SolverOptions = {}
+): BisectionResult {
+  const tolerance = options.tolerance ?? CONSTANTS.THRESHOLD.TOLERANCE;
+  const maxIterations = options.maxIterations ?? 100;
+  const scale = Math.abs(target) || 1;
+
+  let fLo = f(lo) - target;
+  let fHi = f(hi) - target;
+
+  // Target not bracketed: return the closest end point
+  if (fLo * fHi > 0) {
+    const useLo = Math.abs(fLo) < Math.abs(fHi);
+    const root = useLo ? lo : hi;
+    const residual = Math.abs(useLo ? fLo : fHi) / scale;
+    return { root, value: (useLo ? fLo : fHi) + target, iterations: 0, converged: residual <= tolerance, residual };
+  }
+
+  let root = lo;
+  let fRoot = fLo;
+  let iterations = 0;
+
+  while (iterations < maxIterations) {
+    iterations++;
+    root = (lo + hi) / 2;
+    fRoot = f(root) - target;
+
+    if (Math.abs(fRoot) / scale <= tolerance) break;
+
+    if (fRoot * fLo > 0) {
+      lo = root;
+      fLo = fRoot;
+    } else {
+      hi = root;
+      fHi = fRoot;
+    }
+  }
+
+  const residual = Math.abs(fRoot) / scale;
+  return { root, value: fRoot + target, iterations, converged: residual <= tolerance, residual };
+}
+
+/**
+ * Fixed-point iteration result
+ */
+export interface FixedPointResult {
+  root: number;             // Last evaluation g(x)
+  iterations: number;       // Evaluations of g performed
+  converged: boolean;       // |g(x) - x| within tolerance
+  residual: number;         // Relative residual |g(x) - x| / |g(x)|
+}
+
+/**
+ * Solve x = g(x) by successive substitution with Wegstein acceleration
+ * The secant slope of g rescales each step, so the iteration also converges
+ * where plain substitution would diverge (|g'| > 1). The returned root is the
+ * value of the last evaluation of g, so any state captured by g during that
+ * evaluation belongs to the returned root.
+ *
+ * @param g Iteration function (x > 0)
+ * @param x0 Initial estimate
+ * @param options Tolerance and iteration limit
+ */
+export function solveFixedPoint(
+  g: (x: number) => number,
+  x0: number,
+  options: SolverOptions = {}
+): FixedPointResult {
+  const tolerance = options.tolerance ?? CONSTANTS.THRESHOLD.TOLERANCE;
+  const maxIterations = options.maxIterations ?? 50;
+
+  let x = x0;
+  let gx = g(x);
+  let residual = Math.abs(gx - x) / (Math.abs(gx) || 1);
+  let iterations = 1;
+
+  // First step is plain substitution
+  let xPrev = x;
+  let gPrev = gx;
+  x = gx;
+
+  while (residual > tolerance && iterations < maxIterations) {
+    iterations++;
+    gx = g(x);
+    residual = Math.abs(gx - x) / (Math.abs(gx) || 1);
+    if (residual <= tolerance) break;
+
+    // Wegstein step: x = q×x + (1-q)×g(x), q = s/(s-1)
+    const s = (gx - gPrev) / (x - xPrev);
+    let next = Number.isFinite(s) && s !== 1 ? (s * x - gx) / (s - 1) : gx;
+    if (!(next > 0)) next = x / 2;
+
+    xPrev = x;
+    gPrev = gx;
+    x = next;
+  }
+
+  return { root: gx, iterations, converged: residual <= tolerance, residual };
+}
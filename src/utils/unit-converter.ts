@@ -3,6 +3,7 @@
  */
 
 import { CONSTANTS, getPipeSpec } from '../constants/index.js';
+import { calcIF97SaturationPressure, calcIF97SaturationTemperature } from './iapws-if97.js';
 import type {
   PressureUnit,
   TemperatureUnit,
@@ -35,6 +36,28 @@ export function convertPressureToKPaAbs(value: number, unit: PressureUnit): numb
   }
 }
 
+/**
+ * Pressure conversion - Convert from absolute pressure KPa to target unit
+ */
+export function convertPressureFromKPaAbs(valueKPa: number, unit: PressureUnit): number {
+  switch (unit) {
+    case 'MPa(G)':
+      return (valueKPa - 100) / 1000;  // Absolute to gauge pressure
+    case 'MPa(A)':
+      return valueKPa / 1000;
+    case 'KPa(G)':
+      return valueKPa - 100;
+    case 'KPa(A)':
+      return valueKPa;
+    case 'bar(G)':
+      return (valueKPa - 100) / 100;
+    case 'bar(A)':
+      return valueKPa / 100;
+    default:
+      throw new Error(`Unsupported pressure unit: ${unit}`);
+  }
+}
+
 /**
  * Temperature conversion - Convert to Kelvin K
  */
@@ -88,10 +111,11 @@ export function convertDensityToKgM3(value: number, unit: DensityUnit): number {
  * @param rhoN Standard state density Kg/Nm³
  * @param P1 Absolute pressure KPa
  * @param T1 Absolute temperature K
+ * @param Z Compressibility factor at P1, T1
  * @returns Actual density Kg/m³
  */
-export function convertGasDensityToActual(rhoN: number, P1: number, T1: number): number {
-  return rhoN * P1 * CONSTANTS.STD_TEMP / (CONSTANTS.STD_PRESSURE * T1);
+export function convertGasDensityToActual(rhoN: number, P1: number, T1: number, Z: number = 1): number {
+  return rhoN * P1 * CONSTANTS.STD_TEMP / (CONSTANTS.STD_PRESSURE * T1 * Z);
 }
 
 /**
@@ -175,7 +199,8 @@ export function convertGasFlowToNm3h(
   unit: FlowUnit,
   rhoN: number,  // Standard state density Kg/Nm³
   P1: number,    // Absolute pressure KPa
-  T1: number     // Absolute temperature K
+  T1: number,    // Absolute temperature K
+  Z: number = 1  // Compressibility factor at P1, T1
 ): number {
   switch (unit) {
     case 'Nm3/h':
@@ -190,7 +215,7 @@ export function convertGasFlowToNm3h(
       return value * 1000 / rhoN * 3600;
     case 'm3/h':
       // Actual volume -> Standard volume
-      return value * P1 * CONSTANTS.STD_TEMP / (CONSTANTS.STD_PRESSURE * T1);
+      return value * P1 * CONSTANTS.STD_TEMP / (CONSTANTS.STD_PRESSURE * T1 * Z);
     default:
       throw new Error(`Gas flow does not support unit: ${unit}`);
   }
@@ -220,6 +245,84 @@ export function convertSteamFlowToKgh(
   }
 }
 
+/**
+ * Liquid volume flow rate conversion - Convert from m³/h to target unit
+ */
+export function convertLiquidFlowFromM3h(
+  valueM3h: number,
+  unit: FlowUnit,
+  density: number
+): number {
+  switch (unit) {
+    case 'm3/h':
+      return valueM3h;
+    case 'Kg/h':
+      return valueM3h * density;
+    case 'Kg/s':
+      return valueM3h * density / 3600;
+    case 't/h':
+      return valueM3h * density / 1000;
+    case 't/s':
+      return valueM3h * density / 1000 / 3600;
+    default:
+      throw new Error(`Liquid flow does not support unit: ${unit}`);
+  }
+}
+
+/**
+ * Gas standard volume flow rate conversion - Convert from Nm³/h to target unit
+ */
+export function convertGasFlowFromNm3h(
+  valueNm3h: number,
+  unit: FlowUnit,
+  rhoN: number,  // Standard state density Kg/Nm³
+  P1: number,    // Absolute pressure KPa
+  T1: number,    // Absolute temperature K
+  Z: number = 1  // Compressibility factor at P1, T1
+): number {
+  switch (unit) {
+    case 'Nm3/h':
+      return valueNm3h;
+    case 'Kg/h':
+      return valueNm3h * rhoN;
+    case 'Kg/s':
+      return valueNm3h * rhoN / 3600;
+    case 't/h':
+      return valueNm3h * rhoN / 1000;
+    case 't/s':
+      return valueNm3h * rhoN / 1000 / 3600;
+    case 'm3/h':
+      // Standard volume -> Actual volume
+      return valueNm3h * CONSTANTS.STD_PRESSURE * T1 * Z / (P1 * CONSTANTS.STD_TEMP);
+    default:
+      throw new Error(`Gas flow does not support unit: ${unit}`);
+  }
+}
+
+/**
+ * Steam mass flow rate conversion - Convert from Kg/h to target unit
+ */
+export function convertSteamFlowFromKgh(
+  valueKgh: number,
+  unit: FlowUnit,
+  density: number  // Steam density Kg/m³
+): number {
+  switch (unit) {
+    case 'Kg/h':
+      return valueKgh;
+    case 'Kg/s':
+      return valueKgh / 3600;
+    case 't/h':
+      return valueKgh / 1000;
+    case 't/s':
+      return valueKgh / 1000 / 3600;
+    case 'm3/h':
+      return valueKgh / density;
+    default:
+      throw new Error(`Steam flow does not support unit: ${unit}`);
+  }
+}
+
 /**
  * Calculate pipe inner diameter
  * @param outerDiameter Outer diameter mm
@@ -272,27 +375,22 @@ export function calcRelativeDensity(density: number): number {
 }
 
 /**
- * Calculate saturation vapor pressure (Antoine equation, water)
+ * Calculate saturation vapor pressure (IAPWS-IF97 Region 4, water)
+ * Above the critical temperature the critical pressure is returned.
  * @param tempCelsius Temperature ℃
  * @returns Saturation vapor pressure KPa
  */
 export function calcSaturationPressure(tempCelsius: number): number {
-  const { A, B, C } = CONSTANTS.ANTOINE;
-  // log10(Pv) = A - B/(C + T)
-  const logPv = A - B / (C + tempCelsius);
-  return Math.pow(10, logPv);
+  return calcIF97SaturationPressure(tempCelsius + CONSTANTS.STD_TEMP);
 }
 
 /**
- * Calculate saturation temperature (inverse Antoine equation, water)
+ * Calculate saturation temperature (IAPWS-IF97 Region 4, water)
  * @param pressureKPa Absolute pressure KPa
  * @returns Saturation temperature ℃
  */
 export function calcSaturationTemperature(pressureKPa: number): number {
-  if (pressureKPa <= 0) return NaN;
-  const { A, B, C } = CONSTANTS.ANTOINE;
-  // T = B/(A - log10(Pv)) - C
-  return B / (A - Math.log10(pressureKPa)) - C;
+  return calcIF97SaturationTemperature(pressureKPa) - CONSTANTS.STD_TEMP;
 }
 
 /**
@@ -0,0 +1,146 @@
+/**
+ * Minimal XML Parser
+ * Enough XML for data files: elements, attributes, text, comments, CDATA,
+ * processing instructions and the predefined/numeric entities.
+ * No DTD, namespace or encoding handling (input is a decoded string).
+ */
+
+/**
+ * Parsed XML element
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;             // Concatenated, trimmed text content
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * Replace predefined and numeric character references
+ */
+export function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, ref: string) => {
+    if (ref.startsWith('#x')) return String.fromCodePoint(parseInt(ref.slice(2), 16));
+    if (ref.startsWith('#')) return String.fromCodePoint(parseInt(ref.slice(1), 10));
+    if (ref in ENTITIES) return ENTITIES[ref];
+    throw new Error(`Unknown XML entity: ${match}`);
+  });
+}
+
+/**
+ * Parse an XML document and return its root element
+ */
+export function parseXml(xml: string): XmlElement {
+  let pos = 0;
+  const stack: XmlElement[] = [];
+  const texts: string[][] = [];
+  let root: XmlElement | null = null;
+
+  const fail = (message: string): never => {
+    const line = xml.slice(0, pos).split('\n').length;
+    throw new Error(`XML parse error at line ${line}: ${message}`);
+  };
+
+  const skipTo = (terminator: string): string => {
+    const end = xml.indexOf(terminator, pos);
+    if (end < 0) fail(`missing '${terminator}'`);
+    const content = xml.slice(pos, end);
+    pos = end + terminator.length;
+    return content;
+  };
+
+  // Tag body up to the closing '>', skipping '>' inside quoted attribute values
+  const readTag = (): string => {
+    let quote: string | null = null;
+    for (let i = pos; i < xml.length; i++) {
+      const ch = xml[i];
+      if (quote) {
+        if (ch === quote) quote = null;
+      } else if (ch === '"' || ch === "'") {
+        quote = ch;
+      } else if (ch === '>') {
+        const tag = xml.slice(pos, i);
+        pos = i + 1;
+        return tag;
+      }
+    }
+    return fail("missing '>'");
+  };
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf('<', pos);
+    const textEnd = lt < 0 ? xml.length : lt;
+    if (textEnd > pos) {
+      const text = xml.slice(pos, textEnd);
+      if (stack.length > 0) {
+        texts[texts.length - 1].push(decodeXmlEntities(text));
+      } else if (text.trim()) {
+        fail('text outside the root element');
+      }
+      pos = textEnd;
+      continue;
+    }
+
+    if (xml.startsWith('<!--', pos)) {
+      pos += 4;
+      skipTo('-->');
+    } else if (xml.startsWith('<![CDATA[', pos)) {
+      pos += 9;
+      const data = skipTo(']]>');
+      if (stack.length === 0) fail('CDATA outside the root element');
+      texts[texts.length - 1].push(data);
+    } else if (xml.startsWith('<?', pos) || xml.startsWith('<!', pos)) {
+      pos += 2;
+      skipTo('>');
+    } else if (xml.startsWith('</', pos)) {
+      pos += 2;
+      const name = skipTo('>').trim();
+      const element = stack.pop();
+      if (!element || element.name !== name) fail(`unexpected closing tag </${name}>`);
+      element!.text = texts.pop()!.join('').trim();
+    } else {
+      pos += 1;
+      const tag = readTag();
+      const selfClosing = tag.endsWith('/');
+      const body = selfClosing ? tag.slice(0, -1) : tag;
+      const nameMatch = /^([A-Za-z_][\w.:-]*)/.exec(body);
+      if (!nameMatch) fail(`invalid tag <${tag}>`);
+
+      const element: XmlElement = { name: nameMatch![1], attributes: {}, children: [], text: '' };
+      const attributePattern = /\s+([A-Za-z_][\w.:-]*)\s*=\s*("([^"]*)"|'([^']*)')/g;
+      const rest = body.slice(nameMatch![1].length);
+      let consumed = 0;
+      let match: RegExpExecArray | null;
+      while ((match = attributePattern.exec(rest)) !== null) {
+        if (match.index !== consumed) break;
+        element.attributes[match[1]] = decodeXmlEntities(match[3] ?? match[4]);
+        consumed = attributePattern.lastIndex;
+      }
+      if (rest.slice(consumed).trim()) fail(`invalid attributes in <${element.name}>`);
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        fail('more than one root element');
+      } else {
+        root = element;
+      }
+      if (!selfClosing) {
+        stack.push(element);
+        texts.push([]);
+      }
+    }
+  }
+
+  if (stack.length > 0) fail(`unclosed element <${stack[stack.length - 1].name}>`);
+  if (!root) fail('no root element');
+  return root!;
+}
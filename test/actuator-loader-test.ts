@@ -0,0 +1,210 @@
+#!/usr/bin/env bun
+/**
+ * 执行机构目录导入测试
+ * XML / JSON 解析, 缺少扭矩和重复型号校验, 导入后参与选型
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseActuatorCatalogXml, parseActuatorCatalogJson, registerActuatorBrands } from '../src/data/actuator-loader.js';
+import { importActuatorCatalog } from '../src/data/actuator-loader-file.js';
+import { getActuatorAction, getActuatorModels, getActuatorSpec } from '../src/data/actuator-data.js';
+import { selectActuator } from '../src/calculators/actuator-sizing.js';
+
+// XML 目录: 属性与子元素混用, 含实体, 引号和注释
+const xmlCatalog = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- 测试目录 -->
+<ActuatorCatalog>
+  <Brand name="测试厂">
+    <Type name="拨叉气缸">
+      <SingleAction>
+        <Actuator model="TC-100SR" airConnection='1/4"NPT' torque04="80" torque05="100"/>
+        <Actuator>
+          <model>TC-200SR</model>
+          <airConnection>G1/4&quot;</airConnection>
+          <torque04>160</torque04>
+          <torque05></torque05>
+        </Actuator>
+      </SingleAction>
+      <DoubleAction>
+        <Actuator model="TC-100DA" airConnection="G1/4&quot;" torque04="400" torque05="500" handwheel="HW&amp;1"/>
+        <Actuator model="TC-300DA" airConnection="G1/4&quot;" torque04="" torque05=""/>
+        <Actuator model="TC-100DA" airConnection="G1/4&quot;" torque04="410" torque05="510"/>
+      </DoubleAction>
+    </Type>
+  </Brand>
+</ActuatorCatalog>`;
+
+// XML 解析与校验
+function runXmlCase(): boolean {
+  const result = parseActuatorCatalogXml(xmlCatalog);
+  const type = result.brands[0]?.types[0];
+  const sr = type?.singleAction ?? [];
+  const da = type?.doubleAction ?? [];
+
+  const parsed = sr.length === 2 && da.length === 1
+    && sr[0].airConnection === '1/4"NPT' && sr[1].torque05 === null
+    && da[0].torque05 === 500 && da[0].handwheel === 'HW&1';
+  const errors = result.errors.length === 2
+    && result.errors.some(e => e.includes('TC-300DA') && e.includes('missing torque'))
+    && result.errors.some(e => e.includes('TC-100DA') && e.includes('duplicate'));
+  const warnings = result.warnings.length === 1 && result.warnings[0].includes('TC-200SR');
+
+  if (parsed && errors && warnings) {
+    console.log(`  ✓ 通过: 导入 ${sr.length + da.length} 个型号, 错误: ${result.errors.join(' | ')}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: 解析 ${parsed}, 错误 ${result.errors.join(' | ')}, 警告 ${result.warnings.join(' | ')}`);
+  return false;
+}
+
+// JSON 解析与校验: 非数值扭矩, 单/双作用分组不符
+function runJsonCase(): boolean {
+  const json = JSON.stringify({
+    brand: '测试厂',
+    types: [{
+      type: '齿轮齿条气缸',
+      singleAction: [
+        { model: 'TJ-50SR', airConnection: 'G1/4"', torque04: 40, torque05: 50 },
+        { model: 'TJ-60DA', airConnection: 'G1/4"', torque04: 60, torque05: 75 },
+        { model: 'TJ-70SR', airConnection: 'G1/4"', torque04: 'abc', torque05: 90 }
+      ],
+      doubleAction: []
+    }]
+  });
+  const result = parseActuatorCatalogJson(json);
+  const models = result.brands[0]?.types[0]?.singleAction.map(s => s.model) ?? [];
+
+  if (models.join(',') === 'TJ-50SR,TJ-60DA'
+    && result.errors.length === 1 && result.errors[0].includes('TJ-70SR')
+    && result.warnings.length === 1 && result.warnings[0].includes('TJ-60DA')) {
+    console.log(`  ✓ 通过: ${models.join(', ')}, 错误: ${result.errors[0]}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${models.join(', ')}, 错误 ${result.errors.join(' | ')}, 警告 ${result.warnings.join(' | ')}`);
+  return false;
+}
+
+// 从文件导入后可查询, 可选型; 与已有型号重复时跳过
+function runImportCase(): boolean {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'actuator-catalog-'));
+  try {
+    const xmlFile = path.join(dir, 'catalog.xml');
+    fs.writeFileSync(xmlFile, xmlCatalog, 'utf-8');
+    const imported = importActuatorCatalog(xmlFile);
+
+    const jsonFile = path.join(dir, 'catalog.json');
+    fs.writeFileSync(jsonFile, JSON.stringify([{
+      brand: '华尔式',
+      types: [{
+        type: '拨叉气缸',
+        singleAction: [{ model: 'HG0-P180-SR2', airConnection: '1/4"NPT', torque04: 1, torque05: 1 }],
+        doubleAction: []
+      }]
+    }]), 'utf-8');
+    const duplicate = importActuatorCatalog(jsonFile);
+
+    const models = getActuatorModels('测试厂', '拨叉气缸', 'double');
+    const original = getActuatorSpec('华尔式', '拨叉气缸', 'HG0-P180-SR2');
+    const selection = selectActuator({
+      motion: 'Rotary', shutoffPressure: 0, seatDiameter: 100, seatTorque: 300,
+      supplyPressure: 0.5, action: 'double', brand: '测试厂'
+    });
+
+    let unsupported = false;
+    try {
+      importActuatorCatalog(path.join(dir, 'catalog.csv'));
+    } catch {
+      unsupported = true;
+    }
+
+    const label = `双作用型号 ${models.join(', ')}, 选型 ${selection.selected?.model}`;
+    if (imported.errors.length === 2 && models.join(',') === 'TC-100DA'
+      && selection.selected?.model === 'TC-100DA'
+      && duplicate.errors.length === 1 && original?.torque05 === 340 && unsupported) {
+      console.log(`  ✓ 通过: ${label}, 重复: ${duplicate.errors[0]}`);
+      return true;
+    }
+    console.log(`  ✗ 失败: ${label}, 重复 ${duplicate.errors.join(' | ')}, 不支持格式 ${unsupported}`);
+    return false;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// 型号不含 SR/DA 时按所在列表确定作用方式
+// 双作用 PA-100: 0.4/0.5MPa 400/500 Nm, 0.35MPa 外推 350 Nm, 0.6MPa 600 Nm (不受单作用 0.5MPa 上限限制)
+function runActionFromListCase(): boolean {
+  const { brands } = parseActuatorCatalogJson(JSON.stringify({
+    brand: '命名测试厂',
+    types: [{
+      type: '齿轮齿条气缸',
+      singleAction: [{ model: 'PS-100', airConnection: 'G1/4"', torque04: 300, torque05: 300 }],
+      doubleAction: [{ model: 'PA-100', airConnection: 'G1/4"', torque04: 400, torque05: 500 }]
+    }]
+  }));
+  registerActuatorBrands(brands);
+
+  const select = (supplyPressure: number) => selectActuator({
+    motion: 'Rotary', shutoffPressure: 0, seatDiameter: 100, seatTorque: 200,
+    supplyPressure, action: 'double', brand: '命名测试厂'
+  }).selected?.outputTorque;
+  const low = select(0.35);
+  const high = select(0.6);
+  const actions = ['PS-100', 'PA-100'].map(m => getActuatorAction('命名测试厂', '齿轮齿条气缸', m));
+
+  const label = `PA-100 0.35MPa ${low} Nm, 0.6MPa ${high} Nm, 作用方式 ${actions.join('/')}`;
+  if (low !== undefined && Math.abs(low - 350) < 1e-9 && high !== undefined && Math.abs(high - 600) < 1e-9
+    && actions.join(',') === 'single,double') {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 格式错误的 XML 报行号
+function runMalformedCase(): boolean {
+  try {
+    parseActuatorCatalogXml('<ActuatorCatalog>\n  <Brand name="A">\n</ActuatorCatalog>');
+  } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes('line 3')) {
+      console.log(`  ✓ 通过: ${message}`);
+      return true;
+    }
+    console.log(`  ✗ 失败: ${message}`);
+    return false;
+  }
+  console.log('  ✗ 失败: 应抛出解析错误');
+  return false;
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  执行机构目录导入测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const runs = [runXmlCase, runJsonCase, runImportCase, runActionFromListCase, runMalformedCase];
+  for (const run of runs) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,171 @@
+#!/usr/bin/env bun
+/**
+ * 执行机构选型测试
+ * 阀门关断负载 (推力/扭矩) 手算校核, 任意气源压力下的扭矩, 以及按气源压力选择最小合适型号
+ */
+
+import { calculateActuatorLoad, selectActuator, calcMinStrokeTorque } from '../src/calculators/actuator-sizing.js';
+import type { ActuatorLoadParams, ActuatorSelectionParams } from '../src/calculators/actuator-sizing.js';
+import { getActuatorSpec, getActuatorTorques } from '../src/data/actuator-data.js';
+import type { ActuatorSpec } from '../src/data/actuator-data.js';
+
+// 蝶阀 DN200: ΔP 1000 KPa, 阀轴 30mm, 密封扭矩 150 Nm, 填料 20 Nm
+// 轴承摩擦 = 0.15 × 1000/1000 × π/4 × 200² × 15 / 1000 = 70.69 Nm
+// 需求扭矩 = (150 + 20 + 70.69) × 1.25 = 300.86 Nm
+const butterfly: ActuatorLoadParams = {
+  motion: 'Rotary',
+  shutoffPressure: 1000,
+  seatDiameter: 200,
+  stemDiameter: 30,
+  seatTorque: 150,
+  packingFriction: 20
+};
+
+// 单座阀 阀座 50mm: ΔP 1600 KPa, 填料 200 N
+// 不平衡力 3141.6 N + 阀座载荷 7.1 × π × 50 = 1115.3 N + 200 N, × 1.25 = 5571.1 N
+const globe: ActuatorLoadParams = {
+  motion: 'Linear',
+  shutoffPressure: 1600,
+  seatDiameter: 50,
+  packingFriction: 200
+};
+
+// 负载手算校核
+function runLoadCase(): boolean {
+  const rotary = calculateActuatorLoad(butterfly);
+  const linear = calculateActuatorLoad(globe);
+
+  const label = `扭矩 ${rotary.required.toFixed(2)} ${rotary.unit}, 推力 ${linear.required.toFixed(1)} ${linear.unit}`;
+  if (Math.abs(rotary.required - 300.86) < 0.01 && Math.abs(linear.required - 5571.1) < 0.1) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 未给密封扭矩: 由关断压差和阀座直径计算, 需求扭矩随压差增大
+// 球阀 阀座 150mm, ΔP 4000 KPa: 不平衡力 = 4 × π/4 × 150² = 70686 N
+// 密封扭矩 = 0.1 × 70686 × 75 / 1000 = 530.14 Nm, 需求扭矩 = 530.14 × 1.25 = 662.68 Nm
+function runSeatTorqueCase(): boolean {
+  const ball: ActuatorLoadParams = { motion: 'Rotary', shutoffPressure: 4000, seatDiameter: 150 };
+  const required = [1000, 2000, 4000].map(dp => calculateActuatorLoad({ ...ball, shutoffPressure: dp }).required);
+  const load = calculateActuatorLoad(ball);
+
+  const label = `ΔP 1000/2000/4000 KPa → ${required.map(t => t.toFixed(2)).join(' / ')} Nm`;
+  if (Math.abs(load.unbalancedForce - 70685.8) < 0.1 && Math.abs(load.seating - 530.14) < 0.01
+    && Math.abs(load.required - 662.68) < 0.01 && required[0] < required[1] && required[1] < required[2]) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 按作用方式和气源压力选择最小合适型号
+function runSelectionCase(name: string, params: Partial<ActuatorSelectionParams>, expected: string): boolean {
+  const result = selectActuator({ ...butterfly, supplyPressure: 0.5, action: 'double', ...params });
+  const selected = result.selected;
+  const label = `${name} → ${selected?.brand} ${selected?.model} ${selected?.outputTorque} Nm, 余量 ${result.margin?.toFixed(2)}`;
+
+  const smallest = result.candidates.every(c => c.outputTorque >= (selected?.outputTorque ?? Infinity));
+  if (selected?.model === expected && smallest && selected.outputTorque >= result.load.required) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}, 期望 ${expected}`);
+  return false;
+}
+
+// 任意气源压力: 双作用按额定值插值/外推, 单作用无弹簧数据时不外推
+function runInterpolationCase(): boolean {
+  const da = getActuatorSpec('华尔式', '拨叉气缸', 'HG0-P180-DA')!;
+  const sr = getActuatorSpec('华尔式', '拨叉气缸', 'HG0-P180-SR2')!;
+  const srNoRating = getActuatorSpec('华尔式', '拨叉气缸', 'HG0-P180-SR3')!;
+
+  const daTorques = [0.35, 0.45, 0.6].map(p => getActuatorTorques(da, p, 'double')!.airStart);
+  const srHigh = getActuatorTorques(sr, 0.6, 'single');
+  const srLow = getActuatorTorques(sr, 0.35, 'single');
+  const srMissing = getActuatorTorques(srNoRating, 0.45, 'single');
+
+  const label = `双作用 ${daTorques.map(t => t.toFixed(1)).join(' / ')} Nm, 单作用 0.6MPa ${srHigh?.airStart} Nm`;
+  if (Math.abs(daTorques[0] - 778) < 1e-9 && Math.abs(daTorques[1] - 1000) < 1e-9 && Math.abs(daTorques[2] - 1333) < 1e-9
+    && srHigh?.springEnd === 340 && srLow === null && srMissing === null) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 单作用弹簧数据: 气动起点 = k×P - 弹簧终点, 气动终点 = k×P - 弹簧起点
+function runSpringCase(): boolean {
+  const spec: ActuatorSpec = {
+    model: 'TEST-SR', airConnection: 'G1/4"', torque04: null, torque05: null,
+    springStart: 300, springEnd: 200, airTorquePerMPa: 1500
+  };
+  const torques = getActuatorTorques(spec, 0.5, 'single')!;
+  const weak = getActuatorTorques(spec, 0.2, 'single');
+
+  const label = `气动 ${torques.airStart}/${torques.airEnd} Nm, 弹簧 ${torques.springStart}/${torques.springEnd} Nm`;
+  if (torques.airStart === 550 && torques.airEnd === 450 && calcMinStrokeTorque(torques) === 200 && weak === null) {
+    console.log(`  ✓ 通过: ${label}, 最小 ${calcMinStrokeTorque(torques)} Nm`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 无法选型: 直行程阀, 气源不足, 扭矩超出范围
+function runNoSelectionCase(): boolean {
+  const linear = selectActuator({ ...globe, supplyPressure: 0.5, action: 'single' });
+  const lowSupply = selectActuator({ ...butterfly, supplyPressure: 0.3, action: 'single' });
+  const tooLarge = selectActuator({ ...butterfly, seatTorque: 200000, supplyPressure: 0.5, action: 'double' });
+
+  const results = [linear, lowSupply, tooLarge];
+  if (results.every(r => r.selected === null && r.warnings.length === 1)) {
+    console.log(`  ✓ 通过: ${results.map(r => r.warnings[0]).join(' | ')}`);
+    return true;
+  }
+  console.log('  ✗ 失败: 应无选型结果');
+  return false;
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  执行机构选型测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const runs = [
+    runLoadCase,
+    runSeatTorqueCase,
+    () => runSelectionCase('双作用 0.5MPa', {}, 'YSZ-A145DA'),
+    () => runSelectionCase('单作用 0.5MPa', { action: 'single' }, 'HG0-P180-SR2'),
+    () => runSelectionCase('永盛 单作用 0.5MPa', { action: 'single', brand: '永盛' }, 'YSZ-A190SR'),
+    () => runSelectionCase('永盛 单作用 0.4MPa', { action: 'single', supplyPressure: 0.4, brand: '永盛' }, 'YSZ-A210SR'),
+    () => runSelectionCase('双作用 0.3MPa', { supplyPressure: 0.3 }, 'YSZ-A160DA'),
+    runInterpolationCase,
+    runSpringCase,
+    runNoSelectionCase
+  ];
+  for (const run of runs) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
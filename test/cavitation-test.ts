@@ -0,0 +1,150 @@
+#!/usr/bin/env bun
+/**
+ * 空化评估测试
+ * σ 与 xFz (N34=1.17) 手算校核, 空化等级与阀内件推荐, 多级降压级数, 综合计算中的空化警告
+ */
+
+import { assessCavitation } from '../src/calculators/cavitation.js';
+import type { CavitationParams } from '../src/calculators/cavitation.js';
+import { KvCalculator } from '../src/kv-calculator.js';
+import type { CavitationLevel, KvInput, ValveInternalsType } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// P1 = 1000 KPa(A), Pv = 10 KPa, FL = 0.9, Fd = 0.42, Kv = 20
+// xFz = 0.9/√(1 + 3×0.42×√(20/(1.17×0.9))) = 0.35325, xFzp1 = xFz × (600/1000)^0.125 = 0.33140
+// σi = 1/xFzp1 = 3.0175, σc = 1/(0.8×0.81) = 1.5432, σmv = 1/0.81 = 1.2346
+const base: CavitationParams = { P1: 1000, P2: 700, Pv: 10, FL: 0.9, Fd: 0.42, C: 20 };
+
+// σ, xFz 及默认界限手算校核
+function runHandCalcCase(): boolean {
+  const result = assessCavitation(base);
+  const { limits } = result;
+
+  const label = `σ=${result.sigma.toFixed(3)}, xFz=${result.xFz.toFixed(5)}, σi/σc/σmv=${limits.incipient.toFixed(4)}/${limits.constant.toFixed(4)}/${limits.damage.toFixed(4)}`;
+  if (Math.abs(result.sigma - 3.3) < 1e-9 && Math.abs(result.xFz - 0.35325) < 1e-5
+    && Math.abs(result.xFzp1 - 0.33140) < 1e-5 && Math.abs(limits.incipient - 3.0175) < 1e-4
+    && Math.abs(limits.constant - 1.5432) < 1e-4 && Math.abs(limits.damage - 1.2346) < 1e-4) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 出口压力逐步降低: 等级与推荐阀内件
+function runLevelCase(): boolean {
+  const expected: [number, CavitationLevel, ValveInternalsType][] = [
+    [800, 'None', 'Standard'],
+    [600, 'Incipient', 'Standard'],
+    [350, 'Constant', 'Anti-cavitation Trim'],
+    [150, 'Damage', 'Multi-stage Pressure Reduction'],
+    [5, 'Flashing', 'Standard']
+  ];
+
+  let ok = true;
+  const labels: string[] = [];
+  for (const [P2, level, internals] of expected) {
+    const result = assessCavitation({ ...base, P2 });
+    labels.push(`${P2}KPa σ=${result.sigma.toFixed(2)} ${result.level}`);
+    ok = ok && result.level === level && result.recommendedInternals === internals;
+  }
+
+  // 多级降压: 末级 σ = 1 + n×(P2-Pv)/ΔP ≥ σc → n = ⌈0.5432×850/140⌉ = 4
+  const damage = assessCavitation({ ...base, P2: 150 });
+  ok = ok && damage.stages === 4;
+
+  if (ok) {
+    console.log(`  ✓ 通过: ${labels.join(', ')}, 多级 ${damage.stages} 级`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${labels.join(', ')}, 多级 ${damage.stages} 级`);
+  return false;
+}
+
+// 厂家 σ 界限: 优先于默认值, 级数过多时建议分散压降, 界限顺序错误时报错
+function runManufacturerLimitsCase(): boolean {
+  const limits = { incipient: 3, constant: 2, damage: 1.5 };
+  const staged = assessCavitation({ P1: 5000, P2: 1500, Pv: 10, FL: 0.9, Fd: 0.42, C: 20, limits });
+  const tooMany = assessCavitation({ P1: 5000, P2: 500, Pv: 10, FL: 0.9, Fd: 0.42, C: 20, limits });
+
+  let invalid = false;
+  try {
+    assessCavitation({ ...base, limits: { constant: 3, damage: 4 } });
+  } catch {
+    invalid = true;
+  }
+
+  const label = `σ=${staged.sigma.toFixed(3)} → ${staged.stages} 级; σ=${tooMany.sigma.toFixed(3)} → ${tooMany.message}`;
+  if (staged.level === 'Damage' && staged.stages === 3 && staged.limits.incipient === 3
+    && tooMany.stages === 10 && tooMany.message.includes('split') && invalid) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}, 界限校验 ${invalid}`);
+  return false;
+}
+
+// 综合计算: 标准阀内件给出空化警告, 多级降压阀内件不警告
+function runCalculatorCase(): boolean {
+  const input: KvInput = {
+    fluidType: 'Liquid',
+    fluidName: 'Water',
+    temperature: 30,
+    tempUnit: '℃',
+    flowRate: 40,
+    flowUnit: 'm3/h',
+    P1: 1.0,
+    P2: 0.1,
+    pressureUnit: 'MPa(G)',
+    DN: 80,
+    seatSize: 80,
+    ratedKv: 110,
+    FL: 0.9,
+    XT: 0.72,
+    Fd: 0.46,
+    flowChar: 'Equal Percentage',
+    rangeability: 50
+  };
+  const standard = calculator.calculate(input);
+  const multiStage = calculator.calculate({ ...input, valveInternalsType: 'Multi-stage Pressure Reduction' });
+  const cavitation = standard.cavitation;
+
+  const label = `σ=${cavitation?.sigma.toFixed(3)} ${cavitation?.level} → ${cavitation?.recommendedInternals}`;
+  if (cavitation?.level === 'Damage'
+    && standard.warnings?.includes(cavitation.message)
+    && !multiStage.warnings?.includes(cavitation.message)) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}, 警告 ${standard.warnings?.join(' | ')}`);
+  return false;
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  空化评估测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const runs = [runHandCalcCase, runLevelCase, runManufacturerLimitsCase, runCalculatorCase];
+  for (const run of runs) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,170 @@
+#!/usr/bin/env bun
+/**
+ * 表格流量特性测试
+ * 单调插值 (PCHIP), 开度 ↔ Kv 往返, 以及 Tabulated 特性用于计算器
+ */
+
+import { KvCalculator } from '../src/kv-calculator.js';
+import {
+  calcTabulatedKvPercent,
+  calcTabulatedTravel
+} from '../src/calculators/characteristic-table.js';
+import { calcValveOpening, calcKvAtOpening } from '../src/calculators/valve-opening.js';
+import type { CharacteristicPoint, KvInput } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// 等百分比 R=50 每 10% 行程取点
+const equalPercentageTable: CharacteristicPoint[] = Array.from({ length: 11 }, (_, i) => ({
+  travel: i * 10,
+  kv: i === 0 ? 0 : 100 * Math.pow(50, i / 10 - 1)
+}));
+
+// 蝶阀修正抛物线特性 (厂家实测数据, 含平台段)
+const butterflyTable: CharacteristicPoint[] = [
+  { travel: 0, kv: 0 },
+  { travel: 10, kv: 1.5 },
+  { travel: 20, kv: 4 },
+  { travel: 30, kv: 9 },
+  { travel: 40, kv: 17 },
+  { travel: 50, kv: 30 },
+  { travel: 60, kv: 48 },
+  { travel: 70, kv: 70 },
+  { travel: 80, kv: 88 },
+  { travel: 85, kv: 100 },
+  { travel: 100, kv: 100 }
+];
+
+// 表格取自理想等百分比曲线时, 插值开度与公式开度一致
+function runEqualPercentageCase(): boolean {
+  let maxError = 0;
+  for (const kvPercent of [5, 10, 25, 50, 75]) {
+    const tabulated = calcValveOpening(kvPercent, 100, 50, 'Tabulated', equalPercentageTable);
+    const ideal = calcValveOpening(kvPercent, 100, 50, 'Equal Percentage');
+    maxError = Math.max(maxError, Math.abs(tabulated - ideal));
+  }
+
+  if (maxError < 0.5) {
+    console.log(`  ✓ 通过: 等百分比表格, 开度最大偏差 ${maxError.toFixed(3)}%`);
+    return true;
+  }
+  console.log(`  ✗ 失败: 等百分比表格, 开度最大偏差 ${maxError.toFixed(3)}%`);
+  return false;
+}
+
+// 插值单调不过冲, 表格点处取原值, 行程→Kv→行程往返一致
+function runMonotonicCase(): boolean {
+  let monotonic = true;
+  let bounded = true;
+  let maxRoundTrip = 0;
+  let prev = -Infinity;
+  for (let travel = 0; travel <= 100; travel += 0.5) {
+    const kv = calcTabulatedKvPercent(travel, butterflyTable);
+    if (kv < prev - 1e-12) monotonic = false;
+    const k = butterflyTable.findIndex((p, i) => travel >= p.travel && travel <= butterflyTable[i + 1]?.travel);
+    if (kv < butterflyTable[k].kv - 1e-12 || kv > butterflyTable[k + 1].kv + 1e-12) bounded = false;
+    if (travel > 0 && travel < 85) {
+      maxRoundTrip = Math.max(maxRoundTrip, Math.abs(calcTabulatedTravel(kv, butterflyTable) - travel));
+    }
+    prev = kv;
+  }
+  const exact = butterflyTable.every(p => Math.abs(calcTabulatedKvPercent(p.travel, butterflyTable) - p.kv) < 1e-12);
+
+  const label = `单调 ${monotonic}, 不过冲 ${bounded}, 过点 ${exact}, 往返偏差 ${maxRoundTrip.toExponential(2)}%`;
+  if (monotonic && bounded && exact && maxRoundTrip < 1e-9 && calcTabulatedTravel(100, butterflyTable) === 85) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// Tabulated 特性: 正向计算开度, 再由开度求流量, 往返一致
+function runCalculatorCase(): boolean {
+  const input: KvInput = {
+    fluidType: 'Liquid',
+    fluidName: 'Water',
+    temperature: 40,
+    tempUnit: '℃',
+    flowRate: 300,
+    flowUnit: 'm3/h',
+    P1: 0.6,
+    P2: 0.45,
+    pressureUnit: 'MPa(G)',
+    DN: 200,
+    FL: 0.7,
+    XT: 0.42,
+    Fd: 0.57,
+    flowChar: 'Tabulated',
+    characteristicTable: butterflyTable,
+    rangeability: 30,
+    ratedKv: 1650
+  };
+
+  try {
+    const result = calculator.calculate(input);
+    const kvAtOpening = calcKvAtOpening(result.valveOpening, 1650, 30, 'Tabulated', butterflyTable);
+    const { flowRate: _flowRate, ...rest } = input;
+    const flow = calculator.calculateFlow({ ...rest, opening: result.valveOpening });
+
+    const label = `Kv=${result.calculatedKv.toFixed(2)}, 开度=${result.valveOpening.toFixed(2)}%, 反算流量=${flow.flowRate.toFixed(3)} m3/h`;
+    if (Math.abs(kvAtOpening - result.calculatedKv) / result.calculatedKv < 1e-9
+      && Math.abs(flow.flowRate - 300) / 300 < 1e-3) {
+      console.log(`  ✓ 通过: ${label}`);
+      return true;
+    }
+    console.log(`  ✗ 失败: ${label}`);
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// 缺少表格或表格 Kv% 下降时报错
+function runValidationCase(): boolean {
+  const throws = (fn: () => unknown) => {
+    try {
+      fn();
+      return false;
+    } catch {
+      return true;
+    }
+  };
+  const missing = throws(() => calcValveOpening(50, 100, 50, 'Tabulated'));
+  const decreasing = throws(() => calcTabulatedKvPercent(50, [{ travel: 0, kv: 0 }, { travel: 50, kv: 60 }, { travel: 100, kv: 40 }]));
+
+  if (missing && decreasing) {
+    console.log('  ✓ 通过: 缺少表格与 Kv% 下降均报错');
+    return true;
+  }
+  console.log(`  ✗ 失败: 缺少表格报错 ${missing}, Kv% 下降报错 ${decreasing}`);
+  return false;
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  表格流量特性测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const run of [runEqualPercentageCase, runMonotonicCase, runCalculatorCase, runValidationCase]) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
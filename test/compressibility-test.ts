@@ -0,0 +1,204 @@
+#!/usr/bin/env bun
+/**
+ * 压缩因子计算测试
+ * Peng-Robinson 压缩因子, 气体Kv与噪声出口密度的实际气体修正
+ */
+
+import { KvCalculator } from '../src/kv-calculator.js';
+import { calcCompressibilityZ } from '../src/calculators/compressibility.js';
+import { convertGasDensityToActual } from '../src/utils/unit-converter.js';
+import type { KvInput } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// 允许的相对误差
+const TOLERANCE = 1e-6;
+
+// 压缩因子范围校验 (名称, Z, 下限, 上限)
+const rangeCases: [string, number, number, number][] = [
+  ['氮气 0.1MPa 27℃ (接近理想气体)', calcCompressibilityZ(100, 300, 126.2, 3.398, 0.037), 0.995, 1.0],
+  ['甲烷 10MPa 27℃', calcCompressibilityZ(10000, 300, 190.56, 4.599, 0.011), 0.80, 0.90],
+  ['CO2 5MPa 47℃', calcCompressibilityZ(5000, 320, 304.13, 7.377, 0.225), 0.70, 0.80]
+];
+
+function runRangeCase([name, Z, min, max]: [string, number, number, number]): boolean {
+  if (Z >= min && Z <= max) {
+    console.log(`  ✓ 通过: ${name} Z=${Z.toFixed(4)}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${name} Z=${Z.toFixed(4)} (范围 ${min}~${max})`);
+  return false;
+}
+
+// 高压天然气
+const gasInput: KvInput = {
+  fluidType: 'Gas',
+  fluidName: 'Methane',
+  temperature: 20,
+  tempUnit: '℃',
+  flowRate: 50000,
+  flowUnit: 'Nm3/h',
+  P1: 8.0,
+  P2: 6.5,
+  pressureUnit: 'MPa(G)',
+  DN: 100,
+  FL: 0.9,
+  XT: 0.72,
+  flowChar: 'Equal Percentage',
+  rangeability: 50,
+  ratedKv: 160
+};
+
+// 计算的 Z 与手工输入同样 Z 的结果一致
+function runSizingCase(): boolean {
+  try {
+    const computed = calculator.calculate(gasInput);
+    const { Z, Z2 } = computed.intermediate;
+    const manual = calculator.calculate({ ...gasInput, Z });
+    const ideal = calculator.calculate({ ...gasInput, Z: 1 });
+
+    const label = `Z=${Z?.toFixed(4)}, Z2=${Z2?.toFixed(4)}, Kv=${computed.calculatedKv.toFixed(3)} (理想气体 ${ideal.calculatedKv.toFixed(3)})`;
+    if (Z !== undefined && Z < 1 && manual.calculatedKv === computed.calculatedKv && computed.calculatedKv < ideal.calculatedKv) {
+      console.log(`  ✓ 通过: ${label}`);
+      return true;
+    }
+    console.log(`  ✗ 失败: ${label}`);
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// 高压下未给 Z 和临界参数时给出警告
+function runDefaultWarningCase(): boolean {
+  try {
+    const result = calculator.calculate({
+      ...gasInput,
+      fluidName: undefined,
+      density: 0.717,
+      densityUnit: 'Kg/Nm3'
+    });
+    const warning = result.warnings?.find(w => w.includes('Compressibility'));
+    if (warning) {
+      console.log(`  ✓ 通过: ${warning}`);
+      return true;
+    }
+    console.log('  ✗ 失败: 未给出压缩因子默认值警告');
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// 噪声出口密度 ρ2 = ρ1 × (P2/P1) × (Z1/Z2)
+function runNoiseDensityCase(): boolean {
+  try {
+    const result = calculator.calculateWithNoise(gasInput);
+    const noise = result.noiseResult;
+    const { P1Abs, P2Abs, T1, densityKgM3, Z, Z2 } = result.intermediate;
+    if (!noise || Z === undefined || Z2 === undefined) {
+      console.log('  ✗ 失败: 未返回噪声结果或压缩因子');
+      return false;
+    }
+
+    const rho1 = convertGasDensityToActual(densityKgM3, P1Abs, T1, Z);
+    const expected = rho1 * P2Abs / P1Abs * Z / Z2;
+    const error = Math.abs(noise.intermediate.rho2 - expected) / expected;
+    const label = `ρ1=${rho1.toFixed(3)}, ρ2=${noise.intermediate.rho2.toFixed(3)} kg/m³`;
+    if (error <= TOLERANCE) {
+      console.log(`  ✓ 通过: ${label}`);
+      return true;
+    }
+    console.log(`  ✗ 失败: ${label} (期望 ρ2=${expected.toFixed(3)})`);
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// 同一气体分别以标准密度和工况密度输入, Kv、标准流量和噪声质量流量一致
+// 甲烷 10MPa(A) 300K, Z ≈ 0.834, 工况密度 ρ1 = ρN×P1×Tstd/(Pstd×T1×Z)
+function runDensityUnitCase(): boolean {
+  try {
+    const input: KvInput = {
+      fluidType: 'Gas',
+      temperature: 300,
+      tempUnit: 'K',
+      flowRate: 20000,
+      flowUnit: 'Kg/h',
+      P1: 10000,
+      P2: 8000,
+      pressureUnit: 'KPa(A)',
+      density: 0.717,
+      densityUnit: 'Kg/Nm3',
+      molecularWeight: 16.04,
+      Tc: 190.56,
+      Pc: 4.599,
+      acentricFactor: 0.011,
+      DN: 100,
+      FL: 0.9,
+      XT: 0.72,
+      flowChar: 'Equal Percentage',
+      rangeability: 50,
+      ratedKv: 160
+    };
+    const standard = calculator.calculateWithNoise(input);
+    const { P1Abs, T1, Z } = standard.intermediate;
+    const rho1 = convertGasDensityToActual(0.717, P1Abs, T1, Z);
+    const actual = calculator.calculateWithNoise({ ...input, density: rho1, densityUnit: 'Kg/m3' });
+
+    const kvError = Math.abs(actual.calculatedKv - standard.calculatedKv) / standard.calculatedKv;
+    const qnError = Math.abs(actual.intermediate.normalFlowNm3h! - standard.intermediate.normalFlowNm3h!) / standard.intermediate.normalFlowNm3h!;
+    const label = `Z=${Z?.toFixed(4)}, ρ1=${rho1.toFixed(2)} kg/m³, Kv ${standard.calculatedKv.toFixed(3)} / ${actual.calculatedKv.toFixed(3)}, ` +
+      `Qn ${standard.intermediate.normalFlowNm3h!.toFixed(0)} / ${actual.intermediate.normalFlowNm3h!.toFixed(0)} Nm³/h`;
+    if (kvError <= TOLERANCE && qnError <= TOLERANCE && actual.noiseResult?.noiseLevel === standard.noiseResult?.noiseLevel) {
+      console.log(`  ✓ 通过: ${label}`);
+      return true;
+    }
+    console.log(`  ✗ 失败: ${label}, 噪声 ${standard.noiseResult?.noiseLevel} / ${actual.noiseResult?.noiseLevel} dBA`);
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  压缩因子计算测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  console.log('\n【Peng-Robinson 压缩因子】');
+  for (const testCase of rangeCases) {
+    if (runRangeCase(testCase)) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  console.log('\n【气体计算】');
+  for (const run of [runSizingCase, runDefaultWarningCase, runNoiseDensityCase, runDensityUnitCase]) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
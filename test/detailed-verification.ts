@@ -7,6 +7,7 @@
  */
 
 import { CONSTANTS } from '../src/constants/index.js';
+import { calcIF97SaturationPressure } from '../src/utils/iapws-if97.js';
 
 // ==================== 输入参数 ====================
 // 您可以修改这里的参数进行测试
@@ -122,22 +123,14 @@ function runLiquidCalculation() {
 
   // ===== 第二部分: 饱和蒸汽压计算 =====
   console.log('\n' + '-'.repeat(40));
-  console.log('  第二部分: 饱和蒸汽压计算 (安托因方程)');
+  console.log('  第二部分: 饱和蒸汽压计算 (IAPWS-IF97)');
   console.log('-'.repeat(40));
 
   step++;
-  const { A, B, C } = CONSTANTS.ANTOINE;
-  const logPv = A - B / (C + temperature);
-  printStep(step, '安托因方程计算 log10(Pv)',
-    'log10(Pv) = A - B/(C + T)',
-    `${A} - ${B}/(${C} + ${temperature}) = ${A} - ${B}/${C + temperature}`,
-    logPv, '');
-
-  step++;
-  const Pv = Math.pow(10, logPv);
+  const Pv = calcIF97SaturationPressure(T1);
   printStep(step, '饱和蒸汽压 Pv',
-    'Pv = 10^(log10Pv)',
-    `10^${logPv.toFixed(6)}`,
+    'Pv = Psat(T1)  (IAPWS-IF97 Region 4)',
+    `Psat(${T1})`,
     Pv, 'KPa');
 
   // ===== 第三部分: 临界压力比系数 FF =====
@@ -515,7 +508,6 @@ console.log('\n常数定义:');
 console.log(`  N1 = ${CONSTANTS.N1} (液体Kv常数)`);
 console.log(`  N2 = ${CONSTANTS.N2} (管道几何系数)`);
 console.log(`  N9 = ${CONSTANTS.N9} (气体Kv常数)`);
-console.log(`  安托因常数: A=${CONSTANTS.ANTOINE.A}, B=${CONSTANTS.ANTOINE.B}, C=${CONSTANTS.ANTOINE.C}`);
 
 if (INPUT.fluidType === 'liquid') {
   runLiquidCalculation();
@@ -0,0 +1,302 @@
+#!/usr/bin/env bun
+/**
+ * 流体物性数据库测试
+ * 物性参考值校验, 饱和蒸汽压, 以及 fluidName 自动补全与手工输入结果一致
+ */
+
+import { KvCalculator } from '../src/kv-calculator.js';
+import { getFluid, calcFluidProperties, calcVaporPressure, calcFluidSaturationTemperature } from '../src/data/fluid-data.js';
+import type { KvInput } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// 物性参考值 (温度 ℃, 密度 kg/m³, 粘度 cP, 允许相对误差)
+interface PropertyCase {
+  fluid: string;
+  tempCelsius: number;
+  density: number;
+  viscosity: number;
+  tolerance: number;
+}
+
+const propertyCases: PropertyCase[] = [
+  { fluid: 'Water', tempCelsius: 20, density: 998.2, viscosity: 1.002, tolerance: 0.01 },
+  { fluid: '水', tempCelsius: 80, density: 971.8, viscosity: 0.355, tolerance: 0.02 },
+  { fluid: 'toluene', tempCelsius: 50, density: 839.0, viscosity: 0.42, tolerance: 0.05 },
+  { fluid: 'CH3OH', tempCelsius: 40, density: 772.0, viscosity: 0.45, tolerance: 0.05 }
+];
+
+function runPropertyCase(testCase: PropertyCase): boolean {
+  const fluid = getFluid(testCase.fluid);
+  if (!fluid) {
+    console.log(`  ✗ 失败: 未找到流体 ${testCase.fluid}`);
+    return false;
+  }
+
+  const props = calcFluidProperties(fluid, 'Liquid', 500, testCase.tempCelsius + 273.15);
+  const densityError = Math.abs(props.density - testCase.density) / testCase.density;
+  const viscosityError = Math.abs(props.viscosity - testCase.viscosity) / testCase.viscosity;
+  const label = `${fluid.name} ${testCase.tempCelsius}℃: ρ=${props.density.toFixed(1)}, μ=${props.viscosity.toFixed(3)}`;
+
+  if (densityError <= testCase.tolerance && viscosityError <= testCase.tolerance) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label} (参考 ρ=${testCase.density}, μ=${testCase.viscosity})`);
+  return false;
+}
+
+// 饱和蒸汽压参考值 (流体, 温度 ℃, Pv KPa, 允许相对误差)
+const vaporPressureCases: [string, number, number, number][] = [
+  ['Water', 100, 101.42, 0.001],
+  ['Propane', 20, 836, 0.02],
+  ['Toluene', 20, 2.91, 0.02],
+  ['Methanol', 20, 13.0, 0.02],
+  ['CO2', 20, 5729, 0.02]
+];
+
+function runVaporPressureCase([name, tempCelsius, expected, tolerance]: [string, number, number, number]): boolean {
+  const fluid = getFluid(name)!;
+  const Pv = calcVaporPressure(fluid, tempCelsius + 273.15);
+  const error = Math.abs(Pv - expected) / expected;
+  const label = `${fluid.name} ${tempCelsius}℃: Pv=${Pv.toFixed(2)} KPa`;
+  if (error <= tolerance) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label} (参考 ${expected})`);
+  return false;
+}
+
+// 用户输入的饱和蒸汽压优先, 液化丙烷按自身蒸汽压判定闪蒸
+function runUserVaporPressureCase(): boolean {
+  const input: KvInput = {
+    fluidType: 'Liquid',
+    fluidName: 'Propane',
+    temperature: 20,
+    tempUnit: '℃',
+    flowRate: 30,
+    flowUnit: 'm3/h',
+    P1: 1.6,
+    P2: 0.6,
+    pressureUnit: 'MPa(G)',
+    DN: 50,
+    FL: 0.9,
+    flowChar: 'Equal Percentage',
+    rangeability: 50,
+    ratedKv: 63
+  };
+
+  try {
+    const named = calculator.calculate(input);
+    const manual = calculator.calculate({ ...input, vaporPressure: 0.736, vaporPressureUnit: 'MPa(G)' });
+    const namedPv = named.intermediate.Pv!;
+    const label = `Pv=${namedPv.toFixed(1)} / ${manual.intermediate.Pv?.toFixed(1)} KPa, ${named.fluidState}, ${named.flowState}`;
+    if (named.fluidState === 'Flashing' && Math.abs(namedPv - 836) / 836 < 0.02 && manual.intermediate.Pv === 836) {
+      console.log(`  ✓ 通过: ${label}`);
+      return true;
+    }
+    console.log(`  ✗ 失败: ${label}`);
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// fluidName 液体按自身饱和温度校核入口温度: 水 0.3MPa(G) 饱和温度 143.61℃, 150℃ 报错
+// 饱和温度为饱和蒸汽压的反函数 (丙烷 1.7MPa(A))
+function runSaturationTemperatureCase(): boolean {
+  const input: KvInput = {
+    fluidType: 'Liquid',
+    fluidName: 'Water',
+    temperature: 150,
+    tempUnit: '℃',
+    flowRate: 40,
+    flowUnit: 'm3/h',
+    P1: 0.3,
+    P2: 0.1,
+    pressureUnit: 'MPa(G)',
+    DN: 80,
+    FL: 0.9,
+    flowChar: 'Equal Percentage',
+    rangeability: 50,
+    ratedKv: 110
+  };
+
+  try {
+    const hot = calculator.calculate(input);
+    const cold = calculator.calculate({ ...input, temperature: 120 });
+    const propane = getFluid('Propane')!;
+    const TsatPropane = calcFluidSaturationTemperature(propane, 1700)!;
+    const PvPropane = calcVaporPressure(propane, TsatPropane);
+
+    const Tsat = hot.intermediate.saturationTemp;
+    const label = `水 Tsat=${Tsat?.toFixed(2)}℃, 丙烷 Tsat=${(TsatPropane - 273.15).toFixed(2)}℃ (Pv=${PvPropane.toFixed(1)} KPa)`;
+    if (Tsat !== undefined && Math.abs(Tsat - 143.61) < 0.01
+      && hot.errors?.includes('Medium temperature is above saturation temperature')
+      && !cold.errors?.includes('Medium temperature is above saturation temperature')
+      && Math.abs(PvPropane - 1700) / 1700 < 1e-6) {
+      console.log(`  ✓ 通过: ${label}`);
+      return true;
+    }
+    console.log(`  ✗ 失败: ${label}, ${hot.errors?.join('; ')}`);
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// 未给 fluidName 时 density 与 densityUnit 必须同时给出, 报错指明缺少的字段
+function runMissingDensityCase(): boolean {
+  const input: KvInput = {
+    fluidType: 'Liquid',
+    temperature: 30,
+    tempUnit: '℃',
+    flowRate: 40,
+    flowUnit: 'm3/h',
+    P1: 0.8,
+    P2: 0.5,
+    pressureUnit: 'MPa(G)',
+    DN: 80,
+    FL: 0.9,
+    flowChar: 'Equal Percentage',
+    rangeability: 50,
+    ratedKv: 110
+  };
+  const messageOf = (extra: Partial<KvInput>): string => {
+    try {
+      calculator.calculate({ ...input, ...extra });
+      return '';
+    } catch (error) {
+      return (error as Error).message;
+    }
+  };
+
+  const noDensity = messageOf({ densityUnit: 'Kg/m3' });
+  const noUnit = messageOf({ density: 995 });
+  if (noDensity.startsWith('density is required') && noUnit.startsWith('densityUnit is required')) {
+    console.log(`  ✓ 通过: ${noDensity}; ${noUnit}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${noDensity}; ${noUnit}`);
+  return false;
+}
+
+// fluidName 补全的物性应与手工输入同样的物性得到相同Kv
+function runNamedFluidCase(name: string, input: KvInput): boolean {
+  try {
+    const named = calculator.calculate(input);
+    const fluid = getFluid(input.fluidName!)!;
+    const T1 = input.temperature + 273.15;
+    const props = calcFluidProperties(fluid, input.fluidType, 0, T1);
+
+    const manual = calculator.calculate({
+      ...input,
+      fluidName: undefined,
+      density: props.density,
+      densityUnit: props.densityUnit,
+      viscosity: props.viscosity,
+      viscosityUnit: 'cP',
+      viscosityType: 'Dynamic Viscosity',
+      molecularWeight: props.molecularWeight,
+      gamma: props.gamma,
+      Pc: props.Pc,
+      Tc: props.Tc,
+      acentricFactor: props.omega,
+      vaporPressure: props.vaporPressure,
+      vaporPressureUnit: 'KPa(A)'
+    });
+
+    const label = `${name}: Kv=${named.calculatedKv.toFixed(3)} / ${manual.calculatedKv.toFixed(3)}`;
+    if (named.calculatedKv === manual.calculatedKv) {
+      console.log(`  ✓ 通过: ${label}`);
+      return true;
+    }
+    console.log(`  ✗ 失败: ${label}`);
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  流体物性数据库测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  console.log('\n【物性参考值】');
+  for (const testCase of propertyCases) {
+    if (runPropertyCase(testCase)) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  console.log('\n【饱和蒸汽压】');
+  for (const testCase of vaporPressureCases) {
+    if (runVaporPressureCase(testCase)) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+  if (runUserVaporPressureCase()) {
+    passed++;
+  } else {
+    failed++;
+  }
+  if (runSaturationTemperatureCase()) {
+    passed++;
+  } else {
+    failed++;
+  }
+  if (runMissingDensityCase()) {
+    passed++;
+  } else {
+    failed++;
+  }
+
+  console.log('\n【fluidName 自动补全】');
+  const valve = {
+    DN: 100,
+    FL: 0.9,
+    XT: 0.72,
+    flowChar: 'Equal Percentage' as const,
+    rangeability: 50,
+    ratedKv: 250
+  };
+  const namedCases: [string, KvInput][] = [
+    ['液体-甲苯', {
+      ...valve, fluidType: 'Liquid', fluidName: 'Toluene', temperature: 60, tempUnit: '℃',
+      flowRate: 80, flowUnit: 'm3/h', P1: 1.5, P2: 1.0, pressureUnit: 'MPa(G)'
+    }],
+    ['气体-天然气', {
+      ...valve, fluidType: 'Gas', fluidName: '天然气', temperature: 20, tempUnit: '℃',
+      flowRate: 5000, flowUnit: 'Nm3/h', P1: 0.6, P2: 0.3, pressureUnit: 'MPa(G)'
+    }]
+  ];
+  for (const [name, input] of namedCases) {
+    if (runNamedFluidCase(name, input)) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,129 @@
+#!/usr/bin/env bun
+/**
+ * 混合气体组分输入测试
+ * 混合物性参考值, 以及组分输入与手工输入同样物性的计算结果一致
+ */
+
+import { KvCalculator } from '../src/kv-calculator.js';
+import { calculateGasMixture } from '../src/calculators/gas-mixture.js';
+import type { GasComponent, KvInput } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// 空气组分 (摩尔分数)
+const air: GasComponent[] = [
+  { fluid: 'N2', fraction: 0.7809 },
+  { fluid: 'O2', fraction: 0.2095 },
+  { fluid: 'Ar', fraction: 0.0096 }
+];
+
+// 混合物性参考值: 空气 M=28.96, γ=1.40, ρN=1.293
+function runAirPropertiesCase(): boolean {
+  const mixture = calculateGasMixture(air, 101.325, 293.15);
+  const label = `M=${mixture.molecularWeight.toFixed(2)}, γ=${mixture.gamma.toFixed(3)}, ρN=${mixture.density.toFixed(4)}, Z=${mixture.Z.toFixed(4)}`;
+
+  if (Math.abs(mixture.molecularWeight - 28.96) < 0.05
+    && Math.abs(mixture.gamma - 1.40) < 0.01
+    && Math.abs(mixture.density - 1.293) < 0.003
+    && Math.abs(mixture.Z - 1) < 0.002) {
+    console.log(`  ✓ 通过: 空气 ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: 空气 ${label}`);
+  return false;
+}
+
+// 摩尔分数按总和归一化
+function runNormalizationCase(): boolean {
+  const percent = air.map(c => ({ ...c, fraction: c.fraction * 100 }));
+  const a = calculateGasMixture(air, 500, 300);
+  const b = calculateGasMixture(percent, 500, 300);
+  if (a.molecularWeight === b.molecularWeight && a.gamma === b.gamma && a.Z === b.Z) {
+    console.log(`  ✓ 通过: 百分数输入归一化, 分数 ${b.fractions.map(f => f.toFixed(4)).join(' / ')}`);
+    return true;
+  }
+  console.log('  ✗ 失败: 百分数输入与摩尔分数输入结果不同');
+  return false;
+}
+
+// 合成气组分计算与手工输入同样物性的结果一致
+function runSyngasSizingCase(): boolean {
+  const input: KvInput = {
+    fluidType: 'Gas',
+    composition: [
+      { fluid: 'H2', fraction: 0.5 },
+      { fluid: 'CO', fraction: 0.3 },
+      { fluid: 'CO2', fraction: 0.1 },
+      { fluid: 'CH4', fraction: 0.1 }
+    ],
+    temperature: 40,
+    tempUnit: '℃',
+    flowRate: 20000,
+    flowUnit: 'Nm3/h',
+    P1: 2.5,
+    P2: 1.8,
+    pressureUnit: 'MPa(G)',
+    DN: 100,
+    FL: 0.9,
+    XT: 0.72,
+    flowChar: 'Equal Percentage',
+    rangeability: 50,
+    ratedKv: 160
+  };
+
+  try {
+    const mixed = calculator.calculate(input);
+    const P1Abs = mixed.intermediate.P1Abs;
+    const mixture = calculateGasMixture(input.composition!, P1Abs, mixed.intermediate.T1);
+    const manual = calculator.calculate({
+      ...input,
+      composition: undefined,
+      density: mixture.density,
+      densityUnit: mixture.densityUnit,
+      viscosity: mixture.viscosity,
+      viscosityUnit: 'cP',
+      viscosityType: 'Dynamic Viscosity',
+      molecularWeight: mixture.molecularWeight,
+      gamma: mixture.gamma,
+      Z: mixture.Z
+    });
+
+    const label = `M=${mixed.intermediate.M?.toFixed(3)}, Z=${mixed.intermediate.Z?.toFixed(4)}, Kv=${mixed.calculatedKv.toFixed(3)} / ${manual.calculatedKv.toFixed(3)}`;
+    if (mixed.calculatedKv === manual.calculatedKv && mixed.intermediate.Z === mixture.Z) {
+      console.log(`  ✓ 通过: ${label}`);
+      return true;
+    }
+    console.log(`  ✗ 失败: ${label}`);
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  混合气体组分输入测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const run of [runAirPropertiesCase, runNormalizationCase, runSyngasSizingCase]) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
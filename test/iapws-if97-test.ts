@@ -0,0 +1,166 @@
+#!/usr/bin/env bun
+/**
+ * IAPWS-IF97 水和水蒸气物性测试
+ * IF97 官方校验值, 以及蒸汽计算自动补全密度与密度偏差警告
+ */
+
+import { KvCalculator } from '../src/kv-calculator.js';
+import {
+  calcIF97Region1,
+  calcIF97Region2,
+  calcIF97SaturationPressure,
+  calcIF97SaturationTemperature
+} from '../src/utils/iapws-if97.js';
+import type { KvInput } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// 允许的相对误差
+const TOLERANCE = 1e-6;
+
+// IF97 校验值 (名称, 计算值, 参考值)
+const verificationCases: [string, () => number, number][] = [
+  ['区域1 v(3MPa, 300K)', () => calcIF97Region1(3000, 300).v, 0.100215168e-2],
+  ['区域1 cp(80MPa, 300K)', () => calcIF97Region1(80000, 300).cp, 0.401008987e1],
+  ['区域1 v(3MPa, 500K)', () => calcIF97Region1(3000, 500).v, 0.120241800e-2],
+  ['区域2 v(0.0035MPa, 300K)', () => calcIF97Region2(3.5, 300).v, 0.394913866e2],
+  ['区域2 cp(0.0035MPa, 700K)', () => calcIF97Region2(3.5, 700).cp, 0.208141274e1],
+  ['区域2 v(30MPa, 700K)', () => calcIF97Region2(30000, 700).v, 0.542946619e-2],
+  ['区域4 Ps(300K)', () => calcIF97SaturationPressure(300), 0.353658941e1],
+  ['区域4 Ps(500K)', () => calcIF97SaturationPressure(500), 0.263889776e4],
+  ['区域4 Ts(0.1MPa)', () => calcIF97SaturationTemperature(100), 0.372755919e3],
+  ['区域4 Ts(10MPa)', () => calcIF97SaturationTemperature(10000), 0.584149488e3]
+];
+
+function runVerificationCase([name, calc, expected]: [string, () => number, number]): boolean {
+  const value = calc();
+  const error = Math.abs(value - expected) / expected;
+  if (error <= TOLERANCE) {
+    console.log(`  ✓ 通过: ${name} = ${value.toPrecision(9)}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${name} = ${value.toPrecision(9)} (参考 ${expected})`);
+  return false;
+}
+
+const steamInput: KvInput = {
+  fluidType: 'Steam',
+  temperature: 250,
+  tempUnit: '℃',
+  flowRate: 5000,
+  flowUnit: 'Kg/h',
+  P1: 1.0,
+  P2: 0.6,
+  pressureUnit: 'MPa(G)',
+  DN: 80,
+  FL: 0.9,
+  XT: 0.72,
+  flowChar: 'Equal Percentage',
+  rangeability: 50,
+  ratedKv: 160
+};
+
+// 未给密度时按 IF97 补全, 与手工输入同样密度和比热比的结果一致
+function runDerivedDensityCase(): boolean {
+  try {
+    const derived = calculator.calculate(steamInput);
+    const steam = calcIF97Region2(1100, 523.15);
+    const manual = calculator.calculate({
+      ...steamInput,
+      density: steam.density,
+      densityUnit: 'Kg/m3',
+      gamma: steam.gamma
+    });
+
+    const label = `ρ=${steam.density.toFixed(3)}, γ=${steam.gamma.toFixed(4)}, Kv=${derived.calculatedKv.toFixed(3)} / ${manual.calculatedKv.toFixed(3)}`;
+    if (derived.calculatedKv === manual.calculatedKv && !manual.warnings?.length) {
+      console.log(`  ✓ 通过: ${label}`);
+      return true;
+    }
+    console.log(`  ✗ 失败: ${label}, 警告 ${manual.warnings}`);
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// 输入密度偏差超过 5% 时给出警告
+function runDeviationWarningCase(): boolean {
+  try {
+    const result = calculator.calculate({ ...steamInput, density: 5.0, densityUnit: 'Kg/m3' });
+    const warning = result.warnings?.find(w => w.includes('IAPWS-IF97'));
+    if (warning) {
+      console.log(`  ✓ 通过: ${warning}`);
+      return true;
+    }
+    console.log('  ✗ 失败: 未给出密度偏差警告');
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// IF97 范围外 (Region 3, 800℃ 以上) 给定密度时照常计算并给出警告
+function runOutOfRangeCase(): boolean {
+  const cases: [string, Partial<KvInput>][] = [
+    ['Region 3 35MPa(G)/420℃', { P1: 35, P2: 30, temperature: 420, density: 150, densityUnit: 'Kg/m3', gamma: 1.3 }],
+    ['10MPa(G)/900℃', { P1: 10, P2: 8, temperature: 900, density: 25, densityUnit: 'Kg/m3' }]
+  ];
+
+  let ok = true;
+  for (const [name, conditions] of cases) {
+    try {
+      const result = calculator.calculate({ ...steamInput, ...conditions });
+      const warning = result.warnings?.find(w => w.includes('IAPWS-IF97'));
+      if (Number.isFinite(result.calculatedKv) && result.calculatedKv > 0 && warning) {
+        console.log(`  ✓ 通过: ${name} Kv=${result.calculatedKv.toFixed(3)}, ${warning}`);
+      } else {
+        console.log(`  ✗ 失败: ${name} Kv=${result.calculatedKv}, 未给出 IF97 范围警告`);
+        ok = false;
+      }
+    } catch (error) {
+      console.log(`  ✗ 错误: ${name} ${error}`);
+      ok = false;
+    }
+  }
+  return ok;
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  IAPWS-IF97 水和水蒸气物性测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  console.log('\n【IF97 校验值】');
+  for (const testCase of verificationCases) {
+    if (runVerificationCase(testCase)) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  console.log('\n【蒸汽计算】');
+  for (const run of [runDerivedDensityCase, runDeviationWarningCase, runOutOfRangeCase]) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
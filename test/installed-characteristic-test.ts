@@ -0,0 +1,134 @@
+#!/usr/bin/env bun
+/**
+ * 安装流量特性测试
+ * 系统方程自洽, 阀权度, 高/低阀权度下等百分比与线性的选择, 以及系统参数校验
+ */
+
+import { CONSTANTS } from '../src/constants/index.js';
+import {
+  calculateInstalledCharacteristic,
+  compareFlowCharacteristics
+} from '../src/calculators/installed-characteristic.js';
+import type { SystemCurve } from '../src/calculators/installed-characteristic.js';
+import { calcKvAtOpening } from '../src/calculators/valve-opening.js';
+
+// 管路阻力大的系统: 泵 600 KPa, 静压 100 KPa, 60 m3/h 时管损 400 KPa
+const lossySystem: SystemCurve = {
+  pumpShutoffPressure: 600,
+  pumpCurveCoefficient: 0.01,
+  staticPressure: 100,
+  lineLoss: 400,
+  designFlow: 60
+};
+
+// 阀门压降占主导的系统: 60 m3/h 时管损 20 KPa
+const stiffSystem: SystemCurve = { ...lossySystem, pumpCurveCoefficient: 0, lineLoss: 20 };
+
+const valve = { ratedKv: 69, rangeability: 50, steps: 20 };
+
+// 每个开度点满足阀门方程 Q = N1·Kv·√(ΔP/G), 且阀权度 = ΔP(100%)/ΔP(关闭)
+function runConsistencyCase(): boolean {
+  const result = calculateInstalledCharacteristic({ ...valve, system: lossySystem, flowChar: 'Linear' });
+  const maxError = Math.max(...result.points.map(p =>
+    Math.abs(p.flow - CONSTANTS.N1 * p.Kv * Math.sqrt(p.deltaP))
+  ));
+  const authority = result.points[20].deltaP / (600 - 100);
+
+  const label = `Qmax=${result.maxFlow.toFixed(2)} m3/h, 阀权度=${result.authority.toFixed(3)}, 最大偏差=${maxError.toExponential(2)}`;
+  if (maxError < 1e-9 && Math.abs(result.authority - authority) < 1e-12 && result.points[0].flow === 0) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 无管损系统: 阀权度为 1, 安装特性等于固有特性
+function runInherentCase(): boolean {
+  const result = calculateInstalledCharacteristic({
+    ...valve,
+    system: { pumpShutoffPressure: 300, staticPressure: 0, lineLoss: 0, designFlow: 60 },
+    flowChar: 'Equal Percentage'
+  });
+  const matched = result.points.every(p =>
+    Math.abs(p.relativeFlow - calcKvAtOpening(p.opening, 69, 50, 'Equal Percentage') / 69) < 1e-12
+  );
+
+  if (matched && Math.abs(result.authority - 1) < 1e-12) {
+    console.log(`  ✓ 通过: 阀权度=1, 安装特性等于固有特性, 增益比=${result.gainRatio.toFixed(2)}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: 阀权度=${result.authority}`);
+  return false;
+}
+
+// 低阀权度选等百分比, 高阀权度选线性
+function runSelectionCase(name: string, system: SystemCurve, expected: string): boolean {
+  const [best, other] = compareFlowCharacteristics({ ...valve, system });
+  const label = `${name} 阀权度=${best.authority.toFixed(3)}, `
+    + `${best.flowChar} 增益比=${best.gainRatio.toFixed(2)}, ${other.flowChar} 增益比=${other.gainRatio.toFixed(2)}`;
+  if (best.flowChar === expected) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}, 期望 ${expected}`);
+  return false;
+}
+
+// 设计流量非正或管损为负时报错
+function runInvalidSystemCase(): boolean {
+  const systems: SystemCurve[] = [
+    { ...lossySystem, designFlow: 0 },
+    { ...lossySystem, designFlow: -60 },
+    { ...lossySystem, lineLoss: -1 }
+  ];
+  const messages = systems.map(system => {
+    try {
+      calculateInstalledCharacteristic({ ...valve, system, flowChar: 'Linear' });
+      return undefined;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  });
+
+  if (messages.every(m => m !== undefined)) {
+    console.log(`  ✓ 通过: ${messages.join(' | ')}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${messages.join(' | ')}`);
+  return false;
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  安装流量特性测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const runs = [
+    runConsistencyCase,
+    runInherentCase,
+    () => runSelectionCase('管损大', lossySystem, 'Equal Percentage'),
+    () => runSelectionCase('管损小', stiffSystem, 'Linear'),
+    runInvalidSystemCase
+  ];
+  for (const run of runs) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,235 @@
+#!/usr/bin/env bun
+/**
+ * 反向计算测试
+ * 由开度求流量/压差，与正向Kv计算结果做往返校验
+ */
+
+import { KvCalculator } from '../src/kv-calculator.js';
+import type { KvInput } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// 允许的相对误差
+const TOLERANCE = 1e-3;
+
+// 测试用例定义
+interface RoundTripCase {
+  name: string;
+  input: KvInput;
+}
+
+const flowCases: RoundTripCase[] = [
+  {
+    name: '液体-阻塞流(无管件)',
+    input: {
+      fluidType: 'Liquid',
+      temperature: 40,
+      tempUnit: '℃',
+      flowRate: 80,
+      flowUnit: 'm3/h',
+      P1: 1.5,
+      P2: 0.2,
+      pressureUnit: 'MPa(G)',
+      density: 995,
+      densityUnit: 'Kg/m3',
+      viscosity: 0.8,
+      viscosityUnit: 'cP',
+      viscosityType: 'Viscosity',
+      DN: 100,
+      FL: 0.85,
+      Fd: 0.46,
+      flowChar: 'Equal Percentage',
+      rangeability: 50,
+      ratedKv: 250
+    }
+  },
+  {
+    name: '液体-非阻塞流(有管件)',
+    input: {
+      fluidType: 'Liquid',
+      temperature: 40,
+      tempUnit: '℃',
+      flowRate: 80,
+      flowUnit: 't/h',
+      P1: 1.5,
+      P2: 1.2,
+      pressureUnit: 'MPa(G)',
+      density: 995,
+      densityUnit: 'Kg/m3',
+      DN: 80,
+      D1w: 114.3,
+      D1T: 6.02,
+      D2w: 114.3,
+      D2T: 6.02,
+      FL: 0.85,
+      flowChar: 'Linear',
+      rangeability: 50,
+      ratedKv: 250
+    }
+  },
+  {
+    name: '气体-空气常规工况',
+    input: {
+      fluidType: 'Gas',
+      temperature: 20,
+      tempUnit: '℃',
+      flowRate: 5000,
+      flowUnit: 'Nm3/h',
+      P1: 0.6,
+      P2: 0.1,
+      pressureUnit: 'MPa(G)',
+      density: 1.293,
+      densityUnit: 'Kg/Nm3',
+      molecularWeight: 29,
+      gamma: 1.4,
+      DN: 100,
+      FL: 0.9,
+      XT: 0.72,
+      flowChar: 'Equal Percentage',
+      rangeability: 50,
+      ratedKv: 250
+    }
+  },
+  {
+    name: '气体-非阻塞流(有管件)',
+    input: {
+      fluidType: 'Gas',
+      temperature: 20,
+      tempUnit: '℃',
+      flowRate: 3000,
+      flowUnit: 'Nm3/h',
+      P1: 0.6,
+      P2: 0.45,
+      pressureUnit: 'MPa(G)',
+      density: 1.293,
+      densityUnit: 'Kg/Nm3',
+      molecularWeight: 29,
+      gamma: 1.4,
+      DN: 50,
+      D1w: 114.3,
+      D1T: 6.02,
+      D2w: 114.3,
+      D2T: 6.02,
+      FL: 0.9,
+      XT: 0.72,
+      flowChar: 'Equal Percentage',
+      rangeability: 50,
+      ratedKv: 60
+    }
+  },
+  {
+    name: '蒸汽-常规工况',
+    input: {
+      fluidType: 'Steam',
+      temperature: 200,
+      tempUnit: '℃',
+      flowRate: 2000,
+      flowUnit: 'Kg/h',
+      P1: 1.0,
+      P2: 0.5,
+      pressureUnit: 'MPa(G)',
+      density: 5.15,
+      densityUnit: 'Kg/m3',
+      gamma: 1.3,
+      DN: 80,
+      FL: 0.9,
+      XT: 0.72,
+      flowChar: 'Equal Percentage',
+      rangeability: 50,
+      ratedKv: 160
+    }
+  }
+];
+
+// 流量往返: Kv计算 → 开度 → 流量
+function runFlowRoundTrip(testCase: RoundTripCase): boolean {
+  console.log(`\n测试: ${testCase.name}`);
+  console.log('─'.repeat(50));
+
+  try {
+    const forward = calculator.calculate(testCase.input);
+    const { flowRate, ...rest } = testCase.input;
+    const inverse = calculator.calculateFlow({ ...rest, opening: forward.valveOpening });
+
+    console.log(`  正向: Kv=${forward.calculatedKv.toFixed(3)}, 开度=${forward.valveOpening.toFixed(2)}%, ${forward.usedFormula}`);
+    console.log(`  反向: 流量=${inverse.flowRate.toFixed(3)} ${inverse.flowUnit}, ${inverse.usedFormula}`);
+
+    const error = Math.abs(inverse.flowRate - flowRate) / flowRate;
+    if (error <= TOLERANCE && inverse.flowState === forward.flowState) {
+      console.log(`  ✓ 通过: 流量误差 ${(error * 100).toFixed(4)}%`);
+      return true;
+    }
+    console.log(`  ✗ 失败: 流量误差 ${(error * 100).toFixed(4)}%, 流动状态 ${forward.flowState} / ${inverse.flowState}`);
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// 压差往返: Kv计算 → 开度 → 出口压力
+function runPressureDropRoundTrip(testCase: RoundTripCase): boolean {
+  console.log(`\n测试: ${testCase.name}`);
+  console.log('─'.repeat(50));
+
+  try {
+    const forward = calculator.calculate(testCase.input);
+    const { P2, ...rest } = testCase.input;
+    const inverse = calculator.calculatePressureDrop({ ...rest, opening: forward.valveOpening, tolerance: 1e-9 });
+
+    console.log(`  正向: P2=${P2} ${testCase.input.pressureUnit}, 开度=${forward.valveOpening.toFixed(2)}%`);
+    console.log(`  反向: P2=${inverse.P2.toFixed(4)} ${testCase.input.pressureUnit}, 迭代 ${inverse.convergence.iterations} 次, 残差 ${inverse.convergence.residual.toExponential(2)}`);
+
+    // 阻塞流时Kv与P2无关，只校验Kv一致
+    const kvError = Math.abs(inverse.calculatedKv - forward.calculatedKv) / forward.calculatedKv;
+    const p2Matches = forward.flowState === 'Choked' || Math.abs(inverse.P2 - P2) <= TOLERANCE * Math.abs(P2) + 1e-4;
+    if (inverse.convergence.converged && kvError <= TOLERANCE && p2Matches) {
+      console.log(`  ✓ 通过: Kv误差 ${(kvError * 100).toFixed(4)}%`);
+      return true;
+    }
+    console.log(`  ✗ 失败: Kv误差 ${(kvError * 100).toFixed(4)}%, 收敛 ${inverse.convergence.converged}`);
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  反向计算测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  console.log('\n\n【开度 → 流量】');
+  console.log('═'.repeat(60));
+  for (const testCase of flowCases) {
+    if (runFlowRoundTrip(testCase)) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  console.log('\n\n【开度 → 出口压力】');
+  console.log('═'.repeat(60));
+  for (const testCase of flowCases) {
+    if (runPressureDropRoundTrip(testCase)) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,142 @@
+#!/usr/bin/env bun
+/**
+ * Ci迭代计算测试
+ * 校验迭代模式收敛后 Ci 与计算Kv一致，且默认模式结果不变
+ */
+
+import { KvCalculator } from '../src/kv-calculator.js';
+import type { KvInput } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// 允许的相对误差
+const TOLERANCE = 1e-3;
+
+// 测试用例定义
+interface IterationCase {
+  name: string;
+  input: KvInput;
+}
+
+// 缩径阀(管道大于阀门)，管件修正明显
+const liquidBase: KvInput = {
+  fluidType: 'Liquid',
+  temperature: 40,
+  tempUnit: '℃',
+  flowRate: 200,
+  flowUnit: 'm3/h',
+  P1: 1.5,
+  P2: 1.2,
+  pressureUnit: 'MPa(G)',
+  density: 995,
+  densityUnit: 'Kg/m3',
+  viscosity: 1,
+  viscosityUnit: 'cP',
+  viscosityType: 'Viscosity',
+  DN: 80,
+  D1w: 168.3,
+  D1T: 7.11,
+  D2w: 168.3,
+  D2T: 7.11,
+  FL: 0.85,
+  flowChar: 'Linear',
+  rangeability: 50,
+  ratedKv: 250
+};
+
+const cases: IterationCase[] = [
+  { name: '液体-缩径阀', input: liquidBase },
+  { name: '液体-高粘度(层流)', input: { ...liquidBase, flowRate: 20, viscosity: 2000 } },
+  {
+    name: '气体-缩径阀',
+    input: {
+      ...liquidBase,
+      fluidType: 'Gas',
+      flowRate: 5000,
+      flowUnit: 'Nm3/h',
+      P2: 0.9,
+      density: 1.293,
+      densityUnit: 'Kg/Nm3',
+      XT: 0.72
+    }
+  },
+  {
+    name: '蒸汽-缩径阀',
+    input: {
+      ...liquidBase,
+      fluidType: 'Steam',
+      temperature: 200,
+      flowRate: 8000,
+      flowUnit: 'Kg/h',
+      P1: 1.0,
+      P2: 0.6,
+      density: 5.15,
+      XT: 0.72
+    }
+  }
+];
+
+function runCase(testCase: IterationCase): boolean {
+  console.log(`\n测试: ${testCase.name}`);
+  console.log('─'.repeat(50));
+
+  try {
+    const excel = calculator.calculate(testCase.input);
+    const explicitExcel = calculator.calculate({ ...testCase.input, sizingMode: 'Excel' });
+    const iterative = calculator.calculate({ ...testCase.input, sizingMode: 'Iterative' });
+    const iteration = iterative.ciIteration;
+
+    console.log(`  Excel模式: Kv=${excel.calculatedKv.toFixed(3)}, ${excel.usedFormula}`);
+    console.log(`  迭代模式:  Kv=${iterative.calculatedKv.toFixed(3)}, ${iterative.usedFormula}`);
+
+    if (!iteration) {
+      console.log('  ✗ 失败: 迭代模式未返回迭代记录');
+      return false;
+    }
+
+    for (const step of iteration.history) {
+      console.log(`    #${step.iteration}: Ci=${step.Ci.toFixed(3)}, FP=${step.FP.toFixed(4)}, FR=${step.FR.toFixed(4)}, Kv=${step.kv.toFixed(3)}`);
+    }
+
+    const last = iteration.history[iteration.history.length - 1];
+    const ciError = Math.abs(last.Ci - iterative.calculatedKv) / iterative.calculatedKv;
+    const defaultUnchanged = excel.calculatedKv === explicitExcel.calculatedKv && excel.ciIteration === undefined;
+
+    if (iteration.converged && ciError <= TOLERANCE && last.kv === iterative.calculatedKv && defaultUnchanged) {
+      console.log(`  ✓ 通过: ${iteration.iterations} 次迭代, Ci误差 ${(ciError * 100).toFixed(4)}%`);
+      return true;
+    }
+    console.log(`  ✗ 失败: 收敛 ${iteration.converged}, Ci误差 ${(ciError * 100).toFixed(4)}%, 默认模式不变 ${defaultUnchanged}`);
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  Ci迭代计算测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of cases) {
+    if (runCase(testCase)) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,126 @@
+#!/usr/bin/env bun
+/**
+ * 气体/蒸汽低雷诺数 Kv 计算测试
+ * 真空工况下 Rev < 10000, FR = FR2 < 1, 选用层流公式; 蒸汽层流常数为 N27
+ */
+
+import { KvCalculator } from '../src/kv-calculator.js';
+import type { KvInput } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// 空气 5 Nm³/h, 1 KPa(A) → 0.8 KPa(A), 20℃, DN25 无异径管, 粘度 0.018 cP
+// ρ1 = 1.293×1×273.15/(101.325×293.15) = 0.011890 kg/m³, Q = 5×1.293/ρ1 = 543.72 m³/h
+// 紊流 Kv: x = 0.2, Y = 1 - 0.2/(3×0.72) = 0.90741, C = 5/(24.6×1×Y)×√(29×293.15/0.2) = 46.181
+// Rev = N4×Fd×Q/(ν×√(C×FL))×(FL²×C²/(N2×D⁴) + 1)^0.25 = 2523.7
+// λ = N2/(C/d²)² = 0.29306, FR = FR2 = 0.026/FL×√(λ×Rev) = 0.78564
+// 层流 Kv = Qn/(N18×FR)×√(M×T1/(ΔP×(P1+P2))) = 5/(17.3×0.78564)×√(29×293.15/(0.2×1.8)) = 56.532
+function runGasCase(): boolean {
+  const input: KvInput = {
+    fluidType: 'Gas',
+    temperature: 20,
+    tempUnit: '℃',
+    flowRate: 5,
+    flowUnit: 'Nm3/h',
+    P1: 1,
+    P2: 0.8,
+    pressureUnit: 'KPa(A)',
+    density: 1.293,
+    densityUnit: 'Kg/Nm3',
+    viscosity: 0.018,
+    viscosityUnit: 'cP',
+    molecularWeight: 29,
+    Z: 1,
+    gamma: 1.4,
+    DN: 25,
+    FL: 0.9,
+    XT: 0.72,
+    Fd: 0.46,
+    flowChar: 'Equal Percentage',
+    rangeability: 50,
+    ratedKv: 100
+  };
+  const result = calculator.calculate(input);
+  const { Rev, FR } = result.intermediate;
+
+  const label = `Rev=${Rev.toFixed(1)}, FR=${FR.toFixed(5)}, Kv=${result.calculatedKv.toFixed(3)} (${result.usedFormula})`;
+  if (result.turbulenceState === 'Laminar' && result.usedFormula === 'Gas laminar flow'
+    && Math.abs(Rev - 2523.7) < 0.1 && Math.abs(FR - 0.78564) < 1e-5
+    && Math.abs(result.calculatedKv - 56.532) < 1e-3) {
+    console.log(`  ✓ 通过: 气体 ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: 气体 ${label}`);
+  return false;
+}
+
+// 过热蒸汽 15 kg/h, 2 KPa(A) → 1.6 KPa(A), 60℃, ρ1 = 0.013 kg/m³, γ = 1.3, 粘度 0.011 cP
+// 紊流 Kv: x = 0.2, Fγ = 1.3/1.4, Y = 1 - 0.2/(3×Fγ×0.72) = 0.90028
+// C = 15/(3.16×Y×√(0.2×2×0.013)) = 73.118, Q = 15/0.013 = 1153.8 m³/h
+// Rev = 9173.7 (< 10000), λ = 0.11691, FR = FR2 = 0.94606
+// 层流 Kv = W/(N27×FR)×√(T1/(ΔP×(P1+P2)×M)) = 15/(0.775×0.94606)×√(333.15/(0.4×3.6×18.0152)) = 73.314
+// (误用 N18 = 17.3 时仅为 3.284)
+function runSteamCase(): boolean {
+  const input: KvInput = {
+    fluidType: 'Steam',
+    temperature: 60,
+    tempUnit: '℃',
+    flowRate: 15,
+    flowUnit: 'Kg/h',
+    P1: 2,
+    P2: 1.6,
+    pressureUnit: 'KPa(A)',
+    density: 0.013,
+    densityUnit: 'Kg/m3',
+    viscosity: 0.011,
+    viscosityUnit: 'cP',
+    gamma: 1.3,
+    DN: 25,
+    FL: 0.9,
+    XT: 0.72,
+    Fd: 0.46,
+    flowChar: 'Equal Percentage',
+    rangeability: 50,
+    ratedKv: 100
+  };
+  const result = calculator.calculate(input);
+  const { Rev, FR } = result.intermediate;
+
+  const label = `Rev=${Rev.toFixed(1)}, FR=${FR.toFixed(5)}, Kv=${result.calculatedKv.toFixed(3)} (${result.usedFormula})`;
+  if (result.turbulenceState === 'Laminar' && result.usedFormula === 'Steam laminar flow'
+    && Math.abs(Rev - 9173.7) < 0.1 && Math.abs(FR - 0.94606) < 1e-5
+    && Math.abs(result.calculatedKv - 73.314) < 1e-3) {
+    console.log(`  ✓ 通过: 蒸汽 ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: 蒸汽 ${label}`);
+  return false;
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  气体/蒸汽低雷诺数 Kv 计算测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const runs = [runGasCase, runSteamCase];
+  for (const run of runs) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,151 @@
+#!/usr/bin/env bun
+/**
+ * 多工况计算测试
+ * 各工况结果与单独计算一致, 可控性汇总 (Kv比, 开度跨度, 开度范围, 最大噪音)
+ */
+
+import { KvCalculator } from '../src/kv-calculator.js';
+import type { MultiCaseInput, OperatingCase, ValveDefinition } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// 阀门: 单座阀 DN80, 额定Kv 110
+const valve: ValveDefinition = {
+  DN: 80,
+  seatSize: 80,
+  ratedKv: 110,
+  FL: 0.9,
+  XT: 0.72,
+  Fd: 0.46,
+  flowChar: 'Equal Percentage',
+  rangeability: 50
+};
+
+// 冷却水 最小/正常/最大工况
+const base: OperatingCase = {
+  fluidType: 'Liquid',
+  fluidName: 'Water',
+  temperature: 30,
+  tempUnit: '℃',
+  flowRate: 40,
+  flowUnit: 'm3/h',
+  P1: 0.8,
+  P2: 0.5,
+  pressureUnit: 'MPa(G)'
+};
+
+const waterInput: MultiCaseInput = {
+  valve,
+  cases: [
+    { ...base, name: 'Min', flowRate: 15, P2: 0.4 },
+    { ...base, name: 'Normal' },
+    { ...base, name: 'Max', flowRate: 55, P2: 0.6 }
+  ]
+};
+
+// 各工况结果与单独计算一致
+function runConsistencyCase(): boolean {
+  try {
+    const { cases } = calculator.calculateMultiCase(waterInput);
+    const matched = cases.every((c, i) => {
+      const { name, ...process } = waterInput.cases[i];
+      const single = calculator.calculateWithNoise({ ...process, ...valve });
+      return c.name === name && c.result.calculatedKv === single.calculatedKv && c.result.noise === single.noise;
+    });
+
+    const label = cases.map(c => `${c.name} Kv=${c.result.calculatedKv.toFixed(2)}`).join(', ');
+    if (matched) {
+      console.log(`  ✓ 通过: ${label}`);
+      return true;
+    }
+    console.log(`  ✗ 失败: ${label}`);
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// 汇总: Kv比, 开度跨度, 最大噪音工况
+function runSummaryCase(): boolean {
+  const { cases, summary } = calculator.calculateMultiCase(waterInput);
+  const kvs = cases.map(c => c.result.calculatedKv);
+  const openings = cases.map(c => c.result.valveOpening);
+  const noises = cases.map(c => c.result.noise!);
+  const worst = cases[noises.indexOf(Math.max(...noises))].name;
+
+  const label = `Kv比=${summary.kvRatio?.toFixed(2)}, 开度 ${summary.minOpening.toFixed(1)}~${summary.maxOpening.toFixed(1)}%, `
+    + `最大噪音 ${summary.maxNoise?.toFixed(1)} dB(A) (${summary.maxNoiseCase})`;
+  if (Math.abs(summary.kvRatio! - Math.max(...kvs) / Math.min(...kvs)) < 1e-12
+    && summary.warnings === undefined
+    && Math.abs(summary.openingSpan - (Math.max(...openings) - Math.min(...openings))) < 1e-12
+    && summary.withinRange
+    && summary.maxNoise === Math.max(...noises)
+    && summary.maxNoiseCase === worst) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}, 开度范围内 ${summary.withinRange}`);
+  return false;
+}
+
+// 低流量工况开度低于 10%: 超出可调范围, 未命名工况使用默认名称
+function runOutOfRangeCase(): boolean {
+  const { cases, summary } = calculator.calculateMultiCase({
+    valve,
+    cases: [{ ...base, flowRate: 1 }, base],
+    includeNoise: false
+  });
+
+  const label = `开度 ${summary.minOpening.toFixed(1)}~${summary.maxOpening.toFixed(1)}%`;
+  if (!summary.withinRange && summary.maxNoise === undefined && cases[0].name === 'Case 1') {
+    console.log(`  ✓ 通过: ${label} 超出开度范围`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}, 开度范围内 ${summary.withinRange}`);
+  return false;
+}
+
+// 零流量工况 Kv = 0: Kv比无定义, 给出警告
+function runZeroKvCase(): boolean {
+  const { summary } = calculator.calculateMultiCase({
+    valve,
+    cases: [{ ...base, name: 'Shutoff', flowRate: 0 }, base],
+    includeNoise: false
+  });
+
+  const label = `Kv比=${summary.kvRatio}, 警告: ${summary.warnings?.join('; ')}`;
+  if (summary.kvRatio === undefined && summary.warnings?.some(w => w.includes('Shutoff'))) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  多工况计算测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const run of [runConsistencyCase, runSummaryCase, runOutOfRangeCase, runZeroKvCase]) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
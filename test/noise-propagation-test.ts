@@ -0,0 +1,145 @@
+#!/usr/bin/env bun
+/**
+ * 噪音传播与隔声包覆测试
+ * 距离衰减, 包覆插入损失手算校核, 实测插入损失覆盖, 综合计算参数传递
+ */
+
+import { calculateGasNoise } from '../src/calculators/gas-noise.js';
+import { calcInsulationLoss } from '../src/calculators/noise/propagation.js';
+import type { NoiseInput, PipeInsulation } from '../src/calculators/noise/types.js';
+import { KvCalculator } from '../src/kv-calculator.js';
+import type { KvInput } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// 空气 10bar(A) → 4bar(A), DN100 管道 外径 114.34mm
+const gasInput: NoiseInput = {
+  fluidType: 'Gas',
+  P1: 1000, P2: 400, deltaP: 600, T1: 293.15,
+  massFlow: 5000, density: 11.9, gamma: 1.4, molecularWeight: 29,
+  Kv: 60, Cv: 69.4, FL: 0.9, xT: 0.72, Fd: 0.46,
+  Di: 102.3, tp: 6.02, d: 100
+};
+
+// 距离衰减: ΔLr = 10×lg((Do+2r)/(Do+2)), 3m 4.612 dB, 7m 8.245 dB
+function runDistanceCase(): boolean {
+  const bare = calculateGasNoise(gasInput);
+  const at1 = calculateGasNoise({ ...gasInput, distance: 1 }).propagation!;
+  const at3 = calculateGasNoise({ ...gasInput, distance: 3 }).propagation!;
+  const at7 = calculateGasNoise({ ...gasInput, distance: 7 }).propagation!;
+
+  const label = `1m ${at1.noiseLevel} / 3m ${at3.noiseLevel} / 7m ${at7.noiseLevel} dBA`;
+  if (bare.propagation === undefined && at1.noiseLevel === bare.noiseLevel
+    && Math.abs(at3.distanceCorrection - 4.6117) < 1e-4 && Math.abs(at7.distanceCorrection - 8.2449) < 1e-4
+    && Math.abs(at7.noiseLevel - (bare.noiseLevel - 8.2449)) < 0.1) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 插入损失手算: 50mm 岩棉 + 铝护板 (2.7 kg/m²), 外径 168.3mm
+// f0 = 60/√(2.7×0.05) = 163.3 Hz, IL(1000) = 40/(1+0.12/0.1683) × lg(1000/359.26) = 10.38 dB
+function runInsulationModelCase(): boolean {
+  const insulation: PipeInsulation = { thickness: 50, jacket: 'aluminium' };
+  const il1000 = calcInsulationLoss(1000, insulation, 168.3);
+  const il250 = calcInsulationLoss(250, insulation, 168.3);
+  const ilSteel = calcInsulationLoss(1000, { thickness: 50, jacket: 'steel' }, 168.3);
+
+  const label = `IL(250)=${il250.toFixed(2)}, IL(1000)=${il1000.toFixed(2)}, 钢护板 IL(1000)=${ilSteel.toFixed(2)} dB`;
+  if (Math.abs(il1000 - 10.3815) < 1e-3 && il250 === 0 && ilSteel > il1000) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 包覆后总噪音级: 总插入损失介于各频带之间, 实测值覆盖模型值
+function runInsulatedNoiseCase(): boolean {
+  const bare = calculateGasNoise(gasInput);
+  const insulated = calculateGasNoise({ ...gasInput, insulation: { thickness: 50 } }).propagation!;
+  const measured = calculateGasNoise({
+    ...gasInput,
+    insulation: { thickness: 50, attenuation: { 4000: 5, 8000: 8 } }
+  }).propagation!;
+
+  const losses = insulated.bands.map(b => b.insulationLoss);
+  const within = insulated.insulationLoss > Math.min(...losses) && insulated.insulationLoss < Math.max(...losses);
+  const overridden = measured.bands.find(b => b.frequency === 4000)!.insulationLoss === 5
+    && measured.noiseLevel > insulated.noiseLevel;
+
+  const label = `裸管 ${bare.noiseLevel} → 包覆 ${insulated.noiseLevel} dBA (插入损失 ${insulated.insulationLoss.toFixed(1)} dB), 实测值 ${measured.noiseLevel} dBA`;
+  if (within && overridden && insulated.noiseLevel < bare.noiseLevel) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 综合计算: noiseDistance / pipeInsulation 传入噪音计算
+function runCalculatorCase(): boolean {
+  const input: KvInput = {
+    fluidType: 'Liquid',
+    fluidName: 'Water',
+    temperature: 30,
+    tempUnit: '℃',
+    flowRate: 100,
+    flowUnit: 'm3/h',
+    P1: 1.6,
+    P2: 0.3,
+    pressureUnit: 'MPa(G)',
+    DN: 100,
+    ratedKv: 160,
+    FL: 0.9,
+    Fd: 0.46,
+    flowChar: 'Equal Percentage',
+    rangeability: 50
+  };
+  const plain = calculator.calculateWithNoise(input).noiseResult;
+  const remote = calculator.calculateWithNoise({
+    ...input,
+    noiseDistance: 3,
+    pipeInsulation: { thickness: 50, jacket: 'stainless' }
+  }).noiseResult;
+  const propagation = remote?.propagation;
+
+  const label = `1m ${remote?.noiseLevel} dBA → 3m 包覆 ${propagation?.noiseLevel} dBA`;
+  if (plain && !plain.propagation && propagation?.distance === 3
+    && remote?.noiseLevel === plain.noiseLevel && propagation.noiseLevel < plain.noiseLevel) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  噪音传播与隔声包覆测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const runs = [runDistanceCase, runInsulationModelCase, runInsulatedNoiseCase, runCalculatorCase];
+  for (const run of runs) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,174 @@
+#!/usr/bin/env bun
+/**
+ * 噪音频谱测试
+ * 倍频程 / 1/3 倍频程频带, 频带声级关系, 峰值频带位置, 与总噪音级的一致性 (液体 8kHz 频带, 气体频带合计)
+ */
+
+import { calculateGasNoise } from '../src/calculators/gas-noise.js';
+import { calculateLiquidNoise } from '../src/calculators/liquid-noise.js';
+import type { NoiseInput, NoiseResult } from '../src/calculators/noise/types.js';
+import { KvCalculator } from '../src/kv-calculator.js';
+import type { KvInput } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// 空气 10bar(A) → 4bar(A), DN100 管道 (State III)
+const gasInput: NoiseInput = {
+  fluidType: 'Gas',
+  P1: 1000, P2: 400, deltaP: 600, T1: 293.15,
+  massFlow: 5000, density: 11.9, gamma: 1.4, molecularWeight: 29,
+  Kv: 60, Cv: 69.4, FL: 0.9, xT: 0.72, Fd: 0.46,
+  Di: 102.3, tp: 6.02, d: 100
+};
+
+// 水 2100 → 300 KPa(A), DN150 管道 (持续空化)
+const liquidInput: NoiseInput = {
+  fluidType: 'Liquid',
+  P1: 2100, P2: 300, deltaP: 1800, T1: 303,
+  massFlow: 100000, volumeFlow: 100, density: 1000, Pv: 4.2,
+  Kv: 80, Cv: 92.5, FL: 0.9, Fd: 0.46,
+  Di: 154, tp: 7.1, d: 150
+};
+
+const OCTAVES = [63, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+// 峰值内部声压级所在频带
+function peakBand(result: NoiseResult): number {
+  const bands = result.spectrum!.bands;
+  return bands.reduce((max, b) => (b.Lpi > max.Lpi ? b : max), bands[0]).frequency;
+}
+
+// 倍频程频带: 频率, A 计权, Lpe = Lpi + TL + 常数修正
+function runOctaveCase(): boolean {
+  const result = calculateGasNoise(gasInput);
+  const bands = result.spectrum!.bands;
+
+  const frequencies = bands.map(b => b.frequency).join(',') === OCTAVES.join(',');
+  const aWeighted = bands.every(b => Math.abs(b.LpeA - b.Lpe - b.aWeighting) < 1e-9)
+    && bands[0].aWeighting === -26.2 && bands[4].aWeighting === 0;
+  const offsets = bands.map(b => b.Lpe - b.Lpi - b.TL);
+  const consistent = offsets.every(o => Math.abs(o - offsets[0]) < 1e-9);
+  const peak = peakBand(result);
+
+  const label = `fp=${result.peakFrequency}Hz 峰值频带 ${peak}Hz, 合计 ${result.spectrum!.totalLpeA.toFixed(1)} dB(A)`;
+  if (frequencies && aWeighted && consistent && peak === 4000) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}, 频率 ${frequencies}, A计权 ${aWeighted}, 修正一致 ${consistent}`);
+  return false;
+}
+
+// 1/3 倍频程: 25 个频带, 合计声级与倍频程一致
+function runThirdOctaveCase(): boolean {
+  const pairs = [gasInput, liquidInput].map(input => {
+    const calc = input.fluidType === 'Gas' ? calculateGasNoise : calculateLiquidNoise;
+    return [calc(input).spectrum!, calc({ ...input, spectrumBands: 'third-octave' }).spectrum!];
+  });
+
+  const ok = pairs.every(([octave, third]) => third.bands.length === 25
+    && third.bands[0].frequency === 63 && third.bands[24].frequency === 16000
+    && Math.abs(third.totalLpeA - octave.totalLpeA) < 1);
+  const label = pairs.map(([octave, third]) => `${octave.totalLpeA.toFixed(2)}/${third.totalLpeA.toFixed(2)}`).join(', ');
+  if (ok) {
+    console.log(`  ✓ 通过: 倍频程/1/3倍频程 合计 ${label} dB(A)`);
+    return true;
+  }
+  console.log(`  ✗ 失败: 倍频程/1/3倍频程 合计 ${label} dB(A)`);
+  return false;
+}
+
+// 液体空化: 总噪音级在 8000Hz 评估 (Excel E69), 与该频带 Lpe 一致
+function runCavitationBandCase(): boolean {
+  const result = calculateLiquidNoise(liquidInput);
+  const band = result.spectrum!.bands.find(b => b.frequency === 8000)!;
+
+  const label = `${result.cavitationState}, 8000Hz Lpe ${band.Lpe.toFixed(2)} dB, 噪音级 ${result.noiseLevel} dBA`;
+  if (result.cavitationState === 'Constant Cavitation' && Math.abs(band.Lpe - result.noiseLevel) < 0.05) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 气体: 频带 A 计权合计与总噪音级一致 (State III / State I, 倍频程与 1/3 倍频程, 含出口扩径管)
+function runGasLevelCase(): boolean {
+  const inputs: NoiseInput[] = [
+    gasInput,
+    { ...gasInput, spectrumBands: 'third-octave' },
+    { ...gasInput, P2: 900, deltaP: 100 },
+    { ...gasInput, Di: 154, tp: 7.1, expander: { inletDiameter: 100 } }
+  ];
+  const results = inputs.map(input => calculateGasNoise(input));
+
+  const label = results.map(r => `${r.flowState?.split(' (')[0]} ${r.spectrum!.totalLpeA.toFixed(2)}/${r.noiseLevel}`).join(', ');
+  if (results.every(r => Math.abs(r.spectrum!.totalLpeA - r.noiseLevel) < 0.05)) {
+    console.log(`  ✓ 通过: 频带合计/噪音级 ${label} dBA`);
+    return true;
+  }
+  console.log(`  ✗ 失败: 频带合计/噪音级 ${label} dBA`);
+  return false;
+}
+
+// 综合计算: noiseSpectrumBands 传入噪音计算, 紊流峰值频带接近 fp
+function runCalculatorCase(): boolean {
+  const input: KvInput = {
+    fluidType: 'Liquid',
+    fluidName: 'Water',
+    temperature: 30,
+    tempUnit: '℃',
+    flowRate: 100,
+    flowUnit: 'm3/h',
+    P1: 0.6,
+    P2: 0.45,
+    pressureUnit: 'MPa(G)',
+    DN: 100,
+    ratedKv: 160,
+    FL: 0.9,
+    Fd: 0.46,
+    flowChar: 'Equal Percentage',
+    rangeability: 50,
+    noiseSpectrumBands: 'third-octave'
+  };
+  const { noiseResult } = calculator.calculateWithNoise(input);
+  const spectrum = noiseResult?.spectrum;
+  const peak = noiseResult ? peakBand(noiseResult) : 0;
+  const ratio = peak / (noiseResult?.peakFrequency ?? 1);
+
+  const label = `${noiseResult?.flowState}, fp=${noiseResult?.peakFrequency}Hz 峰值频带 ${peak}Hz`;
+  if (spectrum?.bandType === 'third-octave' && spectrum.bands.length === 25 && ratio > 0.7 && ratio < 1.5) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}, 频带 ${spectrum?.bandType}`);
+  return false;
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  噪音频谱测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const runs = [runOctaveCase, runThirdOctaveCase, runCavitationBandCase, runGasLevelCase, runCalculatorCase];
+  for (const run of runs) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
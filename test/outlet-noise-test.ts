@@ -0,0 +1,143 @@
+#!/usr/bin/env bun
+/**
+ * 出口扩径管与管道消声器噪音测试
+ * 扩径管马赫数手算校核, 噪音能量叠加, 消声器插入损失插值及再生噪音, 综合计算参数传递
+ */
+
+import { calculateGasNoise } from '../src/calculators/gas-noise.js';
+import { calcSilencerLoss } from '../src/calculators/noise/silencer.js';
+import { sumSoundLevels } from '../src/calculators/noise/spectrum.js';
+import type { NoiseInput } from '../src/calculators/noise/types.js';
+import { KvCalculator } from '../src/kv-calculator.js';
+import type { KvInput } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// 空气 10bar(A) → 4bar(A), DN100 管道
+const gasInput: NoiseInput = {
+  fluidType: 'Gas',
+  P1: 1000, P2: 400, deltaP: 600, T1: 293.15,
+  massFlow: 5000, density: 11.9, gamma: 1.4, molecularWeight: 29,
+  Kv: 60, Cv: 69.4, FL: 0.9, xT: 0.72, Fd: 0.46,
+  Di: 102.3, tp: 6.02, d: 100
+};
+
+// 扩径管手算: ρ2 = 11.9×0.4 = 4.76 kg/m³, c2 = √(1.4×8314×293.15/29) = 343.02 m/s
+// dE = 50mm: MR = 4×(5000/3600)/(π×0.05²×4.76×343.02) = 0.4332, fpR = 0.2×MR×c2/0.05 = 594.4 Hz
+function runExpanderCase(): boolean {
+  const expander = calculateGasNoise({ ...gasInput, expander: { inletDiameter: 50 } }).expander!;
+
+  const label = `MR=${expander.Mach.toFixed(4)}, UR=${expander.velocity.toFixed(1)} m/s, fpR=${expander.fp.toFixed(1)} Hz, ${expander.noiseLevel.toFixed(1)} dBA`;
+  if (Math.abs(expander.Mach - 0.4332) < 1e-3 && Math.abs(expander.fp - 594.4) < 0.5) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 总噪音级 = 阀门噪音与扩径管噪音能量叠加; 扩径管入口越小噪音越高
+function runExpanderSumCase(): boolean {
+  const valve = calculateGasNoise(gasInput);
+  const results = [60, 50, 40].map(dE => calculateGasNoise({ ...gasInput, expander: { inletDiameter: dE } }));
+  const sums = results.map(r => sumSoundLevels([valve.noiseLevel, r.expander!.noiseLevel]));
+
+  const label = `阀门 ${valve.noiseLevel} dBA, Φ60/Φ50/Φ40 扩径后 ${results.map(r => r.noiseLevel).join('/')} dBA`;
+  if (!valve.expander && results.every((r, i) => Math.abs(r.noiseLevel - sums[i]) < 0.1)
+    && results[2].noiseLevel > results[1].noiseLevel && results[1].noiseLevel > results[0].noiseLevel) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 消声器: 插入损失对数频率插值, 均匀 10dB 衰减总噪音级降 10dB, 再生噪音能量叠加 (频谱合计与总噪音级一致)
+function runSilencerCase(): boolean {
+  const attenuation = { 500: 10, 1000: 20 };
+  const interpolated = calcSilencerLoss(Math.sqrt(500 * 1000), attenuation);
+  const clamped = calcSilencerLoss(63, attenuation) === 10 && calcSilencerLoss(8000, attenuation) === 20;
+
+  const valve = calculateGasNoise(gasInput);
+  const flat = calculateGasNoise({ ...gasInput, silencer: { attenuation: { 1000: 10 } } });
+  const regen = calculateGasNoise({ ...gasInput, silencer: { attenuation: { 1000: 10 }, selfNoise: 65 } });
+  const expected = sumSoundLevels([valve.noiseLevel - 10, 65]);
+
+  const spectrumLevels = [flat, regen].map(r => r.spectrum!.totalLpeA);
+  const label = `插值 ${interpolated.toFixed(2)} dB, 阀门 ${valve.noiseLevel} → 消声 ${flat.noiseLevel} → 含再生噪音 ${regen.noiseLevel} dBA` +
+    ` (频谱合计 ${spectrumLevels.map(l => l.toFixed(2)).join(' / ')})`;
+  if (Math.abs(interpolated - 15) < 1e-9 && clamped && Math.abs(flat.silencer!.insertionLoss - 10) < 1e-9
+    && Math.abs(flat.noiseLevel - (valve.noiseLevel - 10)) < 0.1 && Math.abs(regen.noiseLevel - expected) < 0.1
+    && Math.abs(spectrumLevels[0] - flat.noiseLevel) < 0.1 && Math.abs(spectrumLevels[1] - regen.noiseLevel) < 0.1) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 综合计算: DN80 阀门接 DN150 管道, outletExpander / silencer 传入噪音计算
+function runCalculatorCase(): boolean {
+  const input: KvInput = {
+    fluidType: 'Gas',
+    fluidName: 'Methane',
+    temperature: 20,
+    tempUnit: '℃',
+    flowRate: 20000,
+    flowUnit: 'Nm3/h',
+    P1: 4.0,
+    P2: 1.5,
+    pressureUnit: 'MPa(G)',
+    DN: 80,
+    D2w: 168.3,
+    D2T: 7.11,
+    FL: 0.9,
+    XT: 0.72,
+    flowChar: 'Equal Percentage',
+    rangeability: 50,
+    ratedKv: 100
+  };
+  const plain = calculator.calculateWithNoise({ ...input, outletExpander: true }).noiseResult;
+  const silenced = calculator.calculateWithNoise({
+    ...input,
+    outletExpander: true,
+    silencer: { attenuation: { 250: 5, 1000: 15, 4000: 25 } }
+  }).noiseResult;
+
+  const label = `扩径 MR=${plain?.expander?.Mach.toFixed(3)}, ${plain?.noiseLevel} dBA → 消声 ${silenced?.noiseLevel} dBA`;
+  if (plain?.expander?.inletDiameter === 80 && silenced?.silencer?.unsilencedLevel === plain.noiseLevel
+    && silenced.noiseLevel < plain.noiseLevel) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  出口扩径管与管道消声器噪音测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const runs = [runExpanderCase, runExpanderSumCase, runSilencerCase, runCalculatorCase];
+  for (const run of runs) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
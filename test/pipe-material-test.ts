@@ -0,0 +1,159 @@
+#!/usr/bin/env bun
+/**
+ * 管道材料与壁厚等级测试
+ * 材料物性用于液体/气体透射损失, KvInput 选择管道材料和壁厚等级
+ */
+
+import { calculateGasNoise } from '../src/calculators/gas-noise.js';
+import { calculateLiquidNoise } from '../src/calculators/liquid-noise.js';
+import { getPipeMaterialProperties } from '../src/calculators/noise/constants.js';
+import type { NoiseInput, PipeMaterial } from '../src/calculators/noise/types.js';
+import { KvCalculator } from '../src/kv-calculator.js';
+import type { KvInput } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// 水 2100 → 1700 KPa(A), DN150 管道 壁厚 7.1mm (紊流)
+const liquidInput: NoiseInput = {
+  fluidType: 'Liquid',
+  P1: 2100, P2: 1700, deltaP: 400, T1: 303,
+  massFlow: 100000, volumeFlow: 100, density: 1000, Pv: 4.2,
+  Kv: 80, Cv: 92.5, FL: 0.9, Fd: 0.46,
+  Di: 154, tp: 7.1, d: 150
+};
+
+// 空气 10bar(A) → 4bar(A), DN100 管道
+const gasInput: NoiseInput = {
+  fluidType: 'Gas',
+  P1: 1000, P2: 400, deltaP: 600, T1: 293.15,
+  massFlow: 5000, density: 11.9, gamma: 1.4, molecularWeight: 29,
+  Kv: 60, Cv: 69.4, FL: 0.9, xT: 0.72, Fd: 0.46,
+  Di: 102.3, tp: 6.02, d: 100
+};
+
+// 液体 1000Hz 透射损失手算: TL = -10 - 10×lg(cs×ρs×tp/(ρ0×c0×Di)) - 20×lg(fr/f + (f/fr)^1.5), fr = cs/(π×Di)
+// 碳钢 -66.390, 玻璃钢 -51.841, 铜镍 -64.394 dB
+function runLiquidTransmissionCase(): boolean {
+  const expected: [PipeMaterial, number][] = [['steel', -66.390], ['grp', -51.841], ['copper-nickel', -64.394]];
+  const results = expected.map(([material, TL]) => {
+    const band = calculateLiquidNoise({ ...liquidInput, pipeMaterial: material }).spectrum!.bands.find(b => b.frequency === 1000)!;
+    return { material, TL: band.TL, ok: Math.abs(band.TL - TL) < 1e-3 };
+  });
+
+  const label = results.map(r => `${getPipeMaterialProperties(r.material).name} ${r.TL.toFixed(3)}`).join(', ');
+  if (results.every(r => r.ok)) {
+    console.log(`  ✓ 通过: ${label} dB`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label} dB`);
+  return false;
+}
+
+// 气体: 默认为碳钢; 轻质管材透射损失小, 噪音高
+function runGasMaterialCase(): boolean {
+  const materials: PipeMaterial[] = ['steel', 'duplex', 'aluminium', 'grp'];
+  const levels = materials.map(material => calculateGasNoise({ ...gasInput, pipeMaterial: material }).noiseLevel);
+  const defaultLevel = calculateGasNoise(gasInput).noiseLevel;
+
+  const label = materials.map((m, i) => `${m} ${levels[i]}`).join(', ');
+  if (defaultLevel === levels[0] && levels[3] > levels[2] && levels[2] > levels[0]) {
+    console.log(`  ✓ 通过: ${label} dBA`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label} dBA, 默认 ${defaultLevel}`);
+  return false;
+}
+
+// 气体质量定律修正: 不锈钢各频带透射损失比碳钢低 20×lg(8000/7800) = 0.220 dB (此前不区分材料, 差值为 0)
+function runGasMassRatioCase(): boolean {
+  const steel = calculateGasNoise(gasInput).spectrum!.bands;
+  const stainless = calculateGasNoise({ ...gasInput, pipeMaterial: 'stainless' }).spectrum!.bands;
+  const expected = 20 * Math.log10(7800 / 8000);
+  const deltas = stainless.map((band, i) => band.TL - steel[i].TL);
+
+  const label = `不锈钢 - 碳钢 透射损失 ${deltas[0].toFixed(3)} dB (理论 ${expected.toFixed(3)} dB)`;
+  if (deltas.every(d => Math.abs(d - expected) < 1e-9)) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 综合计算: pipeMaterial / pipeSchedule 传入噪音计算
+function runCalculatorCase(): boolean {
+  const input: KvInput = {
+    fluidType: 'Liquid',
+    fluidName: 'Water',
+    temperature: 30,
+    tempUnit: '℃',
+    flowRate: 100,
+    flowUnit: 'm3/h',
+    P1: 1.6,
+    P2: 1.2,
+    pressureUnit: 'MPa(G)',
+    DN: 100,
+    ratedKv: 160,
+    FL: 0.9,
+    Fd: 0.46,
+    flowChar: 'Equal Percentage',
+    rangeability: 50
+  };
+  const noiseOf = (extra: Partial<KvInput>) => calculator.calculateWithNoise({ ...input, ...extra }).noiseResult;
+
+  const base = noiseOf({});
+  const steel = noiseOf({ pipeMaterial: 'steel', pipeSchedule: '40', pipeStandard: 'imperial' });
+  const grp = noiseOf({ pipeMaterial: 'grp' });
+  const thin = noiseOf({ pipeSchedule: '10S' });
+  const thick = noiseOf({ pipeSchedule: '80' });
+  const unknown = noiseOf({ pipeSchedule: 'XXX' });
+
+  const label = `默认 ${base?.noiseLevel}, 玻璃钢 ${grp?.noiseLevel}, SCH10S ${thin?.noiseLevel}, SCH80 ${thick?.noiseLevel} dBA`;
+  if (base && steel?.noiseLevel === base.noiseLevel && grp!.noiseLevel > base.noiseLevel
+    && thin!.noiseLevel > thick!.noiseLevel && unknown === undefined) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}, 未知壁厚等级 ${unknown?.noiseLevel}`);
+  return false;
+}
+
+// 未知材料报错
+function runUnknownMaterialCase(): boolean {
+  try {
+    getPipeMaterialProperties('titanium' as PipeMaterial);
+  } catch (error) {
+    console.log(`  ✓ 通过: ${(error as Error).message}`);
+    return true;
+  }
+  console.log('  ✗ 失败: 未知材料应报错');
+  return false;
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  管道材料与壁厚等级测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const runs = [runLiquidTransmissionCase, runGasMaterialCase, runGasMassRatioCase, runCalculatorCase, runUnknownMaterialCase];
+  for (const run of runs) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,155 @@
+#!/usr/bin/env bun
+/**
+ * 随行程变化的 FL/XT/Fd 测试
+ * 开度迭代收敛后所用系数与该开度下的查表值一致, 结果与直接输入这些系数相同
+ */
+
+import { KvCalculator } from '../src/kv-calculator.js';
+import { calcCoefficientsAtTravel } from '../src/calculators/characteristic-table.js';
+import type { KvInput, TravelCoefficientPoint } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// 套筒阀实测系数: 小开度 FL/XT 高, 全开时下降
+const cageTable: TravelCoefficientPoint[] = [
+  { travel: 10, FL: 0.95, XT: 0.82, Fd: 0.25 },
+  { travel: 30, FL: 0.92, XT: 0.76, Fd: 0.32 },
+  { travel: 50, FL: 0.88, XT: 0.7, Fd: 0.38 },
+  { travel: 70, FL: 0.84, XT: 0.64, Fd: 0.42 },
+  { travel: 100, FL: 0.78, XT: 0.55, Fd: 0.46 }
+];
+
+// 液体阻塞流工况 (FL 决定 Kv)
+const liquidInput: KvInput = {
+  fluidType: 'Liquid',
+  fluidName: 'Water',
+  temperature: 60,
+  tempUnit: '℃',
+  flowRate: 90,
+  flowUnit: 'm3/h',
+  P1: 1.2,
+  P2: 0.1,
+  pressureUnit: 'MPa(G)',
+  DN: 100,
+  FL: 0.9,
+  Fd: 0.46,
+  flowChar: 'Equal Percentage',
+  rangeability: 50,
+  ratedKv: 160,
+  travelCoefficients: cageTable
+};
+
+// 气体大压降工况 (XT 决定 Y)
+const gasInput: KvInput = {
+  fluidType: 'Gas',
+  fluidName: 'N2',
+  temperature: 30,
+  tempUnit: '℃',
+  flowRate: 6000,
+  flowUnit: 'Nm3/h',
+  P1: 1.0,
+  P2: 0.3,
+  pressureUnit: 'MPa(G)',
+  DN: 80,
+  FL: 0.9,
+  XT: 0.72,
+  Fd: 0.46,
+  flowChar: 'Equal Percentage',
+  rangeability: 50,
+  ratedKv: 110,
+  travelCoefficients: cageTable
+};
+
+// 收敛后: 系数 = 开度处查表值, 结果 = 直接输入该系数的计算结果 (含噪音)
+function runConsistencyCase(name: string, input: KvInput): boolean {
+  try {
+    const result = calculator.calculateWithNoise(input);
+    const used = result.coefficients!;
+    const lookup = calcCoefficientsAtTravel(used.travel!, cageTable);
+    const { travelCoefficients: _table, ...scalarInput } = input;
+    const direct = calculator.calculateWithNoise({ ...scalarInput, FL: used.FL, XT: used.XT, Fd: used.Fd });
+    const initial = calculator.calculate(scalarInput);
+
+    const label = `${name} 开度 ${initial.valveOpening.toFixed(2)}% → ${result.valveOpening.toFixed(2)}%, `
+      + `FL=${used.FL.toFixed(4)}, XT=${used.XT?.toFixed(4)}, Fd=${used.Fd.toFixed(4)}, `
+      + `迭代 ${result.travelIteration?.iterations} 次, 噪音 ${result.noise?.toFixed(1)} dB(A)`;
+    if (result.travelIteration?.converged
+      && used.FL === lookup.FL && used.XT === lookup.XT && used.Fd === lookup.Fd
+      && Math.abs(used.travel! - result.valveOpening) <= result.travelIteration.tolerance * result.valveOpening
+      && direct.calculatedKv === result.calculatedKv
+      && direct.noise === result.noise
+      && result.calculatedKv !== initial.calculatedKv) {
+      console.log(`  ✓ 通过: ${label}`);
+      return true;
+    }
+    console.log(`  ✗ 失败: ${label}`);
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// 常数系数表与标量输入结果相同
+function runConstantTableCase(): boolean {
+  const { travelCoefficients: _table, ...scalarInput } = liquidInput;
+  const scalar = calculator.calculate(scalarInput);
+  const tabulated = calculator.calculate({
+    ...scalarInput,
+    travelCoefficients: [{ travel: 0, FL: 0.9 }, { travel: 100, FL: 0.9 }]
+  });
+
+  if (tabulated.calculatedKv === scalar.calculatedKv && tabulated.coefficients?.Fd === 0.46) {
+    console.log(`  ✓ 通过: 常数表 Kv=${tabulated.calculatedKv.toFixed(3)}, 未给出的 Fd 保持输入值`);
+    return true;
+  }
+  console.log(`  ✗ 失败: 常数表 Kv=${tabulated.calculatedKv} / ${scalar.calculatedKv}`);
+  return false;
+}
+
+// 由开度求流量: 直接取该开度的系数
+function runFlowCase(): boolean {
+  const { flowRate: _flowRate, ...rest } = liquidInput;
+  const flow = calculator.calculateFlow({ ...rest, opening: 40 });
+  const lookup = calcCoefficientsAtTravel(40, cageTable);
+
+  if (flow.coefficients?.travel === 40 && flow.coefficients.FL === lookup.FL && !flow.travelIteration) {
+    console.log(`  ✓ 通过: 开度 40% FL=${flow.coefficients.FL.toFixed(3)}, 流量 ${flow.flowRate.toFixed(2)} m3/h`);
+    return true;
+  }
+  console.log(`  ✗ 失败: 开度 40% 系数 ${JSON.stringify(flow.coefficients)}`);
+  return false;
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  随行程变化的 FL/XT/Fd 测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const runs = [
+    () => runConsistencyCase('液体', liquidInput),
+    () => runConsistencyCase('气体', gasInput),
+    runConstantTableCase,
+    runFlowCase
+  ];
+  for (const run of runs) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,151 @@
+#!/usr/bin/env bun
+/**
+ * 低噪音阀内件噪音测试
+ * 多级降压级间压力分配, 多孔套筒孔径, 声功率比, 综合计算中阀内件参数传递
+ */
+
+import { calculateGasNoise } from '../src/calculators/gas-noise.js';
+import { calcStagePressures } from '../src/calculators/noise/trim.js';
+import { sumSoundLevels } from '../src/calculators/noise/spectrum.js';
+import type { NoiseInput } from '../src/calculators/noise/types.js';
+import { KvCalculator } from '../src/kv-calculator.js';
+import type { KvInput } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// 空气 10bar(A) → 4bar(A), DN100 管道 (State III)
+const gasInput: NoiseInput = {
+  fluidType: 'Gas',
+  P1: 1000, P2: 400, deltaP: 600, T1: 293.15,
+  massFlow: 5000, density: 11.9, gamma: 1.4, molecularWeight: 29,
+  Kv: 60, Cv: 69.4, FL: 0.9, xT: 0.72, Fd: 0.46,
+  Di: 102.3, tp: 6.02, d: 100
+};
+
+// 级间压力: 气体等压比, 液体等 σ, 给定级间压力须单调递减
+function runStagePressureCase(): boolean {
+  const gas = calcStagePressures(1000, 125, 3);
+  const liquid = calcStagePressures(2100, 300, 2, 4.2);
+  const sigmas = [0, 1].map(i => (liquid[i] - 4.2) / (liquid[i] - liquid[i + 1]));
+
+  let rejected = false;
+  try {
+    calcStagePressures(1000, 400, 3, 0, [500, 600]);
+  } catch {
+    rejected = true;
+  }
+
+  const label = `气体 ${gas.map(p => p.toFixed(1)).join('/')} KPa, 液体各级 σ ${sigmas.map(s => s.toFixed(3)).join('/')}`;
+  if (gas.every((p, i) => Math.abs(p - 1000 / Math.pow(2, i)) < 1e-9)
+    && Math.abs(sigmas[0] - sigmas[1]) < 1e-9 && rejected) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}, 非单调级间压力报错 ${rejected}`);
+  return false;
+}
+
+// 多级降压: 各级噪音能量叠加等于总噪音级, 低于单级
+function runGasMultistageCase(): boolean {
+  const standard = calculateGasNoise(gasInput);
+  const staged = calculateGasNoise({ ...gasInput, trim: { type: 'multistage', stages: 3 } });
+  const stages = staged.stages ?? [];
+  const sum = sumSoundLevels(stages.map(s => s.noiseLevel));
+
+  const label = `单级 ${standard.noiseLevel} dBA → 3级 ${staged.noiseLevel} dBA (${stages.map(s => s.noiseLevel).join(' + ')})`;
+  if (stages.length === 3 && stages[0].P1 === 1000 && stages[2].P2 === 400
+    && Math.abs(sum - staged.noiseLevel) < 0.1 && staged.noiseLevel < standard.noiseLevel
+    && staged.spectrum?.bands.length === 9) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 多孔套筒: 声功率比 0.20 (低 10×lg(0.25/0.2) = 0.97 dB), 小孔峰值频率高、噪音低
+function runCageCase(): boolean {
+  const standard = calculateGasNoise(gasInput);
+  const cage = calculateGasNoise({ ...gasInput, trim: { type: 'cage' } });
+  const holes6 = calculateGasNoise({ ...gasInput, trim: { type: 'cage', holeDiameter: 6 } });
+  const holes3 = calculateGasNoise({ ...gasInput, trim: { type: 'cage', holeDiameter: 3 } });
+
+  const label = `标准 ${standard.noiseLevel}, 套筒 ${cage.noiseLevel}, Φ6 ${holes6.noiseLevel} (fp=${holes6.peakFrequency}Hz), Φ3 ${holes3.noiseLevel} (fp=${holes3.peakFrequency}Hz) dBA`;
+  if (Math.abs(standard.noiseLevel - cage.noiseLevel - 0.97) < 0.11
+    && holes3.peakFrequency > holes6.peakFrequency && holes3.noiseLevel < holes6.noiseLevel
+    && holes6.noiseLevel < cage.noiseLevel) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}`);
+  return false;
+}
+
+// 综合计算: 多级降压级数默认取空化评估结果, trimSpec 级间压力按压力单位换算
+function runCalculatorCase(): boolean {
+  const input: KvInput = {
+    fluidType: 'Liquid',
+    fluidName: 'Water',
+    temperature: 30,
+    tempUnit: '℃',
+    flowRate: 100,
+    flowUnit: 'm3/h',
+    P1: 2.0,
+    P2: 0.2,
+    pressureUnit: 'MPa(G)',
+    DN: 100,
+    ratedKv: 160,
+    FL: 0.9,
+    Fd: 0.46,
+    flowChar: 'Equal Percentage',
+    rangeability: 50
+  };
+  const standard = calculator.calculateWithNoise(input);
+  const staged = calculator.calculateWithNoise({ ...input, valveInternalsType: 'Multi-stage Pressure Reduction' });
+  const given = calculator.calculateWithNoise({
+    ...input,
+    valveInternalsType: 'Multi-stage Pressure Reduction',
+    trimSpec: { stagePressures: [1.0] }
+  });
+
+  const recommended = staged.cavitation?.stages;
+  const stageCount = staged.noiseResult?.stages?.length;
+  const interstage = given.noiseResult?.stages?.[0].P2 ?? 0;
+
+  const label = `标准 ${standard.noise} dBA, ${stageCount} 级 ${staged.noise} dBA, 给定 1.0MPa(G) 级间 ${given.noise} dBA`;
+  if (recommended !== undefined && stageCount === recommended && staged.noise! < standard.noise!
+    && given.noiseResult?.stages?.length === 2 && Math.abs(interstage - 1100) < 1e-6) {
+    console.log(`  ✓ 通过: ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${label}, 推荐级数 ${recommended}, 级间压力 ${interstage} KPa`);
+  return false;
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  低噪音阀内件噪音测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const runs = [runStagePressureCase, runGasMultistageCase, runCageCase, runCalculatorCase];
+  for (const run of runs) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
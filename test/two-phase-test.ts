@@ -0,0 +1,141 @@
+#!/usr/bin/env bun
+/**
+ * 两相流 Kv 计算测试
+ * 有效密度法与均相密度法手算校核, 阻塞流压差限制, 综合计算参数传递
+ */
+
+import { calculateTwoPhaseKv, type TwoPhaseKvParams } from '../src/calculators/two-phase.js';
+import { KvCalculator } from '../src/kv-calculator.js';
+import type { KvInput } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+
+// 水 10000 kg/h + 气体 500 kg/h, 1000 KPa(A) → 700 KPa(A), 无异径管 (d = D1 = D2)
+const baseParams: TwoPhaseKvParams = {
+  Wf: 10000, Wg: 500,
+  P1: 1000, P2: 700,
+  rhoF: 1000, rhoG: 10,
+  Pv: 4.2, Pc: 22.064,
+  FL: 0.9, gamma: 1.4, xT: 0.72,
+  d: 100, D1: 100, D2: 100,
+  ratedKv: 40
+};
+
+function check(label: string, ok: boolean): boolean {
+  console.log(`  ${ok ? '✓ 通过' : '✗ 失败'}: ${label}`);
+  return ok;
+}
+
+// 有效密度法手算:
+// x = 300/1000 = 0.3, Fγ = 1, Y = 1 - 0.3/(3×0.72) = 0.86111, 干度 xq = 500/10500 = 0.047619
+// ρe = 1/(xq/(ρg×Y²) + (1-xq)/ρf) = 135.607 kg/m³
+// Kv = W/(N6×√(ΔP×ρe)) = 10500/(3.16×√(300×135.607)) = 16.474
+function runEffectiveDensityCase(): boolean {
+  const result = calculateTwoPhaseKv(baseParams);
+  const { Y, rhoE } = result.intermediate;
+
+  return check(
+    `有效密度法 Y=${Y.toFixed(5)}, ρe=${rhoE.toFixed(3)} kg/m³, Kv=${result.kv.toFixed(3)}`,
+    result.method === 'Effective Density' && result.flowState === 'Non-choked' && !result.hasFittings
+      && Math.abs(Y - 0.86111) < 1e-5 && Math.abs(rhoE - 135.607) < 1e-3
+      && Math.abs(result.kv - 16.474) < 1e-3
+  );
+}
+
+// 均相密度法手算 (Y = 1):
+// ρh = 1/(0.047619/10 + 0.952381/1000) = 175.0 kg/m³
+// Kv = 10500/(3.16×√(300×175)) = 14.502
+function runHomogeneousCase(): boolean {
+  const result = calculateTwoPhaseKv({ ...baseParams, method: 'Homogeneous' });
+  const { Y, rhoE } = result.intermediate;
+
+  return check(
+    `均相密度法 Y=${Y}, ρh=${rhoE.toFixed(3)} kg/m³, Kv=${result.kv.toFixed(3)}`,
+    result.method === 'Homogeneous' && Y === 1
+      && Math.abs(rhoE - 175.0) < 1e-3 && Math.abs(result.kv - 14.502) < 1e-3
+  );
+}
+
+// 阻塞流: P2 = 100 KPa(A), ΔP = 900
+// 液相 FL²×(P1 - FF×Pv) ≈ 806.8, 气相 Fγ×xT×P1 = 720 → 取 720
+// x = 0.72, Y = max(1 - 0.72/2.16, 0.667) = 0.667, ρe = 85.793 kg/m³
+// Kv = 10500/(3.16×√(720×85.793)) = 13.369
+function runChokedCase(): boolean {
+  const result = calculateTwoPhaseKv({ ...baseParams, P2: 100 });
+  const { deltaPSizing, deltaPChokedLiquid, Y, rhoE } = result.intermediate;
+
+  return check(
+    `阻塞流 ΔPs=${deltaPSizing}, 液相限值 ${deltaPChokedLiquid.toFixed(1)}, Y=${Y}, ρe=${rhoE.toFixed(3)}, Kv=${result.kv.toFixed(3)}`,
+    result.flowState === 'Choked' && Math.abs(deltaPSizing - 720) < 1e-9
+      && deltaPChokedLiquid > 720 && Y === 0.667
+      && Math.abs(rhoE - 85.793) < 1e-3 && Math.abs(result.kv - 13.369) < 1e-3
+  );
+}
+
+// 综合计算: 单位换算后与直接计算一致
+// 液相 10 m³/h × 1000 kg/m³ = 10000 kg/h, 0.9 MPa(G) → 0.6 MPa(G) 即 1000 → 700 KPa(A)
+function runCalculatorCase(): boolean {
+  const input: KvInput = {
+    fluidType: 'Two-phase (Liquid+Gas)',
+    temperature: 20,
+    tempUnit: '℃',
+    flowRate: 10,
+    flowUnit: 'm3/h',
+    gasFlowRate: 500,
+    gasFlowUnit: 'Kg/h',
+    P1: 0.9,
+    P2: 0.6,
+    pressureUnit: 'MPa(G)',
+    density: 1000,
+    densityUnit: 'Kg/m3',
+    gasDensity: 10,
+    gasDensityUnit: 'Kg/m3',
+    gamma: 1.4,
+    Pc: 22.064,
+    vaporPressure: 4.2,
+    vaporPressureUnit: 'KPa(A)',
+    DN: 100,
+    FL: 0.9,
+    XT: 0.72,
+    flowChar: 'Equal Percentage',
+    rangeability: 50,
+    ratedKv: 40
+  };
+  const effective = calculator.calculate(input);
+  const homogeneous = calculator.calculate({ ...input, twoPhaseMethod: 'Homogeneous' });
+
+  return check(
+    `综合计算 有效密度法 Kv=${effective.calculatedKv.toFixed(3)}, 均相密度法 Kv=${homogeneous.calculatedKv.toFixed(3)}`,
+    Math.abs(effective.calculatedKv - 16.474) < 1e-3 && Math.abs(homogeneous.calculatedKv - 14.502) < 1e-3
+      && effective.intermediate.twoPhaseMethod === 'Effective Density'
+      && Math.abs((effective.intermediate.mixtureQuality ?? 0) - 500 / 10500) < 1e-9
+  );
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  两相流 Kv 计算测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const runs = [runEffectiveDensityCase, runHomogeneousCase, runChokedCase, runCalculatorCase];
+  for (const run of runs) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
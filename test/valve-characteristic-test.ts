@@ -0,0 +1,111 @@
+#!/usr/bin/env bun
+/**
+ * 流量特性正反函数测试
+ * 开度 → Kv → 开度 往返校验, 0% 附近的可调比处理, 特性曲线生成
+ */
+
+import {
+  calcValveOpening,
+  calcKvAtOpening,
+  calcKvRatioAtOpening,
+  generateCharacteristicCurve
+} from '../src/calculators/valve-opening.js';
+import type { CharacteristicPoint, FlowCharacteristic } from '../src/types/index.js';
+
+const RATED_KV = 110;
+const R = 50;
+
+// 厂家特性表 (修正抛物线)
+const table: CharacteristicPoint[] = [
+  { travel: 0, kv: 0 },
+  { travel: 20, kv: 5 },
+  { travel: 40, kv: 16 },
+  { travel: 60, kv: 36 },
+  { travel: 80, kv: 64 },
+  { travel: 100, kv: 100 }
+];
+
+const characteristics: FlowCharacteristic[] = ['Equal Percentage', 'Linear', 'Quick Opening', 'Tabulated'];
+
+// 开度 0.5% ~ 100% 往返
+function runRoundTripCase(flowChar: FlowCharacteristic): boolean {
+  let maxError = 0;
+  for (let opening = 0.5; opening <= 100; opening += 0.5) {
+    const Kv = calcKvAtOpening(opening, RATED_KV, R, flowChar, table);
+    const back = calcValveOpening(Kv, RATED_KV, R, flowChar, table);
+    maxError = Math.max(maxError, Math.abs(back - opening));
+  }
+
+  if (maxError < 1e-6) {
+    console.log(`  ✓ 通过: ${flowChar} 往返最大偏差 ${maxError.toExponential(2)}%`);
+    return true;
+  }
+  console.log(`  ✗ 失败: ${flowChar} 往返最大偏差 ${maxError.toExponential(2)}%`);
+  return false;
+}
+
+// 0% 附近: 关闭时 Kv=0, 刚开启时为最小可控 Kv = Kv100/R, 反算开度为 0%
+function runNearZeroCase(): boolean {
+  const ideal: FlowCharacteristic[] = ['Equal Percentage', 'Linear', 'Quick Opening'];
+  const closed = ideal.every(c => calcKvRatioAtOpening(0, R, c) === 0 && calcValveOpening(0, RATED_KV, R, c) === 0);
+  const minimum = ideal.every(c => Math.abs(calcKvRatioAtOpening(1e-9, R, c) - 1 / R) < 1e-9);
+  const boundary = ideal.every(c => Math.abs(calcValveOpening(RATED_KV / R, RATED_KV, R, c)) < 1e-9);
+  const oversized = calcValveOpening(RATED_KV / R / 2, RATED_KV, R, 'Equal Percentage') < 0;
+
+  if (closed && minimum && boundary && oversized) {
+    console.log(`  ✓ 通过: 关闭 Kv=0, 最小可控 Kv=Kv100/R=${(RATED_KV / R).toFixed(2)}, 低于可调范围时开度为负`);
+    return true;
+  }
+  console.log(`  ✗ 失败: 关闭 ${closed}, 最小可控 ${minimum}, 边界 ${boundary}, 过大 ${oversized}`);
+  return false;
+}
+
+// 特性曲线: 点数, 端点, 单调
+function runCurveCase(): boolean {
+  const results = characteristics.map(flowChar => {
+    const curve = generateCharacteristicCurve(RATED_KV, R, flowChar, table, 10);
+    const monotonic = curve.every((p, i) => i === 0 || p.Kv >= curve[i - 1].Kv);
+    return curve.length === 11 && curve[0].Kv === 0 && curve[10].Kv === RATED_KV && monotonic;
+  });
+
+  const curve = generateCharacteristicCurve(RATED_KV, R, 'Equal Percentage');
+  const label = curve.filter(p => p.opening % 25 === 0).map(p => `${p.opening}%:${p.kvRatio.toFixed(3)}`).join(', ');
+  if (results.every(Boolean) && curve.length === 21) {
+    console.log(`  ✓ 通过: 等百分比 ${label}`);
+    return true;
+  }
+  console.log(`  ✗ 失败: 曲线检查 ${results.join(', ')}`);
+  return false;
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  流量特性正反函数测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const runs = [
+    ...characteristics.map(c => () => runRoundTripCase(c)),
+    runNearZeroCase,
+    runCurveCase
+  ];
+  for (const run of runs) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,163 @@
+#!/usr/bin/env bun
+/**
+ * 阀门自动选型测试
+ * 推荐阀门开度落在许用范围内, 候选排序, 以及系列/流量特性筛选
+ */
+
+import { KvCalculator } from '../src/kv-calculator.js';
+import { CONSTANTS } from '../src/constants/index.js';
+import type { ValveSelectionInput, ValveEvaluation } from '../src/types/index.js';
+
+const calculator = new KvCalculator();
+const { MIN_OPENING, MAX_OPENING } = CONSTANTS.THRESHOLD;
+
+// 冷却水 正常 60 m3/h, 最小 20, 最大 80
+const waterInput: ValveSelectionInput = {
+  fluidType: 'Liquid',
+  fluidName: 'Water',
+  temperature: 30,
+  tempUnit: '℃',
+  flowRate: 60,
+  minFlowRate: 20,
+  maxFlowRate: 80,
+  flowUnit: 'm3/h',
+  P1: 0.8,
+  P2: 0.5,
+  pressureUnit: 'MPa(G)'
+};
+
+// 天然气 正常 8000 Nm3/h
+const gasInput: ValveSelectionInput = {
+  fluidType: 'Gas',
+  fluidName: 'CH4',
+  temperature: 20,
+  tempUnit: '℃',
+  flowRate: 8000,
+  minFlowRate: 3000,
+  maxFlowRate: 10000,
+  flowUnit: 'Nm3/h',
+  P1: 1.6,
+  P2: 1.2,
+  pressureUnit: 'MPa(G)'
+};
+
+function describe(e: ValveEvaluation): string {
+  const c = e.candidate;
+  return `${c.series} DN${c.DN}/${c.trimSize} Kv=${c.ratedKv} ${c.flowChar}, 开度 ${e.minOpening?.toFixed(1)}/${e.normalOpening.toFixed(1)}/${e.maxOpening?.toFixed(1)}%`;
+}
+
+// 推荐阀门: 各工况开度均在许用范围内
+function runRecommendationCase(name: string, input: ValveSelectionInput): boolean {
+  try {
+    const { recommended } = calculator.selectValve(input);
+    if (!recommended) {
+      console.log(`  ✗ 失败: ${name} 无推荐阀门`);
+      return false;
+    }
+    const openings = [recommended.minOpening!, recommended.normalOpening, recommended.maxOpening!];
+    if (recommended.suitable && openings.every(o => o >= MIN_OPENING && o <= MAX_OPENING)) {
+      console.log(`  ✓ 通过: ${name} 推荐 ${describe(recommended)}`);
+      return true;
+    }
+    console.log(`  ✗ 失败: ${name} 推荐 ${describe(recommended)} ${recommended.issues.join('; ')}`);
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// 候选排序: 合适的在前, 同类按评分升序
+function runRankingCase(): boolean {
+  const { candidates } = calculator.selectValve(waterInput);
+  const sorted = candidates.every((e, i) => {
+    if (i === 0) return true;
+    const prev = candidates[i - 1];
+    return prev.suitable !== e.suitable ? prev.suitable : prev.score <= e.score;
+  });
+  const suitable = candidates.filter(e => e.suitable).length;
+  const unsuitable = candidates.find(e => !e.suitable);
+
+  if (sorted && suitable > 0 && unsuitable && unsuitable.issues.length > 0) {
+    console.log(`  ✓ 通过: ${candidates.length} 个候选, 合适 ${suitable} 个, 排序正确`);
+    return true;
+  }
+  console.log(`  ✗ 失败: 排序 ${sorted ? '正确' : '错误'}, 合适 ${suitable} 个`);
+  return false;
+}
+
+// 系列与流量特性筛选, 未知系列报错
+function runFilterCase(): boolean {
+  const { candidates } = calculator.selectValve({ ...gasInput, series: ['cg'], flowChar: 'Linear' });
+  const filtered = candidates.length > 0
+    && candidates.every(e => e.candidate.series === 'CG' && e.candidate.flowChar === 'Linear');
+
+  let rejected = false;
+  try {
+    calculator.selectValve({ ...gasInput, series: ['XX'] });
+  } catch {
+    rejected = true;
+  }
+
+  if (filtered && rejected) {
+    console.log(`  ✓ 通过: CG 线性 ${candidates.length} 个候选, 未知系列报错`);
+    return true;
+  }
+  console.log(`  ✗ 失败: 筛选 ${filtered}, 未知系列报错 ${rejected}`);
+  return false;
+}
+
+// 计算报错的候选标记为不合适, 选型不中断 (两相流缺少 gasFlowRate / gasDensity)
+function runFailedCandidateCase(): boolean {
+  const input: ValveSelectionInput = { ...waterInput, fluidType: 'Two-phase (Liquid+Gas)', density: 995, densityUnit: 'Kg/m3' };
+
+  try {
+    const { recommended, candidates } = calculator.selectValve(input);
+    const reported = candidates.every(e => !e.suitable && e.result === undefined
+      && e.issues.some(issue => issue.startsWith('Normal: Two-phase calculation requires')));
+
+    if (recommended === null && candidates.length > 0 && reported) {
+      console.log(`  ✓ 通过: ${candidates.length} 个候选均不合适, ${candidates[0].issues[0]}`);
+      return true;
+    }
+    console.log(`  ✗ 失败: 推荐 ${recommended?.candidate.series}, 问题 ${candidates[0]?.issues.join('; ')}`);
+    return false;
+  } catch (error) {
+    console.log(`  ✗ 错误: ${error}`);
+    return false;
+  }
+}
+
+// 主函数
+function main() {
+  console.log('═'.repeat(60));
+  console.log('  阀门自动选型测试');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  const runs = [
+    () => runRecommendationCase('冷却水', waterInput),
+    () => runRecommendationCase('天然气', gasInput),
+    runRankingCase,
+    runFilterCase,
+    runFailedCandidateCase
+  ];
+  for (const run of runs) {
+    if (run()) {
+      passed++;
+    } else {
+      failed++;
+    }
+  }
+
+  // 汇总
+  console.log('\n' + '═'.repeat(60));
+  console.log(`  总计: ${passed + failed} 个测试, 通过: ${passed} 个, 失败: ${failed} 个`);
+  console.log('═'.repeat(60));
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();